@@ -1,125 +1,270 @@
 import {
   Alert,
-  Avatar,
   Box,
   Button,
+  Chip,
   CircularProgress,
+  Collapse,
   Container,
-  MenuItem,
-  Select,
+  IconButton,
+  Snackbar,
   Stack,
   TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
   Typography,
 } from '@mui/material';
-import { useCallback, useMemo, useState } from 'react';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import TableRowsIcon from '@mui/icons-material/TableRows';
+import ViewKanbanIcon from '@mui/icons-material/ViewKanban';
+import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
+import TuneIcon from '@mui/icons-material/Tune';
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 
 import MetricsBar from '@/components/MetricsBar';
+import QuotaCard from '@/components/QuotaCard';
 import TaskTable from '@/components/TaskTable';
+import TaskBoard from '@/components/TaskBoard';
+import TaskCalendar from '@/components/TaskCalendar';
 import UndoSnackbar from '@/components/UndoSnackbar';
 import ChartsDashboard from '@/components/ChartsDashboard';
 import AnalyticsDashboard from '@/components/AnalyticsDashboard';
-import ActivityLog, { ActivityItem } from '@/components/ActivityLog';
+import ActivityLog from '@/components/ActivityLog';
+import QueryBuilder from '@/components/QueryBuilder';
+import SavedViewsMenu from '@/components/SavedViewsMenu';
+import UserSwitcher from '@/components/UserSwitcher';
+import TimerIndicator from '@/components/TimerIndicator';
+import TaskDetailsDialog from '@/components/TaskDetailsDialog';
+import CsvImportDialog from '@/components/CsvImportDialog';
+import CsvExportDialog from '@/components/CsvExportDialog';
+import WorkflowDialog from '@/components/WorkflowDialog';
+import RecurringTemplatesDialog from '@/components/RecurringTemplatesDialog';
+import WorkspaceDialog, { RestoreOptions } from '@/components/WorkspaceDialog';
 
 import { UserProvider, useUser } from '@/context/UserContext';
 import { TasksProvider, useTasksContext } from '@/context/TasksContext';
+import { TimerProvider } from '@/context/TimerContext';
+import { RecurrenceProvider, useRecurrence } from '@/context/RecurrenceContext';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useViewState } from '@/hooks/useViewState';
 
-import { downloadCSV, toCSV } from '@/utils/csv';
-import type { Task, TaskInput } from '@/types';
+import type { ImportPlan } from '@/utils/csvImport';
+import { WorkspaceBackup, planRoster } from '@/utils/workspace';
+import type { DerivedTask } from '@/types';
+import { computeMetrics, sortTasksBy } from '@/utils/logic';
+import { BoardMove, groupByStatus, planMove } from '@/utils/board';
 import {
-  computeAverageROI,
-  computePerformanceGrade,
-  computeRevenuePerHour,
-  computeTimeEfficiency,
-  computeTotalRevenue,
-} from '@/utils/logic';
+  EMPTY_QUERY,
+  QueryGroup,
+  filterByQuery,
+  formatQuery,
+  QUICK_FILTERS,
+  QueryCondition,
+  hasCondition,
+  toggleCondition,
+  tryParseQuery,
+} from '@/utils/query';
+import { isOverdue } from '@/utils/dueDates';
+import { todayKey } from '@/utils/dates';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { DEFAULT_VIEW, SavedView, ViewState, normalizeColumns, upsertView } from '@/utils/views';
+
+// Load problems beyond this many are summarized as a count.
+const SHOWN_SKIPPED = 5;
+
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
 
 function AppContent() {
   const {
     loading,
     error,
+    tasks,
     derivedSorted,
     addTask,
     updateTask,
     deleteTask,
-    undoDelete,
-    clearLastDeleted,
-    lastDeleted,
+    applyBatch,
+    validationError,
+    saveError,
+    retrySave,
+    loadIssues,
+    dismissLoadIssues,
+    clearValidationError,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    lastAction,
+    redoLabel,
+    restoreTasks,
+    retry,
+    loadDemoData,
+    activity,
+    workflow,
   } = useTasksContext();
 
-  const { user } = useUser();
-
-  const [q, setQ] = useState('');
-  const [fStatus, setFStatus] = useState('All');
-  const [fPriority, setFPriority] = useState('All');
-  const [activity, setActivity] = useState<ActivityItem[]>([]);
-
-  const createActivity = useCallback(
-    (type: ActivityItem['type'], summary: string): ActivityItem => ({
-      id:
-        typeof crypto !== 'undefined' && 'randomUUID' in crypto
-          ? crypto.randomUUID()
-          : `${Date.now()}-${Math.random().toString(16).slice(2)}`,
-      ts: Date.now(),
-      type,
-      summary,
-    }),
-    [],
+  const { user, users, restoreUsers } = useUser();
+  const { restoreTemplates } = useRecurrence();
+  const { timeZone } = useDateSettings();
+
+  const [builderOpen, setBuilderOpen] = useState(false);
+  const [activityTaskId, setActivityTaskId] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportSelection, setExportSelection] = useState<DerivedTask[]>([]);
+  const [workspaceOpen, setWorkspaceOpen] = useState(false);
+  const [workflowOpen, setWorkflowOpen] = useState(false);
+  const [recurringOpen, setRecurringOpen] = useState(false);
+  const [undoOpen, setUndoOpen] = useState(false);
+  const [lastView, setLastView] = usePersistentState<ViewState>(`taskglitch:${user.id}:view`, DEFAULT_VIEW);
+  const [savedViews, setSavedViews] = usePersistentState<SavedView[]>(`taskglitch:${user.id}:views`, []);
+  // A shared link in the URL takes precedence over the last view used here.
+  // Switching user loads their last view; keying on the id means the
+  // write-back below never sees the previous user's view.
+  const [view, updateView] = useViewState(
+    {
+      ...DEFAULT_VIEW,
+      ...lastView,
+      columns: normalizeColumns(lastView.columns ?? DEFAULT_VIEW.columns),
+    },
+    user.id,
   );
+  const { query: q, sort } = view;
+
+  useEffect(() => {
+    setLastView(view);
+  }, [view]);
+
+  const setQ = useCallback((query: string) => updateView({ query }), [updateView]);
+
+  // Surface the snackbar whenever the top of the undo stack changes.
+  useEffect(() => {
+    setUndoOpen(!!lastAction);
+  }, [lastAction?.id]);
+
+  const parsed = useMemo(() => tryParseQuery(q, workflow), [q, workflow]);
+
+  // Filtering large boards lags behind keystrokes instead of blocking them.
+  const deferredQ = useDeferredValue(q);
+
+  // While the text is mid-edit and invalid, keep showing the last valid result.
+  const lastQuery = useRef<QueryGroup>(EMPTY_QUERY);
+  const activeQuery = useMemo(() => {
+    const result = tryParseQuery(deferredQ, workflow);
+    if (result.query) lastQuery.current = result.query;
+    return lastQuery.current;
+  }, [deferredQ, workflow]);
 
   const filtered = useMemo(() => {
-    return derivedSorted.filter(t => {
-      if (q && !t.title.toLowerCase().includes(q.toLowerCase())) return false;
-      if (fStatus !== 'All' && t.status !== fStatus) return false;
-      if (fPriority !== 'All' && t.priority !== fPriority) return false;
-      return true;
-    });
-  }, [derivedSorted, q, fStatus, fPriority]);
-
-  // ✅ FIXED: TaskInput instead of Omit<Task, 'id'>
-  const handleAdd = useCallback(
-    (payload: TaskInput) => {
-      addTask(payload);
-      setActivity(prev => [
-        createActivity('add', `Added: ${payload.title}`),
-        ...prev,
-      ].slice(0, 50));
+    const matches = filterByQuery(derivedSorted, activeQuery, { userId: user.id, timeZone, workflow });
+    // derivedSorted is already in Recommended order.
+    return sort.length ? sortTasksBy(matches, sort, workflow) : matches;
+  }, [derivedSorted, activeQuery, sort, user.id, timeZone, workflow]);
+
+  const handleBuilderChange = useCallback(
+    (query: QueryGroup) => {
+      setQ(formatQuery(query));
+    },
+    [setQ],
+  );
+
+  const isQuickActive = (condition: QueryCondition) => !!parsed.query && hasCondition(parsed.query, condition);
+  const overdueCount = useMemo(() => {
+    const today = todayKey(timeZone);
+    return tasks.filter(t => isOverdue(t, today, workflow)).length;
+  }, [tasks, timeZone, workflow]);
+  const myTaskCount = useMemo(() => tasks.filter(t => t.assigneeId === user.id).length, [tasks, user.id]);
+
+  const toggleQuick = useCallback(
+    (condition: QueryCondition) => {
+      if (parsed.query) setQ(formatQuery(toggleCondition(parsed.query, condition)));
+    },
+    [parsed.query, setQ],
+  );
+
+  const handleReschedule = useCallback(
+    (id: string, dueDate: string | undefined) => {
+      updateTask(id, { dueDate });
     },
-    [addTask, createActivity],
+    [updateTask],
   );
 
-  const handleUpdate = useCallback(
-    (id: string, patch: Partial<Task>) => {
-      updateTask(id, patch);
-      setActivity(prev => [
-        createActivity('update', `Updated: ${Object.keys(patch).join(', ')}`),
-        ...prev,
-      ].slice(0, 50));
+  const handleSaveView = useCallback(
+    (name: string) => {
+      setSavedViews(prev => upsertView(prev, name, view));
     },
-    [updateTask, createActivity],
+    [setSavedViews, view],
   );
 
-  const handleDelete = useCallback(
+  const handleApplyView = useCallback(
+    ({ query, sort, columns, mode }: SavedView) => {
+      updateView({ query, sort, columns: normalizeColumns(columns), mode });
+    },
+    [updateView],
+  );
+
+  const handleDeleteView = useCallback(
     (id: string) => {
-      deleteTask(id);
-      setActivity(prev => [
-        createActivity('delete', `Deleted task ${id}`),
-        ...prev,
-      ].slice(0, 50));
+      setSavedViews(prev => prev.filter(v => v.id !== id));
+    },
+    [setSavedViews],
+  );
+
+  const filteredMetrics = useMemo(
+    () => computeMetrics(filtered, timeZone, workflow),
+    [filtered, timeZone, workflow],
+  );
+
+  const taskIds = useMemo(() => new Set(tasks.map(t => t.id)), [tasks]);
+  const allTitles = useMemo(() => tasks.map(t => t.title), [tasks]);
+
+  useUndoShortcuts(undo, redo);
+
+  const handleImport = useCallback(
+    (plan: ImportPlan) => {
+      applyBatch(`import ${plan.toAdd.length + plan.toUpdate.length} tasks from CSV`, {
+        add: plan.toAdd,
+        update: plan.toUpdate,
+      });
+    },
+    [applyBatch],
+  );
+
+  const handleMove = useCallback(
+    (move: BoardMove) => {
+      const task = tasks.find(t => t.id === move.taskId);
+      if (!task) return;
+      const label =
+        task.status === move.toStatus
+          ? `reorder ${task.title}`
+          : `move ${task.title} to ${move.toStatus}`;
+      applyBatch(label, { update: planMove(groupByStatus(filtered, workflow), move) });
+    },
+    [tasks, filtered, workflow, applyBatch],
+  );
+
+  const handleExportSelection = useCallback((selection: DerivedTask[]) => {
+    setExportSelection(selection);
+    setExportOpen(true);
+  }, []);
+
+  const handleRestore = useCallback(
+    (backup: WorkspaceBackup, { mode, includeUser }: RestoreOptions) => {
+      restoreTasks(backup.tasks, mode, backup.activity, backup.workflow);
+      if (backup.templates) restoreTemplates(backup.templates, mode);
+      if (includeUser) restoreUsers(planRoster(users, backup, mode), backup.user.id);
     },
-    [deleteTask, createActivity],
+    [restoreTasks, restoreTemplates, restoreUsers, users],
   );
 
-  const handleUndo = useCallback(() => {
-    undoDelete();
-    setActivity(prev => [
-      createActivity('undo', 'Undo delete'),
-      ...prev,
-    ].slice(0, 50));
-  }, [undoDelete, createActivity]);
+  const openActivityTask = useCallback((id: string) => setActivityTaskId(id), []);
 
   const handleCloseUndo = useCallback(() => {
-    clearLastDeleted();
-  }, [clearLastDeleted]);
+    setUndoOpen(false);
+  }, []);
 
   return (
     <Box sx={{ minHeight: '100dvh', bgcolor: 'background.default' }}>
@@ -136,13 +281,43 @@ function AppContent() {
               </Typography>
             </Box>
             <Stack direction="row" spacing={2} alignItems="center">
+              <TimerIndicator onOpenTask={openActivityTask} />
+              <Tooltip title={lastAction ? `Undo: ${lastAction.label} (Ctrl+Z)` : 'Nothing to undo'}>
+                <span>
+                  <IconButton onClick={undo} disabled={!canUndo}>
+                    <UndoIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                <span>
+                  <IconButton onClick={redo} disabled={!canRedo}>
+                    <RedoIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Button variant="outlined" onClick={() => setImportOpen(true)}>
+                Import CSV
+              </Button>
               <Button
                 variant="outlined"
-                onClick={() => downloadCSV('tasks.csv', toCSV(filtered))}
+                onClick={() => {
+                  setExportSelection([]);
+                  setExportOpen(true);
+                }}
               >
                 Export CSV
               </Button>
-              <Avatar>{user.name.charAt(0)}</Avatar>
+              <Button variant="outlined" onClick={() => setRecurringOpen(true)}>
+                Recurring
+              </Button>
+              <Button variant="outlined" onClick={() => setWorkflowOpen(true)}>
+                Workflow
+              </Button>
+              <Button variant="outlined" onClick={() => setWorkspaceOpen(true)}>
+                Backup
+              </Button>
+              <UserSwitcher />
             </Stack>
           </Stack>
 
@@ -154,71 +329,244 @@ function AppContent() {
           )}
 
           {/* Error */}
-          {error && <Alert severity="error">{error}</Alert>}
+          {error && (
+            <Alert
+              severity="error"
+              action={
+                <Stack direction="row" spacing={1}>
+                  <Button color="inherit" size="small" onClick={retry}>
+                    Retry
+                  </Button>
+                  <Button color="inherit" size="small" onClick={loadDemoData}>
+                    Use demo data
+                  </Button>
+                </Stack>
+              }
+            >
+              {error}
+            </Alert>
+          )}
+
+          {loadIssues && (
+            <Alert severity="warning" onClose={dismissLoadIssues}>
+              {loadIssues.skipped.length > 0 && (
+                <>
+                  Skipped {plural(loadIssues.skipped.length, 'invalid record')} from the {loadIssues.source}:
+                  <Box component="ul" sx={{ my: 0.5, pl: 2.5 }}>
+                    {loadIssues.skipped.slice(0, SHOWN_SKIPPED).map(s => (
+                      <li key={s.record}>
+                        #{s.record}: {s.problems.join(', ')}
+                      </li>
+                    ))}
+                    {loadIssues.skipped.length > SHOWN_SKIPPED && (
+                      <li>…and {loadIssues.skipped.length - SHOWN_SKIPPED} more</li>
+                    )}
+                  </Box>
+                </>
+              )}
+              {loadIssues.backfilled.length > 0 &&
+                `${plural(loadIssues.backfilled.length, 'closed task')} had no completion date and ${
+                  loadIssues.backfilled.length === 1 ? 'counts' : 'count'
+                } as completed when created.`}
+            </Alert>
+          )}
 
           {/* Metrics */}
           {!loading && !error && (
-            <MetricsBar
-              metricsOverride={{
-                totalRevenue: computeTotalRevenue(filtered),
-                totalTimeTaken: filtered.reduce((s, t) => s + t.timeTaken, 0),
-                timeEfficiencyPct: computeTimeEfficiency(filtered),
-                revenuePerHour: computeRevenuePerHour(filtered),
-                averageROI: computeAverageROI(filtered),
-                performanceGrade: computePerformanceGrade(
-                  computeAverageROI(filtered),
-                ),
-              }}
-            />
+            <Stack direction={{ xs: 'column', lg: 'row' }} spacing={2} alignItems="stretch">
+              <Box flex={1} minWidth={0}>
+                <MetricsBar
+                  metricsOverride={filteredMetrics}
+                  tasks={filtered}
+                />
+              </Box>
+              <Box width={{ lg: 380 }} flexShrink={0}>
+                <QuotaCard tasks={tasks} />
+              </Box>
+            </Stack>
           )}
 
           {/* Filters */}
           {!loading && !error && (
             <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
               <TextField
-                placeholder="Search by title"
+                placeholder='Filter, e.g. status:"In Progress" revenue>1000 created:>2026-09-01 notes:contract'
                 value={q}
                 onChange={e => setQ(e.target.value)}
+                error={!!parsed.error}
+                helperText={parsed.error ? `${parsed.error.message} (at column ${parsed.error.position + 1})` : undefined}
+                inputProps={{ 'aria-label': 'Filter query', spellCheck: false }}
                 fullWidth
               />
-              <Select value={fStatus} onChange={e => setFStatus(e.target.value)}>
-                <MenuItem value="All">All Statuses</MenuItem>
-                <MenuItem value="Todo">Todo</MenuItem>
-                <MenuItem value="In Progress">In Progress</MenuItem>
-                <MenuItem value="Done">Done</MenuItem>
-              </Select>
-              <Select
-                value={fPriority}
-                onChange={e => setFPriority(e.target.value)}
+              <Tooltip title="Filter builder">
+                <ToggleButton
+                  size="small"
+                  value="builder"
+                  selected={builderOpen}
+                  onChange={() => setBuilderOpen(o => !o)}
+                  aria-label="Filter builder"
+                  sx={{ alignSelf: 'flex-start', height: 56 }}
+                >
+                  <TuneIcon fontSize="small" />
+                </ToggleButton>
+              </Tooltip>
+              <SavedViewsMenu
+                views={savedViews}
+                current={view}
+                onApply={handleApplyView}
+                onSave={handleSaveView}
+                onDelete={handleDeleteView}
+              />
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                value={view.mode}
+                onChange={(_, mode) => mode && updateView({ mode })}
+                aria-label="View"
+                sx={{ alignSelf: 'flex-start', height: 56 }}
               >
-                <MenuItem value="All">All Priorities</MenuItem>
-                <MenuItem value="High">High</MenuItem>
-                <MenuItem value="Medium">Medium</MenuItem>
-                <MenuItem value="Low">Low</MenuItem>
-              </Select>
+                <ToggleButton value="table" aria-label="Table view">
+                  <TableRowsIcon fontSize="small" />
+                </ToggleButton>
+                <ToggleButton value="board" aria-label="Board view">
+                  <ViewKanbanIcon fontSize="small" />
+                </ToggleButton>
+                <ToggleButton value="calendar" aria-label="Calendar view">
+                  <CalendarMonthIcon fontSize="small" />
+                </ToggleButton>
+              </ToggleButtonGroup>
+            </Stack>
+          )}
+
+          {!loading && !error && (
+            <Stack direction="row" spacing={1}>
+              <Chip
+                label={`My tasks · ${myTaskCount}`}
+                color="primary"
+                variant={isQuickActive(QUICK_FILTERS.mine) ? 'filled' : 'outlined'}
+                onClick={() => toggleQuick(QUICK_FILTERS.mine)}
+                disabled={!parsed.query}
+                aria-pressed={isQuickActive(QUICK_FILTERS.mine)}
+              />
+              <Chip
+                label={`Overdue · ${overdueCount}`}
+                color="error"
+                variant={isQuickActive(QUICK_FILTERS.overdue) ? 'filled' : 'outlined'}
+                onClick={() => toggleQuick(QUICK_FILTERS.overdue)}
+                disabled={!parsed.query}
+                aria-pressed={isQuickActive(QUICK_FILTERS.overdue)}
+              />
             </Stack>
           )}
 
-          {/* Task Table */}
           {!loading && !error && (
+            <Collapse in={builderOpen} unmountOnExit>
+              {parsed.query ? (
+                <QueryBuilder value={parsed.query} onChange={handleBuilderChange} />
+              ) : (
+                <Alert severity="info">Fix the query text above to edit it visually.</Alert>
+              )}
+            </Collapse>
+          )}
+
+          {/* Task Table / Board */}
+          {!loading && !error && view.mode === 'board' && (
+            <TaskBoard tasks={filtered} onMove={handleMove} onUpdate={updateTask} />
+          )}
+          {!loading && !error && view.mode === 'calendar' && (
+            <TaskCalendar tasks={filtered} onReschedule={handleReschedule} onUpdate={updateTask} />
+          )}
+          {!loading && !error && view.mode === 'table' && (
             <TaskTable
               tasks={filtered}
-              onAdd={handleAdd}
-              onUpdate={handleUpdate}
-              onDelete={handleDelete}
+              existingTitles={allTitles}
+              onAdd={addTask}
+              onUpdate={updateTask}
+              onDelete={deleteTask}
+              sort={sort}
+              onSortChange={next => updateView({ sort: next })}
+              visibleColumns={view.columns}
+              onColumnsChange={columns => updateView({ columns })}
+              onApplyBatch={applyBatch}
+              onExportSelection={handleExportSelection}
             />
           )}
 
           {/* Undo Snackbar */}
           <UndoSnackbar
-            open={!!lastDeleted}
+            open={undoOpen}
+            label={lastAction?.label ?? null}
             onClose={handleCloseUndo}
-            onUndo={handleUndo}
+            onUndo={undo}
           />
 
+          <Snackbar
+            open={!!validationError}
+            autoHideDuration={8000}
+            onClose={clearValidationError}
+            anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+          >
+            <Alert severity="error" onClose={clearValidationError} variant="filled">
+              {validationError}
+            </Alert>
+          </Snackbar>
+
+          <Snackbar open={!!saveError} anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}>
+            <Alert
+              severity="warning"
+              variant="filled"
+              action={
+                <Button color="inherit" size="small" onClick={retrySave}>
+                  Retry
+                </Button>
+              }
+            >
+              {`Changes aren't saved: ${saveError}`}
+            </Alert>
+          </Snackbar>
+
           {!loading && !error && <ChartsDashboard tasks={filtered} />}
           {!loading && !error && <AnalyticsDashboard tasks={filtered} />}
-          {!loading && !error && <ActivityLog items={activity} />}
+          {!loading && !error && (
+            <ActivityLog items={activity} taskIds={taskIds} onOpenTask={openActivityTask} />
+          )}
+
+          <TaskDetailsDialog
+            open={!!activityTaskId}
+            taskId={activityTaskId}
+            onClose={() => setActivityTaskId(null)}
+            onSave={updateTask}
+          />
+
+          <CsvImportDialog
+            open={importOpen}
+            onClose={() => setImportOpen(false)}
+            existing={tasks}
+            onImport={handleImport}
+          />
+
+          <CsvExportDialog
+            open={exportOpen}
+            onClose={() => setExportOpen(false)}
+            filteredTasks={filtered}
+            allTasks={tasks}
+            selectedTasks={exportSelection}
+          />
+
+          <WorkspaceDialog
+            open={workspaceOpen}
+            onClose={() => setWorkspaceOpen(false)}
+            tasks={tasks}
+            activity={activity}
+            user={user}
+            users={users}
+            workflow={workflow}
+            onRestore={handleRestore}
+          />
+
+          <WorkflowDialog open={workflowOpen} onClose={() => setWorkflowOpen(false)} />
+
+          <RecurringTemplatesDialog open={recurringOpen} onClose={() => setRecurringOpen(false)} />
         </Stack>
       </Container>
     </Box>
@@ -229,7 +577,11 @@ export default function App() {
   return (
     <UserProvider>
       <TasksProvider>
-        <AppContent />
+        <TimerProvider>
+          <RecurrenceProvider>
+            <AppContent />
+          </RecurrenceProvider>
+        </TimerProvider>
       </TasksProvider>
     </UserProvider>
   );
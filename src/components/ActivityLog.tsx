@@ -1,34 +1,172 @@
-import { Card, CardContent, List, ListItem, ListItemText, Typography } from '@mui/material';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Pagination,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
 
-export interface ActivityItem {
-  id: string;
-  ts: number;
-  type: 'add' | 'update' | 'delete' | 'undo';
-  summary: string;
-}
+import { ActivityEvent, ActivityType } from '@/types';
+import { useUser, userName } from '@/context/UserContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { formatDateTime } from '@/utils/dates';
+import { fieldName } from '@/utils/history';
+import {
+  ActivityFilter,
+  describeActivity,
+  filterActivity,
+  formatFieldValue,
+} from '@/utils/activity';
 
 interface Props {
-  items: ActivityItem[];
+  items: ActivityEvent[];
+  /** Ids of tasks that still exist; only those are clickable. */
+  taskIds: Set<string>;
+  onOpenTask: (id: string) => void;
 }
 
-export default function ActivityLog({ items }: Props) {
+const PAGE_SIZE = 10;
+const types: ActivityType[] = ['add', 'update', 'delete', 'undo', 'redo', 'restore'];
+
+function ChangeList({ event }: { event: ActivityEvent }) {
+  const { users } = useUser();
+  const { timeZone } = useDateSettings();
+  if (!event.changes?.length) return null;
+  const options = { userName: (id: string) => userName(users, id), timeZone };
+  return (
+    <>
+      {event.changes.map(c => (
+        <Box key={c.field} component="span" display="block">
+          {fieldName(c.field)}: {formatFieldValue(c.field, c.from, options)} → {formatFieldValue(c.field, c.to, options)}
+        </Box>
+      ))}
+    </>
+  );
+}
+
+export default function ActivityLog({ items, taskIds, onOpenTask }: Props) {
+  const [filter, setFilter] = useState<ActivityFilter>({});
+  const { timeZone } = useDateSettings();
+  const [page, setPage] = useState(1);
+
+  const taskOptions = useMemo(() => {
+    const map = new Map<string, string>();
+    items.forEach(e => {
+      if (e.taskId && !map.has(e.taskId)) map.set(e.taskId, e.taskTitle ?? e.taskId);
+    });
+    return Array.from(map, ([id, title]) => ({ id, title })).sort((a, b) =>
+      a.title.localeCompare(b.title),
+    );
+  }, [items]);
+
+  const filtered = useMemo(() => filterActivity(items, filter, timeZone), [items, filter, timeZone]);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const visible = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(1);
+  }, [filter]);
+
+  const update = (patch: Partial<ActivityFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
   return (
     <Card>
       <CardContent>
         <Typography variant="h6" fontWeight={700} gutterBottom>Activity</Typography>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} mb={2}>
+          <TextField
+            select
+            size="small"
+            label="Task"
+            value={filter.taskId ?? ''}
+            onChange={e => update({ taskId: e.target.value || undefined })}
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value="">All tasks</MenuItem>
+            {taskOptions.map(o => (
+              <MenuItem key={o.id} value={o.id}>{o.title}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Type"
+            value={filter.type ?? ''}
+            onChange={e => update({ type: (e.target.value || undefined) as ActivityType | undefined })}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">All types</MenuItem>
+            {types.map(t => (
+              <MenuItem key={t} value={t}>{t}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            type="date"
+            label="From"
+            value={filter.from ?? ''}
+            onChange={e => update({ from: e.target.value || undefined })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="To"
+            value={filter.to ?? ''}
+            onChange={e => update({ to: e.target.value || undefined })}
+            InputLabelProps={{ shrink: true }}
+          />
+        </Stack>
         <List dense>
-          {items.length === 0 && (
+          {visible.length === 0 && (
             <ListItem><ListItemText primary="No recent activity" /></ListItem>
           )}
-          {items.map(a => (
-            <ListItem key={a.id} divider>
-              <ListItemText primary={a.summary} secondary={new Date(a.ts).toLocaleString()} />
-            </ListItem>
-          ))}
+          {visible.map(a => {
+            const text = (
+              <ListItemText
+                primary={
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <span>{describeActivity(a)}</span>
+                    {a.label && a.type !== 'undo' && a.type !== 'redo' && a.type !== 'restore' && (
+                      <Chip size="small" variant="outlined" label={a.label} />
+                    )}
+                  </Stack>
+                }
+                secondary={
+                  <>
+                    <ChangeList event={a} />
+                    {`${a.actor.name} • ${formatDateTime(a.ts, timeZone)}`}
+                  </>
+                }
+              />
+            );
+            const clickable = !!a.taskId && taskIds.has(a.taskId);
+            return (
+              <ListItem key={a.id} divider disablePadding={clickable}>
+                {clickable ? (
+                  <ListItemButton onClick={() => onOpenTask(a.taskId!)}>{text}</ListItemButton>
+                ) : (
+                  text
+                )}
+              </ListItem>
+            );
+          })}
         </List>
+        {pageCount > 1 && (
+          <Stack alignItems="center" mt={2}>
+            <Pagination count={pageCount} page={page} onChange={(_, p) => setPage(p)} size="small" />
+          </Stack>
+        )}
       </CardContent>
     </Card>
   );
 }
-
-
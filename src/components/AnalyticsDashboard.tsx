@@ -1,8 +1,19 @@
-import { Box, Card, CardContent, Stack, Typography } from '@mui/material';
+import { memo, useMemo, useState } from 'react';
+import { Box, Card, CardContent, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
 import { BarChart, LineChart, PieChart } from '@mui/x-charts';
 import { DerivedTask, Task } from '@/types';
+import { useUser, userName } from '@/context/UserContext';
+import { useTasksContext } from '@/context/TasksContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { formatDay } from '@/utils/dates';
 import {
+  CycleStart,
+  computeAssigneeBreakdown,
+  computeCompletionCounts,
+  computeCumulativeFlow,
   computeFunnel,
+  computeReopenRate,
+  computeTimeInStage,
   computeThroughputByWeek,
   computeWeightedPipeline,
   computeForecast,
@@ -13,13 +24,27 @@ interface Props {
   tasks: DerivedTask[];
 }
 
-export default function AnalyticsDashboard({ tasks }: Props) {
-  const baseTasks = tasks as unknown as Task[];
-  const funnel = computeFunnel(baseTasks);
-  const weekly = computeThroughputByWeek(baseTasks);
-  const weightedPipeline = computeWeightedPipeline(baseTasks);
-  const forecast = computeForecast(weekly.map(w => ({ week: w.week, revenue: w.revenue })), 4);
-  const velocity = computeVelocityByPriority(baseTasks);
+function AnalyticsDashboard({ tasks }: Props) {
+  const { users } = useUser();
+  const settings = useDateSettings();
+  const { workflow } = useTasksContext();
+  const [cycleStart, setCycleStart] = useState<CycleStart>('started');
+  const { funnel, weekly, weightedPipeline, forecast, velocity, byAssignee, timeInStage, reopens, flow, completions } = useMemo(() => {
+    const baseTasks = tasks as unknown as Task[];
+    const weekly = computeThroughputByWeek(baseTasks, settings, workflow);
+    return {
+      funnel: computeFunnel(baseTasks, workflow),
+      weekly,
+      weightedPipeline: computeWeightedPipeline(baseTasks, workflow),
+      forecast: computeForecast(weekly.map(w => ({ week: w.week, revenue: w.revenue })), 4),
+      velocity: computeVelocityByPriority(baseTasks, settings.timeZone, cycleStart, workflow),
+      byAssignee: computeAssigneeBreakdown(baseTasks, workflow),
+      timeInStage: computeTimeInStage(baseTasks, workflow),
+      reopens: computeReopenRate(baseTasks, workflow),
+      flow: computeCumulativeFlow(baseTasks, workflow, settings.timeZone),
+      completions: computeCompletionCounts(baseTasks, workflow),
+    };
+  }, [tasks, settings, workflow, cycleStart]);
 
   return (
     <Card>
@@ -30,17 +55,54 @@ export default function AnalyticsDashboard({ tasks }: Props) {
             <Typography variant="body2" color="text.secondary">Funnel</Typography>
             <BarChart
               height={240}
-              xAxis={[{ scaleType: 'band', data: ['Todo', 'In Progress', 'Done'] }]}
-              series={[{ data: [funnel.todo, funnel.inProgress, funnel.done], color: '#4F6BED' }]}
+              xAxis={[{ scaleType: 'band', data: funnel.map(f => f.stage) }]}
+              series={[
+                { data: funnel.map(f => f.count), label: 'In stage', color: '#4F6BED' },
+                { data: funnel.map(f => f.reached), label: 'Reached', color: '#B4C0F5' },
+              ]}
             />
           </Box>
           <Box>
-            <Typography variant="body2" color="text.secondary">Throughput (weekly completed)</Typography>
+            <Typography variant="body2" color="text.secondary">Cumulative flow (tasks per stage, last 30 days)</Typography>
+            <LineChart
+              height={260}
+              xAxis={[{ scaleType: 'point', data: flow.map(d => formatDay(d.day, { month: 'short', day: 'numeric' })) }]}
+              series={[...workflow.stages].reverse().map(s => ({
+                data: flow.map(d => d.counts[s.name]),
+                label: s.name,
+                area: true,
+                stack: 'flow',
+                showMark: false,
+              }))}
+            />
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">Time in stage (days)</Typography>
+            <BarChart
+              height={240}
+              xAxis={[{ scaleType: 'band', data: timeInStage.map(s => s.stage) }]}
+              series={[
+                { data: timeInStage.map(s => Number(s.avgDays.toFixed(1))), label: 'Average', color: '#8B5CF6' },
+                { data: timeInStage.map(s => Number(s.medianDays.toFixed(1))), label: 'Median', color: '#C4B5FD' },
+              ]}
+            />
+            <Typography variant="body2" color="text.secondary">
+              Reopen rate:{' '}
+              {reopens.ratePct === null
+                ? 'no closed tasks yet'
+                : `${reopens.ratePct.toFixed(1)}% (${reopens.reopened} of ${reopens.closed} closed tasks reopened)`}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">Throughput (weekly completed, by week starting)</Typography>
             <LineChart
               height={240}
-              xAxis={[{ scaleType: 'band', data: weekly.map(w => w.week) }]}
+              xAxis={[{ scaleType: 'band', data: weekly.map(w => formatDay(w.week, { month: 'short', day: 'numeric' })) }]}
               series={[{ data: weekly.map(w => w.count), color: '#22A699' }]}
             />
+            <Typography variant="body2" color="text.secondary">
+              Completed now: {completions.current} • Completed at least once: {completions.everCompleted}
+            </Typography>
           </Box>
           <Box>
             <Typography variant="body2" color="text.secondary">Weighted Pipeline</Typography>
@@ -57,17 +119,46 @@ export default function AnalyticsDashboard({ tasks }: Props) {
             />
           </Box>
           <Box>
-            <Typography variant="body2" color="text.secondary">Velocity by Priority (avg days)</Typography>
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+              <Typography variant="body2" color="text.secondary">Velocity by Priority (avg days)</Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={cycleStart}
+                onChange={(_, v: CycleStart | null) => v && setCycleStart(v)}
+                aria-label="Measure cycle time from"
+              >
+                <ToggleButton value="started">From start</ToggleButton>
+                <ToggleButton value="created">From creation</ToggleButton>
+              </ToggleButtonGroup>
+            </Stack>
             <BarChart
               height={240}
               xAxis={[{ scaleType: 'band', data: ['High', 'Medium', 'Low'] }]}
               series={[{ data: [velocity.High.avgDays, velocity.Medium.avgDays, velocity.Low.avgDays], color: '#8B5CF6' }]}
             />
           </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">Revenue by Assignee (Done)</Typography>
+            <BarChart
+              height={240}
+              xAxis={[{ scaleType: 'band', data: byAssignee.map(a => userName(users, a.assigneeId)) }]}
+              series={[{ data: byAssignee.map(a => a.revenue), color: '#4F6BED' }]}
+            />
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">Completion by Assignee (%)</Typography>
+            <BarChart
+              height={240}
+              xAxis={[{ scaleType: 'band', data: byAssignee.map(a => userName(users, a.assigneeId)) }]}
+              yAxis={[{ min: 0, max: 100 }]}
+              series={[{ data: byAssignee.map(a => Number(a.completionPct.toFixed(1))), color: '#22A699' }]}
+            />
+          </Box>
         </Stack>
       </CardContent>
     </Card>
   );
 }
 
-
+export default memo(AnalyticsDashboard);
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Menu,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DownloadIcon from '@mui/icons-material/Download';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+
+import { Priority, Status } from '@/types';
+
+interface Props {
+  count: number;
+  /** Tasks matching the current filter. */
+  total: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  /** Stages offered by "Set status". */
+  statuses: Status[];
+  onStatus: (status: Status) => void;
+  onPriority: (priority: Priority) => void;
+  onAppendNote: (text: string) => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const priorities: Priority[] = ['High', 'Medium', 'Low'];
+
+export default function BulkActionsBar({
+  count,
+  total,
+  onSelectAll,
+  onClear,
+  statuses,
+  onStatus,
+  onPriority,
+  onAppendNote,
+  onExport,
+  onDelete,
+}: Props) {
+  const [statusAnchor, setStatusAnchor] = useState<HTMLElement | null>(null);
+  const [priorityAnchor, setPriorityAnchor] = useState<HTMLElement | null>(null);
+  const [noteOpen, setNoteOpen] = useState(false);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (noteOpen) setNote('');
+  }, [noteOpen]);
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={theme => ({ p: 1, mb: 2, bgcolor: alpha(theme.palette.primary.main, 0.06) })}
+      role="toolbar"
+      aria-label="Bulk actions"
+    >
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+        <Typography variant="body2" fontWeight={600} px={1}>
+          {count} selected
+        </Typography>
+        {count < total && (
+          <Button size="small" onClick={onSelectAll}>
+            Select all {total} matching
+          </Button>
+        )}
+        <Button size="small" onClick={onClear}>
+          Clear
+        </Button>
+
+        <Stack direction="row" spacing={1} ml="auto" flexWrap="wrap" useFlexGap>
+          <Button size="small" variant="outlined" onClick={e => setStatusAnchor(e.currentTarget)}>
+            Status
+          </Button>
+          <Button size="small" variant="outlined" onClick={e => setPriorityAnchor(e.currentTarget)}>
+            Priority
+          </Button>
+          <Button size="small" variant="outlined" startIcon={<NoteAddIcon />} onClick={() => setNoteOpen(true)}>
+            Append note
+          </Button>
+          <Button size="small" variant="outlined" startIcon={<DownloadIcon />} onClick={onExport}>
+            Export
+          </Button>
+          <Button size="small" variant="outlined" color="error" startIcon={<DeleteIcon />} onClick={onDelete}>
+            Delete
+          </Button>
+        </Stack>
+      </Stack>
+
+      <Menu anchorEl={statusAnchor} open={!!statusAnchor} onClose={() => setStatusAnchor(null)}>
+        {statuses.map(s => (
+          <MenuItem
+            key={s}
+            onClick={() => {
+              setStatusAnchor(null);
+              onStatus(s);
+            }}
+          >
+            {s}
+          </MenuItem>
+        ))}
+      </Menu>
+      <Menu anchorEl={priorityAnchor} open={!!priorityAnchor} onClose={() => setPriorityAnchor(null)}>
+        {priorities.map(p => (
+          <MenuItem
+            key={p}
+            onClick={() => {
+              setPriorityAnchor(null);
+              onPriority(p);
+            }}
+          >
+            {p}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Dialog open={noteOpen} onClose={() => setNoteOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Append note to {count} tasks</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Note"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            multiline
+            minRows={3}
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNoteOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={!note.trim()}
+            onClick={() => {
+              onAppendNote(note.trim());
+              setNoteOpen(false);
+            }}
+          >
+            Append
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
@@ -1,19 +1,22 @@
+import { memo, useMemo } from 'react';
 import { Box, Card, CardContent, Typography } from '@mui/material';
 import { BarChart, PieChart } from '@mui/x-charts';
-import { DerivedTask } from '@/types';
+import { DerivedTask, Status } from '@/types';
+import { useTasksContext } from '@/context/TasksContext';
+import { stageNames } from '@/utils/workflow';
 
 interface Props {
   tasks: DerivedTask[];
 }
 
-export default function ChartsDashboard({ tasks }: Props) {
+function computeInsights(tasks: DerivedTask[], stages: Status[]) {
   const revenueByPriority = ['High', 'Medium', 'Low'].map(p => ({
     priority: p,
     revenue: tasks.filter(t => t.priority === (p as any)).reduce((s, t) => s + t.revenue, 0),
   }));
-  const revenueByStatus = ['Todo', 'In Progress', 'Done'].map(s => ({
+  const revenueByStatus = stages.map(s => ({
     status: s,
-    revenue: tasks.filter(t => t.status === (s as any)).reduce((s2, t) => s2 + t.revenue, 0),
+    revenue: tasks.filter(t => t.status === s).reduce((s2, t) => s2 + t.revenue, 0),
   }));
   // Injected bug: assume numeric ROI across the board; mis-bucket null/NaN
   const roiBuckets = [
@@ -22,6 +25,15 @@ export default function ChartsDashboard({ tasks }: Props) {
     { label: '>500', count: tasks.filter(t => (t.roi as number) > 500).length },
     { label: 'N/A', count: tasks.filter(t => (t.roi as number) < 0).length },
   ];
+  return { revenueByPriority, revenueByStatus, roiBuckets };
+}
+
+function ChartsDashboard({ tasks }: Props) {
+  const { workflow } = useTasksContext();
+  const { revenueByPriority, revenueByStatus, roiBuckets } = useMemo(
+    () => computeInsights(tasks, stageNames(workflow)),
+    [tasks, workflow],
+  );
 
   return (
     <Card>
@@ -68,4 +80,4 @@ export default function ChartsDashboard({ tasks }: Props) {
   );
 }
 
-
+export default memo(ChartsDashboard);
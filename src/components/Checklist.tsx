@@ -0,0 +1,163 @@
+import { KeyboardEvent, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  IconButton,
+  LinearProgress,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+
+import { Subtask, Task } from '@/types';
+import { useTasksContext } from '@/context/TasksContext';
+import { checklistProgress, estimateHours, newSubtask } from '@/utils/subtasks';
+
+interface Props {
+  task: Task;
+}
+
+const parseHours = (raw: string) => (raw.trim() === '' ? undefined : Number(raw));
+const validHours = (hours: number | undefined) => hours === undefined || (Number.isFinite(hours) && hours > 0);
+
+function ItemRow({
+  item,
+  onCommit,
+  onDelete,
+}: {
+  item: Subtask;
+  onCommit: (item: Subtask) => void;
+  onDelete: () => void;
+}) {
+  const [title, setTitle] = useState(item.title);
+  const [estimate, setEstimate] = useState(item.estimate === undefined ? '' : String(item.estimate));
+
+  useEffect(() => {
+    setTitle(item.title);
+    setEstimate(item.estimate === undefined ? '' : String(item.estimate));
+  }, [item.title, item.estimate]);
+
+  const hours = parseHours(estimate);
+  // Text edits are saved on blur so typing doesn't add an undo step per key.
+  const commit = () => {
+    const next = title.trim();
+    if (!next || !validHours(hours)) {
+      setTitle(item.title);
+      setEstimate(item.estimate === undefined ? '' : String(item.estimate));
+      return;
+    }
+    if (next === item.title && hours === item.estimate) return;
+    const { estimate: _estimate, ...rest } = item;
+    onCommit({ ...rest, title: next, ...(hours === undefined ? {} : { estimate: hours }) });
+  };
+  const blurOnEnter = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+  };
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="center">
+      <Checkbox
+        size="small"
+        checked={item.done}
+        onChange={e => onCommit({ ...item, done: e.target.checked })}
+        inputProps={{ 'aria-label': `Done: ${item.title}` }}
+      />
+      <TextField
+        variant="standard"
+        size="small"
+        value={title}
+        onChange={e => setTitle(e.target.value)}
+        onBlur={commit}
+        onKeyDown={blurOnEnter}
+        inputProps={{ 'aria-label': 'Item title' }}
+        sx={item.done ? { '& input': { textDecoration: 'line-through', color: 'text.secondary' } } : undefined}
+        fullWidth
+      />
+      <TextField
+        variant="standard"
+        size="small"
+        type="number"
+        placeholder="Est."
+        value={estimate}
+        onChange={e => setEstimate(e.target.value)}
+        onBlur={commit}
+        onKeyDown={blurOnEnter}
+        error={!validHours(hours)}
+        InputProps={{ endAdornment: 'h' }}
+        inputProps={{ min: 0, step: 0.25, 'aria-label': 'Estimate (hours)' }}
+        sx={{ width: 80, flexShrink: 0 }}
+      />
+      <Tooltip title="Delete item">
+        <IconButton size="small" onClick={onDelete} aria-label="Delete item">
+          <DeleteOutlineIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Stack>
+  );
+}
+
+/** Checklist items on a task, with their estimates. Edits apply immediately. */
+export default function Checklist({ task }: Props) {
+  const { updateTask, workflow } = useTasksContext();
+  const [draft, setDraft] = useState('');
+  const items = task.subtasks ?? [];
+  const { done, total, pct } = checklistProgress(items);
+  const estimated = estimateHours(items);
+  const wonStage = workflow.stages.find(s => s.outcome === 'won')?.name;
+
+  const setItems = (next: Subtask[]) => updateTask(task.id, { subtasks: next.length ? next : undefined });
+
+  const add = () => {
+    if (!draft.trim()) return;
+    setItems([...items, newSubtask(draft)]);
+    setDraft('');
+  };
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <Typography variant="subtitle2">Checklist</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {total ? `${done} of ${total} done${estimated === undefined ? '' : ` • ${estimated}h estimated`}` : 'No items'}
+        </Typography>
+        <Box flex={1} />
+        {workflow.completeOnChecklist && wonStage && total > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            Moves to {wonStage} when complete
+          </Typography>
+        )}
+      </Stack>
+      {total > 0 && <LinearProgress variant="determinate" value={pct} sx={{ height: 6, borderRadius: 3 }} />}
+
+      {items.map(item => (
+        <ItemRow
+          key={item.id}
+          item={item}
+          onCommit={next => setItems(items.map(x => (x.id === item.id ? next : x)))}
+          onDelete={() => setItems(items.filter(x => x.id !== item.id))}
+        />
+      ))}
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          size="small"
+          placeholder="Add an item"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') add();
+          }}
+          inputProps={{ 'aria-label': 'New checklist item' }}
+          fullWidth
+        />
+        <Button size="small" startIcon={<AddIcon />} onClick={add} disabled={!draft.trim()}>
+          Add
+        </Button>
+      </Stack>
+    </Stack>
+  );
+}
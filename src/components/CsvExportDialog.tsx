@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Stack,
+} from '@mui/material';
+
+import { Task } from '@/types';
+import {
+  CSV_COLUMNS,
+  CsvColumn,
+  CsvColumnKey,
+  DEFAULT_CSV_COLUMNS,
+  ROUND_TRIP_COLUMNS,
+  downloadCSV,
+  toCSV,
+} from '@/utils/csv';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  filteredTasks: Task[];
+  allTasks: Task[];
+  /** Rows picked in the table; offered (and preselected) when non-empty. */
+  selectedTasks?: Task[];
+}
+
+type Scope = 'selected' | 'filtered' | 'all';
+
+const groups: Array<{ id: CsvColumn['group']; label: string }> = [
+  { id: 'core', label: 'Task fields' },
+  { id: 'timestamps', label: 'Timestamps' },
+  { id: 'derived', label: 'Derived' },
+];
+
+export default function CsvExportDialog({ open, onClose, filteredTasks, allTasks, selectedTasks = [] }: Props) {
+  const [scope, setScope] = useState<Scope>('filtered');
+  const [columns, setColumns] = useState<CsvColumnKey[]>(DEFAULT_CSV_COLUMNS);
+
+  useEffect(() => {
+    if (!open) return;
+    setScope(selectedTasks.length ? 'selected' : 'filtered');
+    setColumns(DEFAULT_CSV_COLUMNS);
+  }, [open]);
+
+  const toggle = (key: CsvColumnKey) =>
+    setColumns(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  const rows = scope === 'all' ? allTasks : scope === 'selected' ? selectedTasks : filteredTasks;
+  const lossy = ROUND_TRIP_COLUMNS.some(k => !columns.includes(k));
+
+  const handleExport = () => {
+    downloadCSV('tasks.csv', toCSV(rows, columns));
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Export CSV</DialogTitle>
+      <DialogContent>
+        <Stack spacing={3} mt={1}>
+          <FormControl>
+            <FormLabel>Rows</FormLabel>
+            <RadioGroup
+              row
+              value={scope}
+              onChange={e => setScope(e.target.value as Scope)}
+            >
+              {selectedTasks.length > 0 && (
+                <FormControlLabel
+                  value="selected"
+                  control={<Radio />}
+                  label={`Selection (${selectedTasks.length})`}
+                />
+              )}
+              <FormControlLabel
+                value="filtered"
+                control={<Radio />}
+                label={`Filtered view (${filteredTasks.length})`}
+              />
+              <FormControlLabel value="all" control={<Radio />} label={`All tasks (${allTasks.length})`} />
+            </RadioGroup>
+          </FormControl>
+
+          <Box
+            sx={{
+              display: 'grid',
+              gap: 2,
+              gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+            }}
+          >
+            {groups.map(g => (
+              <FormControl key={g.id} component="fieldset">
+                <FormLabel component="legend">{g.label}</FormLabel>
+                <FormGroup>
+                  {CSV_COLUMNS.filter(c => c.group === g.id).map(c => (
+                    <FormControlLabel
+                      key={c.key}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={columns.includes(c.key)}
+                          onChange={() => toggle(c.key)}
+                        />
+                      }
+                      label={c.label}
+                    />
+                  ))}
+                </FormGroup>
+              </FormControl>
+            ))}
+          </Box>
+
+          {lossy && (
+            <Alert severity="info">
+              Include all task fields and timestamps to be able to re-import this file without losing data.
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleExport} disabled={!columns.length || !rows.length}>
+          Download
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
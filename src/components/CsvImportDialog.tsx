@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+
+import { Task } from '@/types';
+import { useTasksContext } from '@/context/TasksContext';
+import { fromCSV, readFileAsText } from '@/utils/csv';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportPlan,
+  MergeStrategy,
+  guessMapping,
+  planImport,
+  validateImportRows,
+} from '@/utils/csvImport';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  existing: Task[];
+  onImport: (plan: ImportPlan) => void;
+}
+
+export default function CsvImportDialog({ open, onClose, existing, onImport }: Props) {
+  const { workflow } = useTasksContext();
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [strategy, setStrategy] = useState<MergeStrategy>('skip');
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setStrategy('skip');
+    setParseError(null);
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setParseError(null);
+    try {
+      const [head, ...body] = fromCSV(await readFileAsText(file));
+      if (!head) throw new Error('The file is empty');
+      setHeaders(head);
+      setRows(body);
+      setMapping(guessMapping(head));
+    } catch (e: unknown) {
+      setHeaders([]);
+      setRows([]);
+      setMapping(null);
+      setParseError(e instanceof Error ? e.message : 'Could not parse CSV');
+    }
+  };
+
+  const results = useMemo(
+    () => (mapping ? validateImportRows(rows, mapping, existing, workflow) : []),
+    [rows, mapping, existing, workflow],
+  );
+
+  const plan = useMemo(
+    () => planImport(results, strategy, existing, workflow),
+    [results, strategy, existing, workflow],
+  );
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] == null && mapping.id == null)
+    : [];
+  const actionable = plan.toAdd.length + plan.toUpdate.length;
+
+  const handleImport = () => {
+    onImport(plan);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Import CSV</DialogTitle>
+      <DialogContent>
+        <Stack spacing={3} mt={1}>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Button component="label" variant="outlined" startIcon={<UploadFileIcon />}>
+              Choose file
+              <input
+                hidden
+                type="file"
+                accept=".csv,text/csv"
+                onChange={e => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+              {fileName ? `${fileName} • ${rows.length} rows` : 'No file selected'}
+            </Typography>
+          </Stack>
+
+          {parseError && <Alert severity="error">{parseError}</Alert>}
+
+          {mapping && (
+            <Box>
+              <Typography fontWeight={700} gutterBottom>Column mapping</Typography>
+              <Box
+                sx={{
+                  display: 'grid',
+                  gap: 2,
+                  gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+                }}
+              >
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <FormControl key={field} size="small" required={required}>
+                    <InputLabel>{label}</InputLabel>
+                    <Select
+                      label={label}
+                      value={mapping[field] ?? ''}
+                      onChange={e =>
+                        setMapping({
+                          ...mapping,
+                          [field]: e.target.value === '' ? null : Number(e.target.value),
+                        })
+                      }
+                    >
+                      <MenuItem value="">
+                        <em>Not mapped</em>
+                      </MenuItem>
+                      {headers.map((h, i) => (
+                        <MenuItem key={i} value={i}>
+                          {h || `Column ${i + 1}`}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                ))}
+              </Box>
+              {missingRequired.length > 0 && (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  Unmapped required fields: {missingRequired.map(f => f.label).join(', ')}
+                </Alert>
+              )}
+            </Box>
+          )}
+
+          {mapping && (
+            <FormControl>
+              <FormLabel>Rows matching an existing task id</FormLabel>
+              <RadioGroup
+                row
+                value={strategy}
+                onChange={e => setStrategy(e.target.value as MergeStrategy)}
+              >
+                <FormControlLabel value="skip" control={<Radio />} label="Skip" />
+                <FormControlLabel value="overwrite" control={<Radio />} label="Overwrite" />
+                <FormControlLabel value="merge" control={<Radio />} label="Merge" />
+              </RadioGroup>
+            </FormControl>
+          )}
+
+          {results.length > 0 && (
+            <Box>
+              <Stack direction="row" spacing={1} mb={1}>
+                <Chip size="small" color="success" label={`${plan.toAdd.length} new`} />
+                <Chip size="small" color="primary" label={`${plan.toUpdate.length} updated`} />
+                <Chip size="small" label={`${plan.skipped} skipped`} />
+                <Chip size="small" color="error" label={`${plan.invalid} invalid`} />
+              </Stack>
+              <TableContainer sx={{ maxHeight: 280 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Row</TableCell>
+                      <TableCell>Title</TableCell>
+                      <TableCell>Result</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {results.map(r => (
+                      <TableRow key={r.rowNumber}>
+                        <TableCell>{r.rowNumber}</TableCell>
+                        <TableCell>{r.values.title ?? '—'}</TableCell>
+                        <TableCell>
+                          {r.errors.length ? (
+                            <Typography variant="body2" color="error">
+                              {r.errors.join('; ')}
+                            </Typography>
+                          ) : r.existingId ? (
+                            `Matches ${r.existingId}`
+                          ) : (
+                            'OK'
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleImport} disabled={!actionable}>
+          Import {actionable || ''} {actionable === 1 ? 'task' : 'tasks'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+import { useUser } from '@/context/UserContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { WeekStart, formatDateTime, isValidTimeZone, listTimeZones } from '@/utils/dates';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function DateSettingsDialog({ open, onClose }: Props) {
+  const { user, setDateSettings } = useUser();
+  const settings = useDateSettings();
+  const zones = useMemo(() => listTimeZones(), []);
+  const [timeZone, setTimeZone] = useState(settings.timeZone);
+  const [weekStart, setWeekStart] = useState<WeekStart>(settings.weekStart);
+
+  useEffect(() => {
+    if (open) {
+      setTimeZone(settings.timeZone);
+      setWeekStart(settings.weekStart);
+    }
+  }, [open, settings]);
+
+  const valid = isValidTimeZone(timeZone);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Date &amp; time</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} mt={1}>
+          <Autocomplete
+            freeSolo
+            options={zones}
+            value={timeZone}
+            onInputChange={(_, next) => setTimeZone(next)}
+            renderInput={params => (
+              <TextField
+                {...params}
+                label="Timezone"
+                error={!valid}
+                helperText={valid ? `Now: ${formatDateTime(new Date().toISOString(), timeZone)}` : 'Unknown timezone'}
+              />
+            )}
+          />
+          <TextField
+            select
+            label="Week starts on"
+            value={weekStart}
+            onChange={e => setWeekStart(Number(e.target.value) as WeekStart)}
+          >
+            <MenuItem value={1}>Monday</MenuItem>
+            <MenuItem value={0}>Sunday</MenuItem>
+          </TextField>
+          <Typography variant="caption" color="text.secondary">
+            Used for due dates, weekly and monthly analytics, quota months and cycle times.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!valid}
+          onClick={() => {
+            setDateSettings(user.id, { timeZone, weekStart });
+            onClose();
+          }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { Chip } from '@mui/material';
+
+import { Task } from '@/types';
+import { dueState } from '@/utils/dueDates';
+import { todayKey } from '@/utils/dates';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { useTasksContext } from '@/context/TasksContext';
+
+interface Props {
+  task: Pick<Task, 'dueDate' | 'status'>;
+  today?: string;
+}
+
+export default function DueBadge({ task, today }: Props) {
+  const { timeZone } = useDateSettings();
+  const { workflow } = useTasksContext();
+  const state = dueState(task, today ?? todayKey(timeZone), workflow);
+  if (!state) return null;
+  return state === 'overdue' ? (
+    <Chip size="small" color="error" label="Overdue" />
+  ) : (
+    <Chip size="small" color="warning" variant="outlined" label="Due soon" />
+  );
+}
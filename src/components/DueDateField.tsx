@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+
+interface Props {
+  /** Calendar day (YYYY-MM-DD) or undefined when unset. */
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  error?: string;
+  fullWidth?: boolean;
+  label?: string;
+}
+
+export default function DueDateField({ value, onChange, error, fullWidth, label = 'Due date' }: Props) {
+  // Partially typed dates aren't reported upstream; flag them here instead.
+  const [invalid, setInvalid] = useState(false);
+  const message = error ?? (invalid ? 'Enter a valid date' : undefined);
+
+  return (
+    <DatePicker
+      label={label}
+      value={value ? dayjs(value) : null}
+      onChange={d => onChange(d && d.isValid() ? d.format('YYYY-MM-DD') : undefined)}
+      onError={reason => setInvalid(!!reason)}
+      slotProps={{
+        field: { clearable: true },
+        textField: { error: !!message, helperText: message, fullWidth },
+      }}
+    />
+  );
+}
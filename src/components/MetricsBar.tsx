@@ -1,6 +1,27 @@
-import { Box, Card, CardContent, Stack, Tooltip, Typography } from '@mui/material';
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Collapse,
+  LinearProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import { useTasksContext } from '@/context/TasksContext';
-import { Metrics } from '@/types';
+import { useUser, userName } from '@/context/UserContext';
+import { Metrics, Task } from '@/types';
+import { computeAssigneeBreakdown } from '@/utils/logic';
+import UserAvatar from './UserAvatar';
 
 function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
   const content = (
@@ -12,10 +33,55 @@ function Stat({ label, value, hint }: { label: string; value: string; hint?: str
   return hint ? <Tooltip title={hint}>{content}</Tooltip> : content;
 }
 
-export default function MetricsBar({ metricsOverride }: { metricsOverride?: Metrics }) {
+function AssigneeBreakdown({ tasks }: { tasks: ReadonlyArray<Task> }) {
+  const { users } = useUser();
+  const { workflow } = useTasksContext();
+  const rows = useMemo(() => computeAssigneeBreakdown(tasks, workflow), [tasks, workflow]);
+  return (
+    <Table size="small" sx={{ mt: 1 }}>
+      <TableHead>
+        <TableRow>
+          <TableCell>Assignee</TableCell>
+          <TableCell align="right">Revenue</TableCell>
+          <TableCell align="right">Done</TableCell>
+          <TableCell sx={{ width: '30%' }}>Completion</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {rows.map(r => (
+          <TableRow key={r.assigneeId ?? 'unassigned'}>
+            <TableCell>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <UserAvatar userId={r.assigneeId} size={24} />
+                <span>{userName(users, r.assigneeId)}</span>
+              </Stack>
+            </TableCell>
+            <TableCell align="right">${r.revenue.toLocaleString()}</TableCell>
+            <TableCell align="right">{r.done} / {r.total}</TableCell>
+            <TableCell>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <LinearProgress variant="determinate" value={r.completionPct} sx={{ flex: 1, height: 6, borderRadius: 3 }} />
+                <Typography variant="caption" sx={{ minWidth: 36 }}>{r.completionPct.toFixed(0)}%</Typography>
+              </Stack>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface Props {
+  metricsOverride?: Metrics;
+  /** Tasks behind the metrics; enables the per-assignee breakdown. */
+  tasks?: ReadonlyArray<Task>;
+}
+
+export default function MetricsBar({ metricsOverride, tasks }: Props) {
   const { metrics } = useTasksContext();
+  const [showBreakdown, setShowBreakdown] = useState(false);
   const m = metricsOverride ?? metrics;
-  const { totalRevenue, timeEfficiencyPct, revenuePerHour, averageROI, performanceGrade, totalTimeTaken } = m;
+  const { totalRevenue, timeEfficiencyPct, revenuePerHour, averageROI, performanceGrade, totalTimeTaken, onTimeCompletionPct } = m;
   return (
     <Card>
       <CardContent>
@@ -25,20 +91,38 @@ export default function MetricsBar({ metricsOverride }: { metricsOverride?: Metr
             gap: 2,
             gridTemplateColumns: {
               xs: '1fr',
-              sm: 'repeat(2, 1fr)',
-              md: 'repeat(5, 1fr)',
+              sm: 'repeat(3, 1fr)',
+              md: 'repeat(6, 1fr)',
             },
           }}
         >
-          <Stat label="Total Revenue" value={`$${totalRevenue.toLocaleString()}`} hint="Sum of revenue for Done tasks" />
-          <Stat label="Time Efficiency" value={`${timeEfficiencyPct.toFixed(0)}%`} hint="(Done / All) * 100" />
+          <Stat label="Total Revenue" value={`$${totalRevenue.toLocaleString()}`} hint="Sum of revenue for tasks in a won stage" />
+          <Stat label="Time Efficiency" value={`${timeEfficiencyPct.toFixed(0)}%`} hint="(Closed / All) * 100" />
           <Stat label="Revenue / Hour" value={`$${(Number.isFinite(revenuePerHour) ? revenuePerHour : 0).toFixed(1)}`} hint="Total revenue divided by total time" />
           <Stat label="Average ROI" value={`${averageROI.toFixed(1)}`} hint="Mean of valid ROI values" />
+          <Stat
+            label="On-time"
+            value={onTimeCompletionPct == null ? '—' : `${onTimeCompletionPct.toFixed(0)}%`}
+            hint="Closed tasks with a due date finished on or before it"
+          />
           <Stat label="Grade" value={`${performanceGrade}`} hint={`Based on Avg ROI (${averageROI.toFixed(1)}) • Total time ${totalTimeTaken}h`} />
         </Box>
+        {tasks && (
+          <>
+            <Button
+              size="small"
+              onClick={() => setShowBreakdown(s => !s)}
+              endIcon={showBreakdown ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+              sx={{ mt: 1 }}
+            >
+              By assignee
+            </Button>
+            <Collapse in={showBreakdown} unmountOnExit>
+              <AssigneeBreakdown tasks={tasks} />
+            </Collapse>
+          </>
+        )}
       </CardContent>
     </Card>
   );
 }
-
-
@@ -0,0 +1,340 @@
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+
+import { PRIORITIES } from '@/utils/validation';
+import { DEFAULT_WORKFLOW, Workflow, stageNames } from '@/utils/workflow';
+import { useTasksContext } from '@/context/TasksContext';
+import { DueState } from '@/utils/dueDates';
+import { useUser } from '@/context/UserContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { todayKey } from '@/utils/dates';
+import {
+  QueryCondition,
+  QueryField,
+  QueryGroup,
+  QueryNode,
+  RangeOp,
+  fieldKind,
+} from '@/utils/query';
+
+interface Props {
+  value: QueryGroup;
+  onChange: (value: QueryGroup) => void;
+}
+
+const MAX_DEPTH = 3;
+
+const fieldLabels: Record<QueryField, string> = {
+  text: 'Any text',
+  title: 'Title',
+  notes: 'Notes',
+  status: 'Status',
+  priority: 'Priority',
+  revenue: 'Revenue',
+  timeTaken: 'Time taken',
+  roi: 'ROI',
+  createdAt: 'Created',
+  completedAt: 'Completed',
+  dueDate: 'Due',
+  is: 'Due status',
+  assignee: 'Assignee',
+};
+
+const flagLabels: Record<DueState, string> = { overdue: 'Overdue', dueSoon: 'Due soon' };
+
+const rangeOps: Array<{ value: RangeOp; label: string }> = [
+  { value: '=', label: '=' },
+  { value: '>', label: '>' },
+  { value: '>=', label: '≥' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '≤' },
+  { value: 'between', label: 'between' },
+];
+
+function defaultCondition(field: QueryField, today = todayKey(), workflow: Workflow = DEFAULT_WORKFLOW): QueryCondition {
+  switch (fieldKind(field)) {
+    case 'text':
+      return { kind: 'text', field: field as 'text', value: '' };
+    case 'enum':
+      return { kind: 'enum', field: field as 'status', values: [field === 'status' ? workflow.stages[0].name : PRIORITIES[0]] };
+    case 'number':
+      return { kind: 'number', field: field as 'revenue', op: '>=', value: 0 };
+    case 'date':
+      return { kind: 'date', field: field as 'createdAt', op: '>=', value: today };
+    case 'flag':
+      return { kind: 'flag', field: 'is', flag: 'overdue' };
+    case 'assignee':
+      return { kind: 'assignee', field: 'assignee', values: ['me'] };
+  }
+}
+
+function ConditionRow({
+  value,
+  onChange,
+  onRemove,
+}: {
+  value: QueryCondition;
+  onChange: (value: QueryCondition) => void;
+  onRemove: () => void;
+}) {
+  const { users } = useUser();
+  const { timeZone } = useDateSettings();
+  const { workflow } = useTasksContext();
+  const fieldSelect = (
+    <TextField
+      select
+      size="small"
+      label="Field"
+      value={value.field}
+      onChange={e => onChange(defaultCondition(e.target.value as QueryField, todayKey(timeZone), workflow))}
+      sx={{ minWidth: 140 }}
+    >
+      {(Object.keys(fieldLabels) as QueryField[]).map(f => (
+        <MenuItem key={f} value={f}>{fieldLabels[f]}</MenuItem>
+      ))}
+    </TextField>
+  );
+
+  let editor: JSX.Element;
+  switch (value.kind) {
+    case 'text':
+      editor = (
+        <TextField
+          size="small"
+          label="Contains"
+          value={value.value}
+          onChange={e => onChange({ ...value, value: e.target.value })}
+          fullWidth
+        />
+      );
+      break;
+    case 'enum': {
+      const options: string[] = value.field === 'status' ? stageNames(workflow) : PRIORITIES;
+      editor = (
+        <TextField
+          select
+          size="small"
+          label="Is any of"
+          value={value.values}
+          SelectProps={{ multiple: true }}
+          onChange={e => {
+            const next = e.target.value as unknown as string[];
+            // An empty list would never match; keep at least one value.
+            if (next.length) onChange({ ...value, values: options.filter(o => next.includes(o)) });
+          }}
+          fullWidth
+        >
+          {options.map(o => (
+            <MenuItem key={o} value={o}>{o}</MenuItem>
+          ))}
+        </TextField>
+      );
+      break;
+    }
+    case 'assignee': {
+      const options = [
+        { value: 'me', label: 'Me' },
+        { value: 'none', label: 'Unassigned' },
+        ...users.map(u => ({ value: u.id, label: u.name })),
+      ];
+      editor = (
+        <TextField
+          select
+          size="small"
+          label="Is any of"
+          value={value.values}
+          SelectProps={{ multiple: true }}
+          onChange={e => {
+            const next = e.target.value as unknown as string[];
+            if (next.length) onChange({ ...value, values: next });
+          }}
+          fullWidth
+        >
+          {options.map(o => (
+            <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>
+          ))}
+          {/* Ids typed into the query that aren't on the roster stay selectable. */}
+          {value.values
+            .filter(v => !options.some(o => o.value === v))
+            .map(v => (
+              <MenuItem key={v} value={v}>{v}</MenuItem>
+            ))}
+        </TextField>
+      );
+      break;
+    }
+    case 'flag':
+      editor = (
+        <TextField
+          select
+          size="small"
+          label="Is"
+          value={value.flag}
+          onChange={e => onChange({ ...value, flag: e.target.value as DueState })}
+          fullWidth
+        >
+          {(Object.keys(flagLabels) as DueState[]).map(f => (
+            <MenuItem key={f} value={f}>{flagLabels[f]}</MenuItem>
+          ))}
+        </TextField>
+      );
+      break;
+    case 'number':
+    case 'date': {
+      const isDate = value.kind === 'date';
+      const input = (v: number | string | undefined, label: string, set: (raw: string) => void) => (
+        <TextField
+          size="small"
+          type={isDate ? 'date' : 'number'}
+          label={label}
+          value={v ?? ''}
+          onChange={e => set(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          fullWidth
+        />
+      );
+      const parse = (raw: string) => (isDate ? raw : Number(raw) || 0);
+      editor = (
+        <Stack direction="row" spacing={1} flex={1}>
+          <TextField
+            select
+            size="small"
+            label="Op"
+            value={value.op}
+            onChange={e => {
+              const op = e.target.value as RangeOp;
+              onChange({ ...value, op, to: op === 'between' ? value.to ?? value.value : undefined } as QueryCondition);
+            }}
+            sx={{ minWidth: 100 }}
+          >
+            {rangeOps.map(o => (
+              <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>
+            ))}
+          </TextField>
+          {input(value.value, value.op === 'between' ? 'From' : 'Value', raw => {
+            // Dates cleared in the picker keep their previous value.
+            if (isDate && !raw) return;
+            onChange({ ...value, value: parse(raw) } as QueryCondition);
+          })}
+          {value.op === 'between' &&
+            input(value.to, 'To', raw => {
+              if (isDate && !raw) return;
+              onChange({ ...value, to: parse(raw) } as QueryCondition);
+            })}
+        </Stack>
+      );
+      break;
+    }
+  }
+
+  return (
+    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+      {fieldSelect}
+      {editor}
+      <Tooltip title="Remove condition">
+        <IconButton size="small" onClick={onRemove} aria-label="Remove condition">
+          <DeleteOutlineIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Stack>
+  );
+}
+
+function GroupEditor({
+  value,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  value: QueryGroup;
+  depth: number;
+  onChange: (value: QueryGroup) => void;
+  onRemove?: () => void;
+}) {
+  const setChild = (index: number, child: QueryNode) =>
+    onChange({ ...value, children: value.children.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) =>
+    onChange({ ...value, children: value.children.filter((_, i) => i !== index) });
+  const append = (child: QueryNode) => onChange({ ...value, children: [...value.children, child] });
+
+  return (
+    <Box
+      sx={{
+        p: 1.5,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 2,
+        bgcolor: depth % 2 ? 'action.hover' : 'transparent',
+      }}
+    >
+      <Stack spacing={1.5}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={value.op}
+            onChange={(_, op) => op && onChange({ ...value, op })}
+            aria-label="Combine conditions with"
+          >
+            <ToggleButton value="and">All (AND)</ToggleButton>
+            <ToggleButton value="or">Any (OR)</ToggleButton>
+          </ToggleButtonGroup>
+          <Box flex={1} />
+          {onRemove && (
+            <Tooltip title="Remove group">
+              <IconButton size="small" onClick={onRemove} aria-label="Remove group">
+                <DeleteOutlineIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Stack>
+
+        {value.children.map((child, i) =>
+          child.kind === 'group' ? (
+            <GroupEditor
+              key={i}
+              value={child}
+              depth={depth + 1}
+              onChange={c => setChild(i, c)}
+              onRemove={() => removeChild(i)}
+            />
+          ) : (
+            <ConditionRow key={i} value={child} onChange={c => setChild(i, c)} onRemove={() => removeChild(i)} />
+          ),
+        )}
+
+        <Stack direction="row" spacing={1}>
+          <Button size="small" startIcon={<AddIcon />} onClick={() => append(defaultCondition('text'))}>
+            Condition
+          </Button>
+          {depth < MAX_DEPTH && (
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() =>
+                append({ kind: 'group', op: value.op === 'and' ? 'or' : 'and', children: [defaultCondition('text')] })
+              }
+            >
+              Group
+            </Button>
+          )}
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
+
+export default function QueryBuilder({ value, onChange }: Props) {
+  return <GroupEditor value={value} depth={1} onChange={onChange} />;
+}
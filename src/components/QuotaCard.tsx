@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import { BarChart } from '@mui/x-charts';
+
+import { Task } from '@/types';
+import { useUser } from '@/context/UserContext';
+import { useTasksContext } from '@/context/TasksContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { Pacing, computeMonthlyAttainment, computeQuotaProgress, formatMonth } from '@/utils/quota';
+
+interface Props {
+  /** Every task; quota ignores the current filter. */
+  tasks: ReadonlyArray<Task>;
+}
+
+type Scope = 'me' | 'team';
+
+const pacingChip: Record<Pacing, { label: string; color: 'success' | 'info' | 'warning' }> = {
+  ahead: { label: 'Ahead of pace', color: 'success' },
+  onTrack: { label: 'On track', color: 'info' },
+  behind: { label: 'Behind pace', color: 'warning' },
+};
+
+const money = (n: number) => `$${Math.round(n).toLocaleString()}`;
+
+function GoalDialog({
+  open,
+  goal,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  goal: number;
+  onClose: () => void;
+  onSave: (goal: number) => void;
+}) {
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    if (open) setDraft(goal ? String(goal) : '');
+  }, [open, goal]);
+
+  const value = Number(draft);
+  const error = draft.trim() === '' || !Number.isFinite(value) ? 'Enter a number' : value <= 0 ? 'Goal must be greater than 0' : null;
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Monthly revenue goal</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Goal ($)"
+          type="number"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          error={!!draft && !!error}
+          helperText={draft ? error : undefined}
+          inputProps={{ min: 1 }}
+          fullWidth
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!!error}
+          onClick={() => {
+            onSave(value);
+            onClose();
+          }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default function QuotaCard({ tasks }: Props) {
+  const { user, users, setMonthlyGoal } = useUser();
+  const settings = useDateSettings();
+  const { workflow } = useTasksContext();
+  const [scope, setScope] = useState<Scope>('me');
+  const [editing, setEditing] = useState(false);
+
+  // Team quota is the sum of everyone's goals over every task; months still
+  // follow the viewer's timezone.
+  const goal =
+    scope === 'me'
+      ? user.quota?.monthlyRevenueGoal ?? 0
+      : users.reduce((s, u) => s + (u.quota?.monthlyRevenueGoal ?? 0), 0);
+  const scoped = useMemo(
+    () => (scope === 'me' ? tasks.filter(t => t.assigneeId === user.id) : tasks),
+    [tasks, scope, user.id],
+  );
+  const progress = useMemo(
+    () => computeQuotaProgress(scoped, goal, settings, workflow),
+    [scoped, goal, settings, workflow],
+  );
+  const history = useMemo(
+    () => computeMonthlyAttainment(scoped, goal, settings.timeZone, workflow),
+    [scoped, goal, settings.timeZone, workflow],
+  );
+  const chip = pacingChip[progress.pacing];
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" spacing={1} mb={1}>
+          <Typography fontWeight={700}>Quota · {formatMonth(progress.month)}</Typography>
+          <Box flex={1} />
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={scope}
+            onChange={(_, next: Scope | null) => next && setScope(next)}
+            aria-label="Quota scope"
+          >
+            <ToggleButton value="me">Me</ToggleButton>
+            <ToggleButton value="team">Team</ToggleButton>
+          </ToggleButtonGroup>
+        </Stack>
+
+        {goal <= 0 ? (
+          <Stack spacing={1} alignItems="flex-start">
+            <Typography variant="body2" color="text.secondary">No monthly goal set.</Typography>
+            {scope === 'me' && (
+              <Button size="small" variant="outlined" onClick={() => setEditing(true)}>
+                Set goal
+              </Button>
+            )}
+          </Stack>
+        ) : (
+          <Stack spacing={1.5}>
+            <Stack direction="row" alignItems="baseline" spacing={1}>
+              <Typography variant="h5" fontWeight={700}>{progress.attainmentPct.toFixed(0)}%</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {money(progress.revenue)} of {money(goal)}
+              </Typography>
+              {scope === 'me' && (
+                <Tooltip title="Edit goal">
+                  <IconButton size="small" onClick={() => setEditing(true)} aria-label="Edit goal">
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Stack>
+
+            <Tooltip title={`Expected by day ${progress.daysElapsed} of ${progress.daysInMonth}: ${money(progress.expectedRevenue)}`}>
+              <Box position="relative">
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, progress.attainmentPct)}
+                  sx={{ height: 10, borderRadius: 5 }}
+                />
+                {/* Straight-line pace marker */}
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    top: -3,
+                    bottom: -3,
+                    left: `${Math.min(100, progress.expectedPct)}%`,
+                    width: 2,
+                    bgcolor: 'text.primary',
+                  }}
+                />
+              </Box>
+            </Tooltip>
+
+            <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+              <Chip size="small" color={chip.color} label={chip.label} />
+              <Tooltip title="Month-to-date plus the weekly revenue forecast for the rest of the month">
+                <Typography variant="body2" color="text.secondary">
+                  Projected {money(progress.projectedRevenue)} ({progress.projectedPct.toFixed(0)}%)
+                </Typography>
+              </Tooltip>
+            </Stack>
+
+            <Box>
+              <Typography variant="caption" color="text.secondary">Attainment by month (%)</Typography>
+              <BarChart
+                height={140}
+                margin={{ top: 10, bottom: 24, left: 36, right: 8 }}
+                xAxis={[{ scaleType: 'band', data: history.map(h => formatMonth(h.month, 'short')) }]}
+                series={[{ data: history.map(h => Number(h.attainmentPct.toFixed(1))), color: '#4F6BED' }]}
+              />
+            </Box>
+          </Stack>
+        )}
+      </CardContent>
+
+      <GoalDialog
+        open={editing}
+        goal={user.quota?.monthlyRevenueGoal ?? 0}
+        onClose={() => setEditing(false)}
+        onSave={next => setMonthlyGoal(user.id, next)}
+      />
+    </Card>
+  );
+}
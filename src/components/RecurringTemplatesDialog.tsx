@@ -0,0 +1,484 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+
+import { Priority } from '@/types';
+import { useUser } from '@/context/UserContext';
+import { useTasksContext } from '@/context/TasksContext';
+import { useRecurrence } from '@/context/RecurrenceContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { formatDay, todayKey } from '@/utils/dates';
+import { addDays, dayToDate } from '@/utils/dueDates';
+import { PRIORITIES } from '@/utils/validation';
+import { isClosed } from '@/utils/workflow';
+import { newId } from '@/utils/ids';
+import {
+  Frequency,
+  RecurrenceRule,
+  RecurringTemplate,
+  describeRule,
+  formatRRule,
+  tryParseRRule,
+  upcomingOccurrences,
+  validateTemplate,
+} from '@/utils/recurrence';
+import DueDateField from './DueDateField';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ScheduleMode = Frequency | 'custom';
+
+interface Draft {
+  id: string;
+  title: string;
+  revenue: number | '';
+  timeTaken: number | '';
+  priority: Priority;
+  notes: string;
+  assigneeId: string;
+  mode: ScheduleMode;
+  interval: number | '';
+  weekdays: number[];
+  monthDay: number;
+  /** RRULE text while mode is custom. */
+  rrule: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Monday first, matching RRULE's default week start.
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0].map(d => ({
+  value: d,
+  label: new Date(2026, 0, 4 + d).toLocaleDateString(undefined, { weekday: 'narrow' }),
+}));
+
+const shortDay = (day: string) => formatDay(day, { weekday: 'short', month: 'short', day: 'numeric' });
+
+function newDraft(today: string): Draft {
+  return {
+    id: newId(),
+    title: '',
+    revenue: '',
+    timeTaken: '',
+    priority: 'Medium',
+    notes: '',
+    assigneeId: '',
+    mode: 'weekly',
+    interval: 1,
+    weekdays: [dayToDate(today).getDay()],
+    monthDay: Number(today.slice(8)),
+    rrule: '',
+    startDate: today,
+  };
+}
+
+function toDraft(t: RecurringTemplate): Draft {
+  return {
+    id: t.id,
+    title: t.title,
+    revenue: t.revenue,
+    timeTaken: t.timeTaken,
+    priority: t.priority,
+    notes: t.notes ?? '',
+    assigneeId: t.assigneeId ?? '',
+    mode: t.rule.freq,
+    interval: t.rule.interval,
+    weekdays: t.rule.weekdays ?? [],
+    monthDay: t.rule.monthDay ?? Number(t.startDate.slice(8)),
+    rrule: formatRRule(t.rule, t.endDate),
+    startDate: t.startDate,
+    endDate: t.endDate,
+  };
+}
+
+function draftRule(d: Draft): { rule: RecurrenceRule | null; endDate?: string; error?: string } {
+  if (d.mode === 'custom') {
+    const parsed = tryParseRRule(d.rrule);
+    return parsed.error ? { rule: null, error: parsed.error.message } : { rule: parsed.rule, endDate: parsed.endDate };
+  }
+  const rule: RecurrenceRule = { freq: d.mode, interval: d.interval === '' ? NaN : d.interval };
+  if (d.mode === 'weekly') rule.weekdays = [...d.weekdays].sort();
+  if (d.mode === 'monthly') rule.monthDay = d.monthDay;
+  return { rule, endDate: d.endDate };
+}
+
+function TemplateEditor({
+  draft,
+  existing,
+  onChange,
+}: {
+  draft: Draft;
+  existing?: RecurringTemplate;
+  onChange: (patch: Partial<Draft>) => void;
+}) {
+  const { users } = useUser();
+
+  const switchMode = (mode: ScheduleMode) => {
+    if (mode === draft.mode) return;
+    if (mode === 'custom') {
+      const { rule, endDate } = draftRule(draft);
+      onChange({ mode, rrule: rule ? formatRRule(rule, endDate) : '' });
+      return;
+    }
+    // Coming back from a custom rule keeps whatever it described.
+    const parsed = draft.mode === 'custom' ? tryParseRRule(draft.rrule) : null;
+    onChange({
+      mode,
+      ...(parsed?.rule
+        ? {
+            interval: parsed.rule.interval,
+            weekdays: parsed.rule.weekdays ?? draft.weekdays,
+            monthDay: parsed.rule.monthDay ?? draft.monthDay,
+            endDate: parsed.endDate ?? draft.endDate,
+          }
+        : {}),
+    });
+  };
+
+  const unit = { daily: 'days', weekly: 'weeks', monthly: 'months' } as const;
+
+  return (
+    <Stack spacing={2}>
+      <TextField
+        label="Title"
+        value={draft.title}
+        onChange={e => onChange({ title: e.target.value })}
+        helperText="Each task gets the occurrence date appended, e.g. “Pipeline review (2026-10-19)”."
+        autoFocus={!existing}
+        required
+      />
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+        <TextField
+          label="Revenue"
+          type="number"
+          value={draft.revenue}
+          onChange={e => onChange({ revenue: e.target.value === '' ? '' : Number(e.target.value) })}
+          inputProps={{ min: 0 }}
+          required
+          fullWidth
+        />
+        <TextField
+          label="Time Taken (hours)"
+          type="number"
+          value={draft.timeTaken}
+          onChange={e => onChange({ timeTaken: e.target.value === '' ? '' : Number(e.target.value) })}
+          inputProps={{ min: 1 }}
+          required
+          fullWidth
+        />
+      </Stack>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+        <FormControl fullWidth required>
+          <InputLabel>Priority</InputLabel>
+          <Select label="Priority" value={draft.priority} onChange={e => onChange({ priority: e.target.value as Priority })}>
+            {PRIORITIES.map(p => (
+              <MenuItem key={p} value={p}>
+                {p}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl fullWidth>
+          <InputLabel shrink>Assignee</InputLabel>
+          <Select
+            label="Assignee"
+            notched
+            displayEmpty
+            value={draft.assigneeId}
+            onChange={e => onChange({ assigneeId: e.target.value })}
+          >
+            <MenuItem value="">Unassigned</MenuItem>
+            {users.map(u => (
+              <MenuItem key={u.id} value={u.id}>
+                {u.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+      <TextField label="Notes" value={draft.notes} onChange={e => onChange({ notes: e.target.value })} multiline minRows={2} />
+
+      <Typography variant="subtitle2">Schedule</Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+        <TextField
+          select
+          label="Repeats"
+          value={draft.mode}
+          onChange={e => switchMode(e.target.value as ScheduleMode)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="daily">Daily</MenuItem>
+          <MenuItem value="weekly">Weekly</MenuItem>
+          <MenuItem value="monthly">Monthly</MenuItem>
+          <MenuItem value="custom">Custom rule</MenuItem>
+        </TextField>
+        {draft.mode !== 'custom' && (
+          <TextField
+            label={`Every (${unit[draft.mode]})`}
+            type="number"
+            value={draft.interval}
+            onChange={e => onChange({ interval: e.target.value === '' ? '' : Number(e.target.value) })}
+            inputProps={{ min: 1 }}
+            sx={{ width: 140 }}
+          />
+        )}
+        {draft.mode === 'weekly' && (
+          <ToggleButtonGroup
+            size="small"
+            value={draft.weekdays}
+            onChange={(_, weekdays: number[]) => onChange({ weekdays })}
+            aria-label="Weekdays"
+          >
+            {WEEKDAYS.map(d => (
+              <ToggleButton key={d.value} value={d.value} sx={{ width: 36 }}>
+                {d.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        )}
+        {draft.mode === 'monthly' && (
+          <TextField
+            select
+            label="On day"
+            value={draft.monthDay}
+            onChange={e => onChange({ monthDay: Number(e.target.value) })}
+            sx={{ width: 140 }}
+          >
+            {Array.from({ length: 31 }, (_, i) => i + 1).map(n => (
+              <MenuItem key={n} value={n}>
+                {n}
+              </MenuItem>
+            ))}
+            <MenuItem value={-1}>Last day</MenuItem>
+          </TextField>
+        )}
+      </Stack>
+      {draft.mode === 'custom' && (
+        <TextField
+          label="RRULE"
+          value={draft.rrule}
+          onChange={e => onChange({ rrule: e.target.value })}
+          helperText="FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY, BYMONTHDAY and UNTIL, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+          fullWidth
+        />
+      )}
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+        <DueDateField label="Starts" value={draft.startDate} onChange={startDate => onChange({ startDate })} fullWidth />
+        {draft.mode !== 'custom' && (
+          <DueDateField label="Ends (optional)" value={draft.endDate} onChange={endDate => onChange({ endDate })} fullWidth />
+        )}
+      </Stack>
+    </Stack>
+  );
+}
+
+/** Lists recurring templates and edits them; occurrences can be skipped and templates paused. */
+export default function RecurringTemplatesDialog({ open, onClose }: Props) {
+  const { templates, saveTemplate, deleteTemplate, setPaused, toggleSkip } = useRecurrence();
+  const { tasks, workflow } = useTasksContext();
+  const { timeZone } = useDateSettings();
+  const today = todayKey(timeZone);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [updateOpen, setUpdateOpen] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(null);
+    setUpdateOpen(true);
+  }, [open]);
+
+  const editing = draft ? templates.find(t => t.id === draft.id) : undefined;
+  const openInstances = editing
+    ? tasks.filter(t => t.templateId === editing.id && !isClosed(workflow, t.status)).length
+    : 0;
+
+  const built = useMemo(() => {
+    if (!draft) return null;
+    const { rule, endDate, error } = draftRule(draft);
+    if (!rule) return { template: null, errors: [error!] };
+    const template: RecurringTemplate = {
+      ...(editing ?? {}),
+      id: draft.id,
+      title: draft.title.trim(),
+      revenue: draft.revenue === '' ? NaN : draft.revenue,
+      timeTaken: draft.timeTaken === '' ? NaN : draft.timeTaken,
+      priority: draft.priority,
+      notes: draft.notes.trim() || undefined,
+      assigneeId: draft.assigneeId || undefined,
+      rule,
+      startDate: draft.startDate ?? '',
+      endDate,
+    };
+    const errors = validateTemplate(template);
+    if (draft.mode === 'weekly' && !draft.weekdays.length) errors.push('Pick at least one weekday');
+    return { template, errors };
+  }, [draft, editing]);
+
+  const preview = built?.template && !built.errors.length ? upcomingOccurrences(built.template, today, 4) : [];
+
+  // The next few occurrences that haven't been generated yet.
+  const upcoming = (t: RecurringTemplate) => {
+    const from = t.generatedThrough && t.generatedThrough >= today ? addDays(t.generatedThrough, 1) : today;
+    return upcomingOccurrences(t, from, 4);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>{draft ? (editing ? `Edit ${editing.title}` : 'New recurring task') : 'Recurring tasks'}</DialogTitle>
+      <DialogContent>
+        {draft ? (
+          <Stack spacing={2} mt={1}>
+            <TemplateEditor draft={draft} existing={editing} onChange={patch => setDraft(d => d && { ...d, ...patch })} />
+            {built && built.errors.length > 0 ? (
+              <Alert severity="error">
+                {built.errors.map(e => (
+                  <div key={e}>{e}</div>
+                ))}
+              </Alert>
+            ) : (
+              preview.length > 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  Next: {preview.map(shortDay).join(', ')}
+                </Typography>
+              )
+            )}
+            {editing && openInstances > 0 && (
+              <FormControlLabel
+                control={<Checkbox checked={updateOpen} onChange={e => setUpdateOpen(e.target.checked)} />}
+                label={`Also update ${openInstances} open ${openInstances === 1 ? 'task' : 'tasks'} from this template`}
+              />
+            )}
+          </Stack>
+        ) : templates.length ? (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Title</TableCell>
+                <TableCell>Schedule</TableCell>
+                <TableCell>Upcoming (click to skip)</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {templates.map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>{t.title}</TableCell>
+                  <TableCell>
+                    {describeRule(t.rule)}
+                    {t.endDate && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        until {formatDay(t.endDate)}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      {upcoming(t).map(day => {
+                        const skipped = !!t.skipped?.includes(day);
+                        return (
+                          <Tooltip key={day} title={skipped ? 'Skipped; click to restore' : 'Skip this occurrence'}>
+                            <Chip
+                              size="small"
+                              label={shortDay(day)}
+                              variant={skipped ? 'outlined' : 'filled'}
+                              onClick={() => toggleSkip(t.id, day)}
+                              sx={{ textDecoration: skipped ? 'line-through' : 'none', opacity: t.paused ? 0.5 : 1 }}
+                            />
+                          </Tooltip>
+                        );
+                      })}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={!t.paused}
+                      onChange={e => setPaused(t.id, !e.target.checked)}
+                      inputProps={{ 'aria-label': t.paused ? `Resume ${t.title}` : `Pause ${t.title}` }}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => setDraft(toDraft(t))} aria-label={`Edit ${t.title}`}>
+                        <EditOutlinedIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete template (its tasks stay)">
+                      <IconButton size="small" onClick={() => deleteTemplate(t.id)} aria-label={`Delete ${t.title}`}>
+                        <DeleteOutlineIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Box py={3} textAlign="center">
+            <Typography color="text.secondary">
+              No recurring tasks yet. Templates create a task on every scheduled day, due that day.
+            </Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {draft ? (
+          <>
+            <Button onClick={() => setDraft(null)}>Back</Button>
+            <Button
+              variant="contained"
+              disabled={!built?.template || built.errors.length > 0}
+              onClick={() => {
+                saveTemplate(built!.template!, !!editing && updateOpen);
+                setDraft(null);
+              }}
+            >
+              Save
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button startIcon={<AddIcon />} onClick={() => setDraft(newDraft(today))} sx={{ mr: 'auto' }}>
+              New template
+            </Button>
+            <Button onClick={onClose}>Close</Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
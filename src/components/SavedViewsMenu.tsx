@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Snackbar,
+  TextField,
+} from '@mui/material';
+import BookmarksIcon from '@mui/icons-material/Bookmarks';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import LinkIcon from '@mui/icons-material/Link';
+
+import { SavedView, ViewState, sameView } from '@/utils/views';
+
+interface Props {
+  views: SavedView[];
+  current: ViewState;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function SavedViewsMenu({ views, current, onApply, onSave, onDelete }: Props) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const active = views.find(v => sameView(v, current));
+
+  useEffect(() => {
+    if (saveOpen) setName(active?.name ?? '');
+  }, [saveOpen]);
+
+  const replacing = views.some(v => v.name.toLowerCase() === name.trim().toLowerCase());
+
+  const copyLink = async () => {
+    setAnchor(null);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked (insecure context or denied); the address bar still has the link.
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<BookmarksIcon />}
+        onClick={e => setAnchor(e.currentTarget)}
+        sx={{ alignSelf: 'flex-start', height: 56, whiteSpace: 'nowrap', flexShrink: 0 }}
+      >
+        {active ? active.name : 'Views'}
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {views.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary="No saved views" />
+          </MenuItem>
+        )}
+        {views.map(v => (
+          <MenuItem
+            key={v.id}
+            selected={v.id === active?.id}
+            onClick={() => {
+              setAnchor(null);
+              onApply(v);
+            }}
+          >
+            <ListItemText primary={v.name} secondary={v.query || 'No filter'} sx={{ mr: 2 }} />
+            <IconButton
+              size="small"
+              edge="end"
+              aria-label={`Delete view ${v.name}`}
+              onClick={e => {
+                e.stopPropagation();
+                onDelete(v.id);
+              }}
+            >
+              <DeleteOutlineIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchor(null);
+            setSaveOpen(true);
+          }}
+        >
+          <ListItemIcon><BookmarkAddIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Save current view…" />
+        </MenuItem>
+        <MenuItem onClick={copyLink}>
+          <ListItemIcon><LinkIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Copy link to this view" />
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={saveOpen} onClose={() => setSaveOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            helperText={replacing ? 'Replaces the saved view with this name' : 'Filter, sort, columns and layout are saved'}
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={!name.trim()}
+            onClick={() => {
+              onSave(name);
+              setSaveOpen(false);
+            }}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={copied}
+        autoHideDuration={3000}
+        onClose={() => setCopied(false)}
+        message="Link copied"
+      />
+    </>
+  );
+}
@@ -0,0 +1,299 @@
+import { DragEvent, KeyboardEvent, useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+
+import { DerivedTask, Status, Task } from '@/types';
+import {
+  BoardMove,
+  groupByStatus,
+  previewMove,
+} from '@/utils/board';
+import { canTransition, stageNames } from '@/utils/workflow';
+import { useTasksContext } from '@/context/TasksContext';
+import TaskDetailsDialog from './TaskDetailsDialog';
+import UserAvatar from './UserAvatar';
+
+interface Props {
+  tasks: DerivedTask[];
+  onMove: (move: BoardMove) => void;
+  onUpdate: (id: string, patch: Partial<Task>) => void;
+}
+
+const priorityColor: Record<Task['priority'], 'error' | 'warning' | 'default'> = {
+  High: 'error',
+  Medium: 'warning',
+  Low: 'default',
+};
+
+function BoardCard({
+  task,
+  lifted,
+  onKeyDown,
+  onOpen,
+  onDragStart,
+  onDragOver,
+}: {
+  task: DerivedTask;
+  lifted: boolean;
+  onKeyDown: (e: KeyboardEvent<HTMLDivElement>) => void;
+  onOpen: () => void;
+  onDragStart: (e: DragEvent<HTMLDivElement>) => void;
+  onDragOver: (e: DragEvent<HTMLDivElement>) => void;
+}) {
+  return (
+    <Paper
+      data-task-id={task.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="draggable task card"
+      aria-pressed={lifted}
+      draggable
+      onDragStart={onDragStart}
+      onDragOver={onDragOver}
+      onKeyDown={onKeyDown}
+      onClick={onOpen}
+      sx={{
+        p: 1.5,
+        cursor: 'grab',
+        outline: lifted ? '2px solid' : 'none',
+        outlineColor: 'primary.main',
+        transform: lifted ? 'rotate(-1deg)' : 'none',
+        '&:focus-visible': { outline: '2px solid', outlineColor: 'primary.light' },
+      }}
+    >
+      <Typography fontWeight={600} gutterBottom>{task.title}</Typography>
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+        <Typography variant="body2">${task.revenue.toLocaleString()}</Typography>
+        <Typography variant="body2" color="text.secondary">ROI {task.roi}</Typography>
+        <Chip size="small" label={task.priority} color={priorityColor[task.priority]} variant="outlined" />
+        <Box ml="auto">
+          <UserAvatar userId={task.assigneeId} size={24} />
+        </Box>
+      </Stack>
+    </Paper>
+  );
+}
+
+export default function TaskBoard({ tasks, onMove, onUpdate }: Props) {
+  const { workflow } = useTasksContext();
+  const stages = useMemo(() => stageNames(workflow), [workflow]);
+  const columns = useMemo(() => groupByStatus(tasks, workflow), [tasks, workflow]);
+  const [pending, setPending] = useState<BoardMove | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [keyboardMode, setKeyboardMode] = useState(false);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  const shown = pending ? previewMove(columns, pending) : columns;
+
+  const locate = (id: string): { status: Status; index: number } | null => {
+    for (const status of stages) {
+      const index = shown[status].findIndex(t => t.id === id);
+      if (index >= 0) return { status, index };
+    }
+    return null;
+  };
+
+  // Columns the workflow won't let the dragged task move into refuse the drop.
+  const canDrop = (status: Status) => {
+    const task = dragging ? tasks.find(t => t.id === dragging) : undefined;
+    return !task || canTransition(workflow, task.status, status);
+  };
+
+  /** Nearest column in `step` direction the task may move to. */
+  const adjacentStage = (task: DerivedTask, col: number, step: number): Status | undefined => {
+    for (let i = col + step; i >= 0 && i < stages.length; i += step) {
+      if (canTransition(workflow, task.status, stages[i])) return stages[i];
+    }
+    return undefined;
+  };
+
+  const reset = () => {
+    setPending(null);
+    setDragging(null);
+    setKeyboardMode(false);
+  };
+
+  const commit = () => {
+    if (pending) onMove(pending);
+    reset();
+  };
+
+  const focusCard = (id: string) => {
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-task-id="${CSS.escape(id)}"]`)?.focus();
+    });
+  };
+
+  /* ---------- keyboard ---------- */
+
+  const handleKeyDown = (task: DerivedTask) => (e: KeyboardEvent<HTMLDivElement>) => {
+    const lifted = keyboardMode && dragging === task.id;
+    if (!lifted) {
+      if (e.key === ' ') {
+        e.preventDefault();
+        const here = locate(task.id)!;
+        setDragging(task.id);
+        setKeyboardMode(true);
+        setPending({ taskId: task.id, toStatus: here.status, toIndex: here.index });
+        setAnnouncement(`Picked up ${task.title}. Use arrow keys to move, Space to drop, Escape to cancel.`);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        setDetailsId(task.id);
+      }
+      return;
+    }
+
+    const here = locate(task.id)!;
+    const col = stages.indexOf(here.status);
+    let next: BoardMove | null = null;
+    let toStatus: Status | undefined;
+    switch (e.key) {
+      case 'ArrowUp':
+        next = { taskId: task.id, toStatus: here.status, toIndex: here.index - 1 };
+        break;
+      case 'ArrowDown':
+        next = { taskId: task.id, toStatus: here.status, toIndex: here.index + 1 };
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        toStatus = adjacentStage(task, col, e.key === 'ArrowLeft' ? -1 : 1);
+        if (toStatus) next = { taskId: task.id, toStatus, toIndex: here.index };
+        else setAnnouncement(`${task.title} can't move further ${e.key === 'ArrowLeft' ? 'left' : 'right'}.`);
+        break;
+      case ' ':
+      case 'Enter':
+        e.preventDefault();
+        setAnnouncement(`Dropped ${task.title} in ${here.status}, position ${here.index + 1}.`);
+        commit();
+        focusCard(task.id);
+        return;
+      case 'Escape':
+        e.preventDefault();
+        setAnnouncement(`Cancelled moving ${task.title}.`);
+        reset();
+        focusCard(task.id);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    if (next) {
+      const preview = previewMove(columns, next);
+      const index = preview[next.toStatus].findIndex(t => t.id === task.id);
+      setPending({ ...next, toIndex: index });
+      setAnnouncement(`${task.title}: ${next.toStatus}, position ${index + 1}.`);
+      focusCard(task.id);
+    }
+  };
+
+  /* ---------- mouse ---------- */
+
+  const handleDragStart = (task: DerivedTask) => (e: DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', task.id);
+    setKeyboardMode(false);
+    setDragging(task.id);
+  };
+
+  const handleCardDragOver = (status: Status, over: DerivedTask) => (e: DragEvent<HTMLDivElement>) => {
+    if (!dragging || keyboardMode || over.id === dragging || !canDrop(status)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    const list = shown[status].filter(t => t.id !== dragging);
+    const index = list.findIndex(t => t.id === over.id) + (after ? 1 : 0);
+    if (pending?.toStatus !== status || pending.toIndex !== index) {
+      setPending({ taskId: dragging, toStatus: status, toIndex: index });
+    }
+  };
+
+  const handleColumnDragOver = (status: Status) => (e: DragEvent<HTMLDivElement>) => {
+    if (!dragging || keyboardMode || !canDrop(status)) return;
+    e.preventDefault();
+    // Hovering empty space at the bottom of a column appends to it.
+    if (pending?.toStatus !== status) {
+      const size = shown[status].filter(t => t.id !== dragging).length;
+      setPending({ taskId: dragging, toStatus: status, toIndex: size });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography fontWeight={700} mb={2}>Board</Typography>
+        <Box aria-live="assertive" sx={{ position: 'absolute', width: '1px', height: '1px', overflow: 'hidden', clip: 'rect(0 0 0 0)' }}>
+          {announcement}
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gap: 2,
+            gridTemplateColumns: { xs: '1fr', md: `repeat(${stages.length}, 1fr)` },
+          }}
+        >
+          {stages.map(status => (
+            <Box
+              key={status}
+              role="list"
+              aria-label={status}
+              onDragOver={handleColumnDragOver(status)}
+              onDrop={e => {
+                e.preventDefault();
+                commit();
+              }}
+              onDragEnd={() => {
+                if (!keyboardMode) reset();
+              }}
+              sx={theme => ({
+                p: 1.5,
+                minHeight: 160,
+                borderRadius: 2,
+                opacity: dragging && !keyboardMode && !canDrop(status) ? 0.5 : 1,
+                bgcolor:
+                  pending && !keyboardMode && pending.toStatus === status
+                    ? alpha(theme.palette.primary.main, 0.08)
+                    : alpha(theme.palette.text.primary, 0.03),
+              })}
+            >
+              <Stack direction="row" justifyContent="space-between" mb={1.5}>
+                <Typography variant="subtitle2" fontWeight={700}>{status}</Typography>
+                <Typography variant="subtitle2" color="text.secondary">{shown[status].length}</Typography>
+              </Stack>
+              <Stack spacing={1.5}>
+                {shown[status].map(t => (
+                  <Box key={t.id} role="listitem" sx={{ opacity: dragging === t.id && !keyboardMode ? 0.5 : 1 }}>
+                    <BoardCard
+                      task={t}
+                      lifted={keyboardMode && dragging === t.id}
+                      onKeyDown={handleKeyDown(t)}
+                      onOpen={() => setDetailsId(t.id)}
+                      onDragStart={handleDragStart(t)}
+                      onDragOver={handleCardDragOver(status, t)}
+                    />
+                  </Box>
+                ))}
+              </Stack>
+            </Box>
+          ))}
+        </Box>
+      </CardContent>
+
+      <TaskDetailsDialog
+        open={!!detailsId}
+        taskId={detailsId}
+        onClose={() => setDetailsId(null)}
+        onSave={onUpdate}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+import { DragEvent, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+
+import { DerivedTask, Task } from '@/types';
+import {
+  CalendarSpan,
+  calendarDays,
+  dayToDate,
+  dueState,
+  groupByDueDate,
+  shiftAnchor,
+} from '@/utils/dueDates';
+import { todayKey } from '@/utils/dates';
+import { isClosed, Workflow } from '@/utils/workflow';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { useTasksContext } from '@/context/TasksContext';
+import TaskDetailsDialog from './TaskDetailsDialog';
+
+interface Props {
+  tasks: DerivedTask[];
+  /** Sets or (with undefined) clears a task's due date. */
+  onReschedule: (id: string, dueDate: string | undefined) => void;
+  onUpdate: (id: string, patch: Partial<Task>) => void;
+}
+
+// Month cells show this many tasks before collapsing the rest into "+N more".
+const MONTH_CELL_LIMIT = 3;
+const UNSCHEDULED = 'unscheduled';
+
+// Sunday first; rotated to the user's week start when rendered.
+const WEEKDAYS = Array.from({ length: 7 }, (_, i) =>
+  new Date(2026, 0, 4 + i).toLocaleDateString(undefined, { weekday: 'short' }),
+);
+
+function spanTitle(days: string[], anchor: string, span: CalendarSpan): string {
+  if (span === 'month') {
+    return dayToDate(anchor).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  const fmt = (d: string) => dayToDate(d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${fmt(days[0])} – ${fmt(days[6])}, ${dayToDate(days[6]).getFullYear()}`;
+}
+
+function TaskChip({
+  task,
+  today,
+  workflow,
+  onOpen,
+  onDragStart,
+  onDragEnd,
+}: {
+  task: DerivedTask;
+  today: string;
+  workflow: Workflow;
+  onOpen: () => void;
+  onDragStart: (e: DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+}) {
+  const state = dueState(task, today, workflow);
+  const closed = isClosed(workflow, task.status);
+  return (
+    <Chip
+      size="small"
+      label={task.title}
+      title={task.title}
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onClick={onOpen}
+      color={state === 'overdue' ? 'error' : state === 'dueSoon' ? 'warning' : 'default'}
+      variant={closed ? 'outlined' : 'filled'}
+      sx={{
+        maxWidth: '100%',
+        justifyContent: 'flex-start',
+        cursor: 'grab',
+        textDecoration: closed ? 'line-through' : 'none',
+      }}
+    />
+  );
+}
+
+export default function TaskCalendar({ tasks, onReschedule, onUpdate }: Props) {
+  const { timeZone, weekStart } = useDateSettings();
+  const { workflow } = useTasksContext();
+  const today = todayKey(timeZone);
+  const [span, setSpan] = useState<CalendarSpan>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [over, setOver] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+
+  const days = useMemo(() => calendarDays(anchor, span, weekStart), [anchor, span, weekStart]);
+  const weekdays = [...WEEKDAYS.slice(weekStart), ...WEEKDAYS.slice(0, weekStart)];
+  const byDay = useMemo(() => groupByDueDate(tasks), [tasks]);
+  const unscheduled = useMemo(() => tasks.filter(t => !t.dueDate), [tasks]);
+  const month = dayToDate(anchor).getMonth();
+
+  const handleDragStart = (task: DerivedTask) => (e: DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', task.id);
+    setDragging(task.id);
+  };
+
+  const reset = () => {
+    setDragging(null);
+    setOver(null);
+  };
+
+  const dropTarget = (target: string) => ({
+    onDragOver: (e: DragEvent<HTMLDivElement>) => {
+      if (!dragging) return;
+      e.preventDefault();
+      if (over !== target) setOver(target);
+    },
+    onDragLeave: (e: DragEvent<HTMLDivElement>) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOver(null);
+    },
+    onDrop: (e: DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      const task = tasks.find(t => t.id === dragging);
+      const dueDate = target === UNSCHEDULED ? undefined : target;
+      if (task && task.dueDate !== dueDate) onReschedule(task.id, dueDate);
+      reset();
+    },
+  });
+
+  const chip = (t: DerivedTask) => (
+    <TaskChip
+      key={t.id}
+      task={t}
+      today={today}
+      workflow={workflow}
+      onOpen={() => setDetailsId(t.id)}
+      onDragStart={handleDragStart(t)}
+      onDragEnd={reset}
+    />
+  );
+
+  const highlight = (target: string) => (theme: { palette: { primary: { main: string } } }) =>
+    over === target ? alpha(theme.palette.primary.main, 0.08) : undefined;
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }} mb={2}>
+          <Typography fontWeight={700} sx={{ minWidth: 200 }}>{spanTitle(days, anchor, span)}</Typography>
+          <Stack direction="row" spacing={0.5} alignItems="center">
+            <Tooltip title={`Previous ${span}`}>
+              <IconButton size="small" onClick={() => setAnchor(a => shiftAnchor(a, span, -1))} aria-label={`Previous ${span}`}>
+                <ChevronLeftIcon />
+              </IconButton>
+            </Tooltip>
+            <Button size="small" onClick={() => setAnchor(today)}>Today</Button>
+            <Tooltip title={`Next ${span}`}>
+              <IconButton size="small" onClick={() => setAnchor(a => shiftAnchor(a, span, 1))} aria-label={`Next ${span}`}>
+                <ChevronRightIcon />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+          <Box flex={1} />
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={span}
+            onChange={(_, next: CalendarSpan | null) => next && setSpan(next)}
+            aria-label="Calendar span"
+          >
+            <ToggleButton value="month">Month</ToggleButton>
+            <ToggleButton value="week">Week</ToggleButton>
+          </ToggleButtonGroup>
+        </Stack>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', gap: 0.5 }} role="grid">
+          {weekdays.map(d => (
+            <Typography key={d} variant="caption" color="text.secondary" fontWeight={600} textAlign="center" role="columnheader">
+              {d}
+            </Typography>
+          ))}
+          {days.map(day => {
+            const list = byDay.get(day) ?? [];
+            const limit = span === 'month' ? MONTH_CELL_LIMIT : list.length;
+            const date = dayToDate(day);
+            return (
+              <Box
+                key={day}
+                role="gridcell"
+                aria-label={date.toLocaleDateString(undefined, { dateStyle: 'full' })}
+                {...dropTarget(day)}
+                sx={theme => ({
+                  p: 0.75,
+                  minHeight: span === 'month' ? 110 : 320,
+                  border: 1,
+                  borderColor: day === today ? 'primary.main' : 'divider',
+                  borderRadius: 1,
+                  bgcolor: highlight(day)(theme),
+                  opacity: span === 'month' && date.getMonth() !== month ? 0.55 : 1,
+                })}
+              >
+                <Typography
+                  variant="caption"
+                  fontWeight={day === today ? 700 : 400}
+                  color={day === today ? 'primary' : 'text.secondary'}
+                >
+                  {date.getDate()}
+                </Typography>
+                <Stack spacing={0.5} mt={0.5}>
+                  {list.slice(0, limit).map(chip)}
+                  {list.length > limit && (
+                    <Button
+                      size="small"
+                      sx={{ justifyContent: 'flex-start', px: 0.5, minWidth: 0 }}
+                      onClick={() => {
+                        setAnchor(day);
+                        setSpan('week');
+                      }}
+                    >
+                      +{list.length - limit} more
+                    </Button>
+                  )}
+                </Stack>
+              </Box>
+            );
+          })}
+        </Box>
+
+        <Box
+          mt={2}
+          p={1.5}
+          {...dropTarget(UNSCHEDULED)}
+          sx={theme => ({ border: 1, borderColor: 'divider', borderStyle: 'dashed', borderRadius: 1, bgcolor: highlight(UNSCHEDULED)(theme) })}
+        >
+          <Typography variant="subtitle2" fontWeight={700} mb={1}>
+            Unscheduled ({unscheduled.length})
+          </Typography>
+          {unscheduled.length ? (
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+              {unscheduled.map(chip)}
+            </Stack>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              Drop a task here to clear its due date.
+            </Typography>
+          )}
+        </Box>
+      </CardContent>
+      <TaskDetailsDialog open={!!detailsId} taskId={detailsId} onClose={() => setDetailsId(null)} onSave={onUpdate} />
+    </Card>
+  );
+}
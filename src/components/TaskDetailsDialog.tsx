@@ -1,35 +1,77 @@
-import { Button, Dialog, DialogActions, DialogContent, DialogTitle, Divider, Stack, TextField, Typography } from '@mui/material';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
 import { daysBetween } from '@/utils/logic';
+import { hasErrors, validatePatch } from '@/utils/validation';
 import { Task } from '@/types';
 import { useEffect, useState } from 'react';
+import DueDateField from './DueDateField';
+import DueBadge from './DueBadge';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { formatDateTime } from '@/utils/dates';
+import { entriesHours, timeSource } from '@/utils/timeTracking';
+import { estimateHours } from '@/utils/subtasks';
+import { useTasksContext } from '@/context/TasksContext';
+import TimeLog from './TimeLog';
+import Checklist from './Checklist';
 
 interface Props {
   open: boolean;
-  task: Task | null;
+  /** Read from the task task list, so edits made while it's open show up. */
+  taskId: string | null;
   onClose: () => void;
   onSave: (id: string, patch: Partial<Task>) => void;
 }
 
-export default function TaskDetailsDialog({ open, task, onClose, onSave }: Props) {
+export default function TaskDetailsDialog({ open, taskId, onClose, onSave }: Props) {
+  const { timeZone } = useDateSettings();
+  const { tasks } = useTasksContext();
   const [revenue, setRevenue] = useState<number | ''>('');
   const [timeTaken, setTimeTaken] = useState<number | ''>('');
+  const [manualTime, setManualTime] = useState(false);
   const [notes, setNotes] = useState('');
+  const [dueDate, setDueDate] = useState<string | undefined>();
 
+  const task = tasks.find(t => t.id === taskId) ?? null;
+
+  // Drafts reset when the dialog opens, not on every change to the task, so
+  // a timer stop or checklist tick doesn't discard them.
   useEffect(() => {
     if (!open || !task) return;
     setRevenue(task.revenue);
     setTimeTaken(task.timeTaken);
+    setManualTime(!!task.timeTakenManual);
     setNotes(task.notes ?? '');
-  }, [open, task]);
+    setDueDate(task.dueDate);
+  }, [open, taskId]);
 
   if (!task) return null;
 
+  const derivable = timeSource({ ...task, timeTakenManual: false });
+  const source = manualTime ? 'typed' : derivable;
+
+  const patch: Partial<Task> = {
+    revenue: revenue === '' ? undefined : revenue,
+    ...(source === 'typed' ? { timeTaken: timeTaken === '' ? undefined : timeTaken } : {}),
+    timeTakenManual: derivable !== 'typed' && manualTime ? true : undefined,
+    notes: notes.trim() || undefined,
+    dueDate,
+  };
+  const errors = validatePatch(patch);
+
   const handleSave = () => {
-    onSave(task.id, {
-      revenue: typeof revenue === 'number' ? revenue : task.revenue,
-      timeTaken: typeof timeTaken === 'number' && timeTaken > 0 ? timeTaken : task.timeTaken,
-      notes: notes.trim() || undefined,
-    });
+    if (hasErrors(errors)) return;
+    onSave(task.id, patch);
     onClose();
   };
 
@@ -38,22 +80,51 @@ export default function TaskDetailsDialog({ open, task, onClose, onSave }: Props
       <DialogTitle>Task Details</DialogTitle>
       <DialogContent>
         <Stack spacing={2} mt={1}>
-          <Typography variant="h6" fontWeight={700}>{task.title}</Typography>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="h6" fontWeight={700}>{task.title}</Typography>
+            <DueBadge task={task} />
+          </Stack>
           <Divider />
           <Typography variant="body2" color="text.secondary">
-            Created: {new Date(task.createdAt).toLocaleString()} {task.completedAt ? `• Completed: ${new Date(task.completedAt).toLocaleString()} • Cycle: ${daysBetween(task.createdAt, task.completedAt)}d` : ''}
+            Created: {formatDateTime(task.createdAt, timeZone)} {task.completedAt ? `• Completed: ${formatDateTime(task.completedAt, timeZone)} • Cycle: ${daysBetween(task.createdAt, task.completedAt, timeZone)}d` : ''}
+            {task.pastCompletions?.length
+              ? ` • Reopened after: ${task.pastCompletions.map(c => formatDateTime(c, timeZone)).join(', ')}`
+              : ''}
           </Typography>
           <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
-            <TextField label="Revenue" type="number" value={revenue} onChange={e => setRevenue(e.target.value === '' ? '' : Number(e.target.value))} fullWidth />
-            <TextField label="Time Taken (h)" type="number" value={timeTaken} onChange={e => setTimeTaken(e.target.value === '' ? '' : Number(e.target.value))} fullWidth />
+            <TextField label="Revenue" type="number" value={revenue} onChange={e => setRevenue(e.target.value === '' ? '' : Number(e.target.value))} error={!!errors.revenue} helperText={errors.revenue} fullWidth />
+            <TextField
+              label="Time Taken (h)"
+              type="number"
+              value={
+                source === 'log' ? entriesHours(task.timeEntries!) : source === 'estimates' ? estimateHours(task.subtasks) : timeTaken
+              }
+              onChange={e => setTimeTaken(e.target.value === '' ? '' : Number(e.target.value))}
+              disabled={source !== 'typed'}
+              error={!!errors.timeTaken}
+              helperText={
+                errors.timeTaken ??
+                (source === 'log' ? 'Sum of the time log' : source === 'estimates' ? 'Sum of checklist estimates' : undefined)
+              }
+              fullWidth
+            />
           </Stack>
+          {derivable !== 'typed' && (
+            <FormControlLabel
+              control={<Switch size="small" checked={manualTime} onChange={e => setManualTime(e.target.checked)} />}
+              label={derivable === 'log' ? 'Override logged time' : 'Override checklist estimates'}
+            />
+          )}
+          <TimeLog task={task} />
+          <Checklist task={task} />
+          <DueDateField value={dueDate} onChange={setDueDate} error={errors.dueDate} />
           <TextField label="Notes" value={notes} onChange={e => setNotes(e.target.value)} multiline minRows={3} />
           <Typography variant="body2" color="text.secondary">Priority: {task.priority} • Status: {task.status}</Typography>
         </Stack>
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose}>Close</Button>
-        <Button variant="contained" onClick={handleSave}>Save</Button>
+        <Button variant="contained" onClick={handleSave} disabled={hasErrors(errors)}>Save</Button>
       </DialogActions>
     </Dialog>
   );
@@ -14,6 +14,12 @@ import {
 } from '@mui/material';
 
 import { Priority, Status, Task, TaskInput } from '@/types';
+import { PRIORITIES, hasErrors, validateTaskInput } from '@/utils/validation';
+import { allowedStages } from '@/utils/workflow';
+import { useUser } from '@/context/UserContext';
+import { useTasksContext } from '@/context/TasksContext';
+import DueDateField from './DueDateField';
+import UserAvatar from './UserAvatar';
 
 interface Props {
   open: boolean;
@@ -23,9 +29,6 @@ interface Props {
   initial?: Task | null;
 }
 
-const priorities: Priority[] = ['High', 'Medium', 'Low'];
-const statuses: Status[] = ['Todo', 'In Progress', 'Done'];
-
 export default function TaskForm({
   open,
   onClose,
@@ -39,6 +42,12 @@ export default function TaskForm({
   const [priority, setPriority] = useState<Priority | ''>('');
   const [status, setStatus] = useState<Status | ''>('');
   const [notes, setNotes] = useState('');
+  const [dueDate, setDueDate] = useState<string | undefined>();
+  const [assigneeId, setAssigneeId] = useState('');
+  const { user, users } = useUser();
+  const { workflow } = useTasksContext();
+  // Editing offers only the stages the task may move to from where it is.
+  const statusOptions = allowedStages(workflow, initial?.status);
 
   useEffect(() => {
     if (!open) return;
@@ -50,6 +59,8 @@ export default function TaskForm({
       setPriority(initial.priority);
       setStatus(initial.status);
       setNotes(initial.notes ?? '');
+      setDueDate(initial.dueDate);
+      setAssigneeId(initial.assigneeId ?? '');
     } else {
       setTitle('');
       setRevenue('');
@@ -57,31 +68,31 @@ export default function TaskForm({
       setPriority('');
       setStatus('');
       setNotes('');
+      setDueDate(undefined);
+      // New tasks default to whoever creates them.
+      setAssigneeId(user.id);
     }
-  }, [open, initial]);
-
-  const duplicateTitle = useMemo(() => {
-    const current = title.trim().toLowerCase();
-    if (!current) return false;
-
-    const others = initial
-      ? existingTitles.filter(
-          t => t.toLowerCase() !== initial.title.toLowerCase(),
-        )
-      : existingTitles;
-
-    return others.map(t => t.toLowerCase()).includes(current);
-  }, [title, existingTitles, initial]);
-
-  const canSubmit =
-    !!title.trim() &&
-    !duplicateTitle &&
-    typeof revenue === 'number' &&
-    revenue >= 0 &&
-    typeof timeTaken === 'number' &&
-    timeTaken > 0 &&
-    !!priority &&
-    !!status;
+  }, [open, initial, user.id]);
+
+  const errors = useMemo(
+    () =>
+      validateTaskInput(
+        {
+          title,
+          revenue: revenue === '' ? undefined : revenue,
+          timeTaken: timeTaken === '' ? undefined : timeTaken,
+          priority: priority || undefined,
+          status: status || undefined,
+          dueDate,
+        },
+        { existingTitles, currentTitle: initial?.title, workflow },
+      ),
+    [title, revenue, timeTaken, priority, status, dueDate, existingTitles, initial, workflow],
+  );
+
+  // Empty required fields only block submit; typed values get inline errors.
+  const titleError = !!title.trim() && !!errors.title;
+  const canSubmit = !hasErrors(errors);
 
   const handleSubmit = () => {
     if (!canSubmit) return;
@@ -89,11 +100,13 @@ export default function TaskForm({
     const payload: TaskInput = {
       ...(initial ? { id: initial.id } : {}),
       title: title.trim(),
-      revenue,
-      timeTaken,
-      priority,
-      status,
+      revenue: revenue as number,
+      timeTaken: timeTaken as number,
+      priority: priority as Priority,
+      status: status as Status,
       notes: notes.trim() || undefined,
+      dueDate,
+      assigneeId: assigneeId || undefined,
     };
 
     onSubmit(payload);
@@ -110,8 +123,8 @@ export default function TaskForm({
             label="Title"
             value={title}
             onChange={e => setTitle(e.target.value)}
-            error={!!title && duplicateTitle}
-            helperText={duplicateTitle ? 'Duplicate title not allowed' : ' '}
+            error={titleError}
+            helperText={titleError ? errors.title : ' '}
             autoFocus
             required
           />
@@ -125,6 +138,8 @@ export default function TaskForm({
                 setRevenue(e.target.value === '' ? '' : Number(e.target.value))
               }
               inputProps={{ min: 0 }}
+              error={revenue !== '' && !!errors.revenue}
+              helperText={revenue !== '' ? errors.revenue : undefined}
               required
               fullWidth
             />
@@ -139,6 +154,8 @@ export default function TaskForm({
                 )
               }
               inputProps={{ min: 1 }}
+              error={timeTaken !== '' && !!errors.timeTaken}
+              helperText={timeTaken !== '' ? errors.timeTaken : undefined}
               required
               fullWidth
             />
@@ -152,7 +169,7 @@ export default function TaskForm({
                 value={priority}
                 onChange={e => setPriority(e.target.value as Priority)}
               >
-                {priorities.map(p => (
+                {PRIORITIES.map(p => (
                   <MenuItem key={p} value={p}>
                     {p}
                   </MenuItem>
@@ -167,7 +184,7 @@ export default function TaskForm({
                 value={status}
                 onChange={e => setStatus(e.target.value as Status)}
               >
-                {statuses.map(s => (
+                {statusOptions.map(s => (
                   <MenuItem key={s} value={s}>
                     {s}
                   </MenuItem>
@@ -176,6 +193,34 @@ export default function TaskForm({
             </FormControl>
           </Stack>
 
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <DueDateField value={dueDate} onChange={setDueDate} error={errors.dueDate} fullWidth />
+
+            <FormControl fullWidth>
+              <InputLabel shrink>Assignee</InputLabel>
+              <Select
+                label="Assignee"
+                notched
+                value={assigneeId}
+                onChange={e => setAssigneeId(e.target.value)}
+                renderValue={id => (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <UserAvatar userId={id || undefined} size={22} />
+                    <span>{id ? users.find(u => u.id === id)?.name ?? id : 'Unassigned'}</span>
+                  </Stack>
+                )}
+                displayEmpty
+              >
+                <MenuItem value="">Unassigned</MenuItem>
+                {users.map(u => (
+                  <MenuItem key={u.id} value={u.id}>
+                    {u.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+
           <TextField
             label="Notes"
             value={notes}
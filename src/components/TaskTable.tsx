@@ -1,96 +1,606 @@
-import { useMemo, useState } from 'react';
+import { KeyboardEvent, MouseEvent, ReactNode, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Box,
   Button,
   Card,
   CardContent,
+  Checkbox,
   IconButton,
+  InputBase,
+  LinearProgress,
+  ListItemText,
+  Menu,
+  MenuItem,
+  NativeSelect,
   Stack,
   Table,
   TableBody,
   TableCell,
   TableContainer,
   TableHead,
+  TablePagination,
   TableRow,
+  TableSortLabel,
   Tooltip,
   Typography,
 } from '@mui/material';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
+import ViewColumnIcon from '@mui/icons-material/ViewColumn';
+import RepeatIcon from '@mui/icons-material/Repeat';
 
-import { DerivedTask, Task, TaskInput } from '@/types';
+import { DerivedTask, Priority, Status, Subtask, Task, TaskInput } from '@/types';
+import type { TaskBatch } from '@/context/TasksContext';
+import { SortKey, SortRule, withDerived } from '@/utils/logic';
+import {
+  EditableKey,
+  cellDraft,
+  isEditable,
+  parseCell,
+} from '@/utils/cellEdit';
+import { PRIORITIES } from '@/utils/validation';
+import { allowedStages, stageNames } from '@/utils/workflow';
+import { checklistProgress } from '@/utils/subtasks';
+import { useTasksContext } from '@/context/TasksContext';
+import { normalizeColumns } from '@/utils/views';
+import { formatDate, formatDay } from '@/utils/dates';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
 import TaskForm from './TaskForm';
 import TaskDetailsDialog from './TaskDetailsDialog';
+import BulkActionsBar from './BulkActionsBar';
+import DueBadge from './DueBadge';
+import UserAvatar from './UserAvatar';
 
 interface Props {
   tasks: DerivedTask[];
+  /** Titles of every task (not just the filtered ones) for uniqueness checks. */
+  existingTitles: string[];
   onAdd: (payload: TaskInput) => void;
   onUpdate: (id: string, patch: Partial<Task>) => void;
   onDelete: (id: string) => void;
+  /** Active sort rules; empty means the Recommended order. */
+  sort: SortRule[];
+  onSortChange: (sort: SortRule[]) => void;
+  /** Visible columns; the title column is always shown. */
+  visibleColumns: SortKey[];
+  onColumnsChange: (columns: SortKey[]) => void;
+  /** Bulk actions run as one batch so they undo in a single step. */
+  onApplyBatch: (label: string, batch: TaskBatch) => void;
+  onExportSelection: (tasks: DerivedTask[]) => void;
+}
+
+/** A timestamp shown as a date in the active user's timezone. */
+function DateText({ iso }: { iso?: string }) {
+  const { timeZone } = useDateSettings();
+  return <>{formatDate(iso, timeZone)}</>;
+}
+
+/** Share of checklist items done; empty for tasks without a checklist. */
+function ChecklistBar({ subtasks }: { subtasks?: Subtask[] }) {
+  if (!subtasks?.length) return null;
+  const { done, total, pct } = checklistProgress(subtasks);
+  return (
+    <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 96 }}>
+      <LinearProgress variant="determinate" value={pct} sx={{ flex: 1, height: 6, borderRadius: 3 }} />
+      <Typography variant="caption" color="text.secondary" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+        {done}/{total}
+      </Typography>
+    </Stack>
+  );
+}
+
+const columns: Array<{ key: SortKey; label: string; align?: 'right'; render: (t: DerivedTask) => ReactNode }> = [
+  {
+    key: 'title',
+    label: 'Title',
+    render: t =>
+      t.templateId ? (
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          <span>{t.title}</span>
+          <Tooltip title="Created from a recurring template">
+            <RepeatIcon fontSize="inherit" color="action" />
+          </Tooltip>
+        </Stack>
+      ) : (
+        t.title
+      ),
+  },
+  { key: 'revenue', label: 'Revenue', align: 'right', render: t => `$${t.revenue}` },
+  { key: 'timeTaken', label: 'Time', align: 'right', render: t => t.timeTaken },
+  { key: 'roi', label: 'ROI', align: 'right', render: t => t.roi },
+  { key: 'priority', label: 'Priority', render: t => t.priority },
+  { key: 'status', label: 'Status', render: t => t.status },
+  { key: 'subtasks', label: 'Checklist', render: t => <ChecklistBar subtasks={t.subtasks} /> },
+  {
+    key: 'dueDate',
+    label: 'Due',
+    render: t => (
+      <Stack direction="row" spacing={1} alignItems="center">
+        <span>{formatDay(t.dueDate)}</span>
+        <DueBadge task={t} />
+      </Stack>
+    ),
+  },
+  { key: 'assigneeId', label: 'Owner', render: t => <UserAvatar userId={t.assigneeId} /> },
+  { key: 'createdAt', label: 'Created', render: t => <DateText iso={t.createdAt} /> },
+  { key: 'completedAt', label: 'Completed', render: t => <DateText iso={t.completedAt} /> },
+];
+
+const defaultDir = (key: SortKey): SortRule['dir'] =>
+  key === 'title' || key === 'status' || key === 'dueDate' ? 'asc' : 'desc';
+
+/**
+ * Plain click sorts by one column (toggling direction if already sorted by
+ * it). Shift-click adds the column as a further tie-breaker, flips it, and
+ * removes it on the third click.
+ */
+function nextSort(sort: SortRule[], key: SortKey, multi: boolean): SortRule[] {
+  const existing = sort.find(r => r.key === key);
+  const flipped = (r: SortRule): SortRule => ({ key, dir: r.dir === 'asc' ? 'desc' : 'asc' });
+  if (!multi) {
+    return existing && sort.length === 1 ? [flipped(existing)] : [{ key, dir: defaultDir(key) }];
+  }
+  if (!existing) return [...sort, { key, dir: defaultDir(key) }];
+  if (existing.dir === defaultDir(key)) return sort.map(r => (r.key === key ? flipped(r) : r));
+  return sort.filter(r => r.key !== key);
 }
 
+// Rows are fixed-height (small cells, nowrap) so windowing can compute offsets.
+const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = 560;
+const VIRTUALIZE_ABOVE = 100;
+const PAGE_SIZES = [25, 50, 100, { label: 'All', value: -1 }];
+
+type Move = 'up' | 'down' | 'left' | 'right' | 'next' | 'prev';
+
+const plural = (n: number) => `${n} task${n === 1 ? '' : 's'}`;
+
 export default function TaskTable({
   tasks,
+  existingTitles,
   onAdd,
   onUpdate,
   onDelete,
+  sort,
+  onSortChange,
+  visibleColumns,
+  onColumnsChange,
+  onApplyBatch,
+  onExportSelection,
 }: Props) {
+  const { workflow } = useTasksContext();
   const [openForm, setOpenForm] = useState(false);
   const [editing, setEditing] = useState<Task | null>(null);
-  const [details, setDetails] = useState<Task | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(-1);
+  const [columnsAnchor, setColumnsAnchor] = useState<HTMLElement | null>(null);
+
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  // Row index of the last checkbox click, for shift-click ranges.
+  const anchor = useRef<number | null>(null);
+
+  // Spreadsheet-style cursor. Tracked by task id so it follows the row when
+  // an edit re-sorts the table.
+  const [active, setActive] = useState<{ id: string; col: SortKey } | null>(null);
+  const [cellEdit, setCellEdit] = useState<{ draft: string; error: string | null } | null>(null);
+  // Mirrors "is editing" synchronously so a blur after Esc/Enter is ignored.
+  const editingCell = useRef(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const shownColumns = columns.filter(c => visibleColumns.includes(c.key));
 
-  const existingTitles = useMemo(
-    () => tasks.map(t => t.title),
-    [tasks],
+  const pageCount = pageSize > 0 ? Math.max(1, Math.ceil(tasks.length / pageSize)) : 1;
+  const safePage = Math.min(page, pageCount - 1);
+  const pageRows = useMemo(
+    () => (pageSize > 0 ? tasks.slice(safePage * pageSize, (safePage + 1) * pageSize) : tasks),
+    [tasks, pageSize, safePage],
   );
 
+  const virtual = useVirtualRows({
+    count: pageRows.length,
+    rowHeight: ROW_HEIGHT,
+    viewportHeight: VIEWPORT_HEIGHT,
+    enabled: pageRows.length > VIRTUALIZE_ABOVE,
+  });
+  const visibleRows = pageRows.slice(virtual.start, virtual.end);
+
+  // Tasks filtered out of view drop out of the selection so bulk actions
+  // never touch rows the user can't see.
+  useEffect(() => {
+    setSelected(prev => {
+      const ids = new Set(tasks.map(t => t.id));
+      const next = new Set([...prev].filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [tasks]);
+
+  const selectedTasks = useMemo(() => tasks.filter(t => selected.has(t.id)), [tasks, selected]);
+  const pageSelected = pageRows.filter(t => selected.has(t.id)).length;
+
+  const toggleRow = (t: DerivedTask, e: MouseEvent) => {
+    e.stopPropagation();
+    const index = tasks.indexOf(t);
+    const checked = !selected.has(t.id);
+    const next = new Set(selected);
+    if (e.shiftKey && anchor.current !== null) {
+      const [from, to] = [Math.min(anchor.current, index), Math.max(anchor.current, index)];
+      tasks.slice(from, to + 1).forEach(r => (checked ? next.add(r.id) : next.delete(r.id)));
+    } else if (checked) {
+      next.add(t.id);
+    } else {
+      next.delete(t.id);
+    }
+    anchor.current = index;
+    setSelected(next);
+  };
+
+  const togglePage = () => {
+    const next = new Set(selected);
+    const all = pageSelected === pageRows.length;
+    pageRows.forEach(t => (all ? next.delete(t.id) : next.add(t.id)));
+    setSelected(next);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    anchor.current = null;
+  };
+
+  const bulkUpdate = (label: string, patch: (t: DerivedTask) => Partial<Task>) =>
+    onApplyBatch(label, { update: selectedTasks.map(t => ({ id: t.id, patch: patch(t) })) });
+
+  const bulkDelete = () => {
+    onApplyBatch(`delete ${plural(selectedTasks.length)}`, { remove: selectedTasks.map(t => t.id) });
+    clearSelection();
+  };
+
+  /* ---------- inline editing ---------- */
+
+  const focusCell = (id: string, col: SortKey) => {
+    setActive({ id, col });
+    const el = containerRef.current;
+    const row = pageRows.findIndex(t => t.id === id);
+    if (el && row >= 0 && el.scrollHeight > el.clientHeight) {
+      // Scroll windowed rows into range first; the sticky header takes one row.
+      const top = row * ROW_HEIGHT;
+      if (top < el.scrollTop) el.scrollTop = top;
+      else if (top + 2 * ROW_HEIGHT > el.scrollTop + el.clientHeight) {
+        el.scrollTop = top + 2 * ROW_HEIGHT - el.clientHeight;
+      }
+    }
+    requestAnimationFrame(() =>
+      requestAnimationFrame(() => {
+        el?.querySelector<HTMLElement>(`[data-cell="${CSS.escape(`${id}:${col}`)}"]`)?.focus();
+      }),
+    );
+  };
+
+  const moveFrom = (t: DerivedTask, col: SortKey, move: Move) => {
+    const row = pageRows.indexOf(t);
+    const colIndex = shownColumns.findIndex(c => c.key === col);
+    let r = row;
+    let c = colIndex;
+    if (move === 'up') r--;
+    if (move === 'down') r++;
+    if (move === 'left') c--;
+    if (move === 'right') c++;
+    if (move === 'next' || move === 'prev') {
+      // Tab walks editable cells only, wrapping onto the next/previous row.
+      const editable = shownColumns.map((x, i) => (isEditable(x.key) ? i : -1)).filter(i => i >= 0);
+      const at = editable.indexOf(colIndex);
+      const step = move === 'next' ? 1 : -1;
+      let nextAt = at + step;
+      if (nextAt >= editable.length) {
+        nextAt = 0;
+        r++;
+      } else if (nextAt < 0) {
+        nextAt = editable.length - 1;
+        r--;
+      }
+      c = editable[nextAt];
+    }
+    r = Math.min(Math.max(r, 0), pageRows.length - 1);
+    c = Math.min(Math.max(c, 0), shownColumns.length - 1);
+    focusCell(pageRows[r].id, shownColumns[c].key);
+  };
+
+  const startEdit = (t: DerivedTask, col: EditableKey, draft = cellDraft(t, col)) => {
+    editingCell.current = true;
+    setActive({ id: t.id, col });
+    setCellEdit({ draft, error: parseCell(t, col, draft, existingTitles, workflow).error });
+  };
+
+  const cancelEdit = (t: DerivedTask, col: SortKey) => {
+    editingCell.current = false;
+    setCellEdit(null);
+    focusCell(t.id, col);
+  };
+
+  /** Returns false (and keeps editing) when the draft is invalid. */
+  const commitEdit = (t: DerivedTask, col: EditableKey, then?: Move): boolean => {
+    if (!cellEdit || !editingCell.current) return true;
+    const result = parseCell(t, col, cellEdit.draft, existingTitles, workflow);
+    if (result.error !== null) {
+      setCellEdit({ ...cellEdit, error: result.error });
+      return false;
+    }
+    editingCell.current = false;
+    setCellEdit(null);
+    if (Object.keys(result.patch).length) onUpdate(t.id, result.patch);
+    if (then) moveFrom(t, col, then);
+    else focusCell(t.id, col);
+    return true;
+  };
+
+  const handleCellKeyDown = (t: DerivedTask, col: SortKey) => (e: KeyboardEvent<HTMLElement>) => {
+    if (cellEdit) return;
+    const moves: Record<string, Move> = {
+      ArrowUp: 'up',
+      ArrowDown: 'down',
+      ArrowLeft: 'left',
+      ArrowRight: 'right',
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      moveFrom(t, col, moves[e.key]);
+    } else if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      if (isEditable(col)) startEdit(t, col);
+      else if (e.key === 'Enter') setDetailsId(t.id);
+    } else if (
+      isEditable(col) &&
+      col !== 'priority' &&
+      col !== 'status' &&
+      e.key.length === 1 &&
+      !e.ctrlKey &&
+      !e.metaKey &&
+      !e.altKey
+    ) {
+      // Typing over a cell replaces its value, as in a spreadsheet.
+      e.preventDefault();
+      startEdit(t, col, e.key);
+    }
+  };
+
+  const handleEditorKeyDown = (t: DerivedTask, col: EditableKey) => (e: KeyboardEvent<HTMLElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit(t, col, 'down');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commitEdit(t, col, e.shiftKey ? 'prev' : 'next');
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancelEdit(t, col);
+    }
+  };
+
+  const renderEditor = (t: DerivedTask, col: EditableKey) => {
+    const edit = cellEdit!;
+    const options = col === 'priority' ? PRIORITIES : col === 'status' ? allowedStages(workflow, t.status) : null;
+    const shared = {
+      autoFocus: true,
+      fullWidth: true,
+      value: edit.draft,
+      onChange: (e: { target: { value: string } }) => {
+        const draft = e.target.value;
+        setCellEdit({ draft, error: parseCell(t, col, draft, existingTitles, workflow).error });
+      },
+      onKeyDown: handleEditorKeyDown(t, col),
+      onBlur: () => {
+        // Clicking away keeps a valid edit and drops an invalid one.
+        if (editingCell.current && !commitEdit(t, col)) cancelEdit(t, col);
+      },
+      onClick: (e: MouseEvent) => e.stopPropagation(),
+      sx: {
+        fontSize: 'inherit',
+        px: 0.5,
+        borderRadius: 0.5,
+        outline: '2px solid',
+        outlineColor: edit.error ? 'error.main' : 'primary.main',
+        '& input': { textAlign: col === 'revenue' || col === 'timeTaken' ? 'right' : 'left' },
+      },
+    };
+    return (
+      <Tooltip open={!!edit.error} title={edit.error ?? ''} placement="top" arrow>
+        {options ? (
+          <NativeSelect {...shared} input={<InputBase />} inputProps={{ 'aria-label': `Edit ${col}` }}>
+            {options.map(o => (
+              <option key={o} value={o}>{o}</option>
+            ))}
+          </NativeSelect>
+        ) : (
+          <InputBase
+            {...shared}
+            inputProps={{
+              'aria-label': `Edit ${col}`,
+              'aria-invalid': !!edit.error,
+              inputMode: col === 'title' ? 'text' : 'decimal',
+            }}
+          />
+        )}
+      </Tooltip>
+    );
+  };
+
+  // Live ROI preview while revenue or time is being edited.
+  const previewRow = (t: DerivedTask): DerivedTask => {
+    if (!cellEdit || cellEdit.error || active?.id !== t.id) return t;
+    if (active.col !== 'revenue' && active.col !== 'timeTaken') return t;
+    return withDerived({ ...t, [active.col]: Number(cellEdit.draft) });
+  };
+
   return (
     <Card>
       <CardContent>
         <Stack direction="row" justifyContent="space-between" mb={2}>
-          <Typography fontWeight={700}>Tasks</Typography>
-          <Button
-            startIcon={<AddIcon />}
-            variant="contained"
-            onClick={() => {
-              setEditing(null);
-              setOpenForm(true);
-            }}
-          >
-            Add Task
-          </Button>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Typography fontWeight={700}>Tasks</Typography>
+            <Button
+              size="small"
+              variant={sort.length ? 'text' : 'outlined'}
+              onClick={() => onSortChange([])}
+            >
+              Recommended
+            </Button>
+          </Stack>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Tooltip title="Columns">
+              <IconButton onClick={e => setColumnsAnchor(e.currentTarget)} aria-label="Choose columns">
+                <ViewColumnIcon />
+              </IconButton>
+            </Tooltip>
+            <Button
+              startIcon={<AddIcon />}
+              variant="contained"
+              onClick={() => {
+                setEditing(null);
+                setOpenForm(true);
+              }}
+            >
+              Add Task
+            </Button>
+          </Stack>
         </Stack>
 
-        <TableContainer>
-          <Table>
+        <Menu anchorEl={columnsAnchor} open={!!columnsAnchor} onClose={() => setColumnsAnchor(null)}>
+          {columns.map(c => (
+            <MenuItem
+              key={c.key}
+              dense
+              disabled={c.key === 'title'}
+              onClick={() =>
+                onColumnsChange(
+                  normalizeColumns(
+                    visibleColumns.includes(c.key)
+                      ? visibleColumns.filter(k => k !== c.key)
+                      : [...visibleColumns, c.key],
+                  ),
+                )
+              }
+            >
+              <Checkbox size="small" checked={visibleColumns.includes(c.key)} sx={{ p: 0, mr: 1 }} />
+              <ListItemText primary={c.label} />
+            </MenuItem>
+          ))}
+        </Menu>
+
+        {selectedTasks.length > 0 && (
+          <BulkActionsBar
+            count={selectedTasks.length}
+            total={tasks.length}
+            onSelectAll={() => setSelected(new Set(tasks.map(t => t.id)))}
+            onClear={clearSelection}
+            statuses={stageNames(workflow)}
+            onStatus={(status: Status) =>
+              bulkUpdate(`set status to ${status} on ${plural(selectedTasks.length)}`, () => ({ status }))
+            }
+            onPriority={(priority: Priority) =>
+              bulkUpdate(`set priority to ${priority} on ${plural(selectedTasks.length)}`, () => ({ priority }))
+            }
+            onAppendNote={text =>
+              bulkUpdate(`append note to ${plural(selectedTasks.length)}`, t => ({
+                notes: t.notes ? `${t.notes}\n${text}` : text,
+              }))
+            }
+            onExport={() => onExportSelection(selectedTasks)}
+            onDelete={bulkDelete}
+          />
+        )}
+
+        <TableContainer
+          onScroll={virtual.onScroll}
+          sx={{ maxHeight: pageRows.length > VIRTUALIZE_ABOVE ? VIEWPORT_HEIGHT : undefined }}
+        >
+          <Table size="small" stickyHeader>
             <TableHead>
               <TableRow>
-                <TableCell>Title</TableCell>
-                <TableCell align="right">Revenue</TableCell>
-                <TableCell align="right">Time</TableCell>
-                <TableCell align="right">ROI</TableCell>
-                <TableCell>Priority</TableCell>
-                <TableCell>Status</TableCell>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={pageRows.length > 0 && pageSelected === pageRows.length}
+                    indeterminate={pageSelected > 0 && pageSelected < pageRows.length}
+                    onChange={togglePage}
+                    inputProps={{ 'aria-label': 'Select all on this page' }}
+                  />
+                </TableCell>
+                {shownColumns.map(c => {
+                  const rank = sort.findIndex(r => r.key === c.key);
+                  const rule = sort[rank];
+                  return (
+                    <TableCell
+                      key={c.key}
+                      align={c.align}
+                      sortDirection={rule ? rule.dir : false}
+                    >
+                      <TableSortLabel
+                        active={!!rule}
+                        direction={rule?.dir ?? defaultDir(c.key)}
+                        onClick={e => onSortChange(nextSort(sort, c.key, e.shiftKey))}
+                      >
+                        {c.label}
+                        {rule && sort.length > 1 && (
+                          <Box component="sup" ml={0.25}>{rank + 1}</Box>
+                        )}
+                      </TableSortLabel>
+                    </TableCell>
+                  );
+                })}
                 <TableCell align="right">Actions</TableCell>
               </TableRow>
             </TableHead>
 
             <TableBody>
-              {tasks.map(t => (
+              {virtual.padTop > 0 && (
+                <TableRow sx={{ height: virtual.padTop }} aria-hidden />
+              )}
+              {visibleRows.map(t => (
                 <TableRow
                   key={t.id}
                   hover
-                  sx={{ cursor: 'pointer' }}
-                  onClick={() => setDetails(t)}
+                  selected={selected.has(t.id)}
+                  sx={{ cursor: 'pointer', height: ROW_HEIGHT }}
+                  onClick={() => setDetailsId(t.id)}
                 >
-                  <TableCell>{t.title}</TableCell>
-                  <TableCell align="right">${t.revenue}</TableCell>
-                  <TableCell align="right">{t.timeTaken}</TableCell>
-                  <TableCell align="right">{t.roi}</TableCell>
-                  <TableCell>{t.priority}</TableCell>
-                  <TableCell>{t.status}</TableCell>
-
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      size="small"
+                      checked={selected.has(t.id)}
+                      onClick={e => toggleRow(t, e)}
+                      inputProps={{ 'aria-label': `Select ${t.title}` }}
+                    />
+                  </TableCell>
+                  {shownColumns.map(c => {
+                    const isActive = active?.id === t.id && active.col === c.key;
+                    const editable = isEditable(c.key);
+                    const shown = c.key === 'roi' ? previewRow(t) : t;
+                    return (
+                      <TableCell
+                        key={c.key}
+                        align={c.align}
+                        data-cell={`${t.id}:${c.key}`}
+                        tabIndex={isActive || (!active && t === pageRows[0] && c.key === 'title') ? 0 : -1}
+                        onFocus={() => !isActive && setActive({ id: t.id, col: c.key })}
+                        onKeyDown={handleCellKeyDown(t, c.key)}
+                        onClick={editable ? e => e.stopPropagation() : undefined}
+                        onDoubleClick={editable ? () => startEdit(t, c.key as EditableKey) : undefined}
+                        title={c.key === 'title' ? t.title : undefined}
+                        sx={{
+                          cursor: editable ? 'cell' : undefined,
+                          '&:focus': { outline: '2px solid', outlineColor: 'primary.light', outlineOffset: -2 },
+                          ...(c.key === 'title'
+                            ? { maxWidth: 280, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }
+                            : {}),
+                        }}
+                      >
+                        {isActive && cellEdit && editable ? renderEditor(t, c.key as EditableKey) : c.render(shown)}
+                      </TableCell>
+                    );
+                  })}
                   <TableCell align="right">
                     <Tooltip title="Edit">
                       <IconButton
@@ -120,10 +630,13 @@ export default function TaskTable({
                   </TableCell>
                 </TableRow>
               ))}
+              {virtual.padBottom > 0 && (
+                <TableRow sx={{ height: virtual.padBottom }} aria-hidden />
+              )}
 
               {tasks.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={7}>
+                  <TableCell colSpan={shownColumns.length + 2}>
                     <Box py={4} textAlign="center">
                       No tasks yet
                     </Box>
@@ -133,6 +646,18 @@ export default function TaskTable({
             </TableBody>
           </Table>
         </TableContainer>
+        <TablePagination
+          component="div"
+          count={tasks.length}
+          page={safePage}
+          onPageChange={(_, p) => setPage(p)}
+          rowsPerPage={pageSize}
+          rowsPerPageOptions={PAGE_SIZES}
+          onRowsPerPageChange={e => {
+            setPageSize(Number(e.target.value));
+            setPage(0);
+          }}
+        />
       </CardContent>
 
       {/* Add / Edit */}
@@ -153,9 +678,9 @@ export default function TaskTable({
 
       {/* View */}
       <TaskDetailsDialog
-        open={!!details}
-        task={details}
-        onClose={() => setDetails(null)}
+        open={!!detailsId}
+        taskId={detailsId}
+        onClose={() => setDetailsId(null)}
         onSave={onUpdate}
       />
     </Card>
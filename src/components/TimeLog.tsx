@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+
+import { Task, TimeEntry } from '@/types';
+import { useTasksContext } from '@/context/TasksContext';
+import { useTimer, useTimerElapsed } from '@/context/TimerContext';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { formatDateTime } from '@/utils/dates';
+import { formatClock, formatDuration } from '@/utils/timeTracking';
+import UserAvatar from './UserAvatar';
+
+interface Props {
+  task: Task;
+}
+
+function NoteCell({ entry, onCommit }: { entry: TimeEntry; onCommit: (note: string | undefined) => void }) {
+  const [draft, setDraft] = useState(entry.note ?? '');
+
+  useEffect(() => {
+    setDraft(entry.note ?? '');
+  }, [entry.note]);
+
+  const commit = () => {
+    const note = draft.trim() || undefined;
+    if (note !== entry.note) onCommit(note);
+  };
+
+  return (
+    <TextField
+      variant="standard"
+      size="small"
+      placeholder="Add note"
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+      inputProps={{ 'aria-label': 'Entry note' }}
+      fullWidth
+    />
+  );
+}
+
+/** Timer controls and the time entries logged against a task. Edits apply immediately. */
+export default function TimeLog({ task }: Props) {
+  const { updateTask } = useTasksContext();
+  const { timer, task: timedTask, start, pause, resume, stop } = useTimer();
+  const { timeZone } = useDateSettings();
+  const elapsed = useTimerElapsed(timer);
+  const entries = task.timeEntries ?? [];
+  const total = entries.reduce((s, e) => s + e.seconds, 0);
+  const mine = timer?.taskId === task.id;
+  const running = mine && !!timer?.runningSince;
+
+  const setEntries = (next: TimeEntry[]) => updateTask(task.id, { timeEntries: next.length ? next : undefined });
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <Typography variant="subtitle2">Time log</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {entries.length ? `${formatDuration(total)} in ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}` : 'No time logged'}
+        </Typography>
+        <Box flex={1} />
+        <Stack direction="row" alignItems="center" spacing={0.5}>
+          {mine && (
+            <Typography variant="body2" fontWeight={700} sx={{ fontVariantNumeric: 'tabular-nums', mr: 0.5 }}>
+              {formatClock(elapsed)}
+            </Typography>
+          )}
+          {mine ? (
+            <>
+              <Button size="small" startIcon={running ? <PauseIcon /> : <PlayArrowIcon />} onClick={running ? pause : resume}>
+                {running ? 'Pause' : 'Resume'}
+              </Button>
+              <Button size="small" startIcon={<StopIcon />} onClick={stop}>
+                Stop
+              </Button>
+            </>
+          ) : (
+            <Tooltip title={timedTask ? `Stops and logs the timer on "${timedTask.title}"` : ''}>
+              <Button size="small" variant="outlined" startIcon={<PlayArrowIcon />} onClick={() => start(task.id)}>
+                Start timer
+              </Button>
+            </Tooltip>
+          )}
+        </Stack>
+      </Stack>
+
+      {entries.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Start</TableCell>
+              <TableCell>End</TableCell>
+              <TableCell align="right">Duration</TableCell>
+              <TableCell sx={{ width: '35%' }}>Note</TableCell>
+              <TableCell padding="checkbox" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map(e => (
+              <TableRow key={e.id}>
+                <TableCell>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <UserAvatar userId={e.userId} size={20} />
+                    <span>{formatDateTime(e.start, timeZone)}</span>
+                  </Stack>
+                </TableCell>
+                <TableCell>{formatDateTime(e.end, timeZone)}</TableCell>
+                <TableCell align="right">{formatDuration(e.seconds)}</TableCell>
+                <TableCell>
+                  <NoteCell
+                    entry={e}
+                    onCommit={note => setEntries(entries.map(x => (x.id === e.id ? { ...x, note } : x)))}
+                  />
+                </TableCell>
+                <TableCell padding="checkbox">
+                  <Tooltip title="Delete entry">
+                    <IconButton
+                      size="small"
+                      onClick={() => setEntries(entries.filter(x => x.id !== e.id))}
+                      aria-label="Delete entry"
+                    >
+                      <DeleteOutlineIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Stack>
+  );
+}
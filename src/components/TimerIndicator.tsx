@@ -0,0 +1,46 @@
+import { Box, ButtonBase, IconButton, Paper, Stack, Tooltip, Typography } from '@mui/material';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+
+import { useTimer, useTimerElapsed } from '@/context/TimerContext';
+import { formatClock } from '@/utils/timeTracking';
+
+interface Props {
+  onOpenTask: (id: string) => void;
+}
+
+/** Header readout of the active user's running timer; hidden when there is none. */
+export default function TimerIndicator({ onOpenTask }: Props) {
+  const { timer, task, pause, resume, stop } = useTimer();
+  const elapsed = useTimerElapsed(timer);
+  if (!timer || !task) return null;
+  const running = !!timer.runningSince;
+
+  return (
+    <Paper variant="outlined" sx={{ px: 1, py: 0.25, borderColor: running ? 'primary.main' : 'divider' }}>
+      <Stack direction="row" alignItems="center" spacing={0.5}>
+        <Tooltip title={running ? 'Pause' : 'Resume'}>
+          <IconButton size="small" onClick={running ? pause : resume} aria-label={running ? 'Pause timer' : 'Resume timer'}>
+            {running ? <PauseIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+          </IconButton>
+        </Tooltip>
+        <ButtonBase onClick={() => onOpenTask(task.id)} sx={{ borderRadius: 1, px: 0.5 }}>
+          <Box textAlign="left">
+            <Typography variant="caption" color="text.secondary" noWrap display="block" sx={{ maxWidth: 160 }}>
+              {task.title}
+            </Typography>
+            <Typography variant="body2" fontWeight={700} sx={{ fontVariantNumeric: 'tabular-nums' }}>
+              {formatClock(elapsed)}
+            </Typography>
+          </Box>
+        </ButtonBase>
+        <Tooltip title="Stop and log time">
+          <IconButton size="small" onClick={stop} aria-label="Stop timer">
+            <StopIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+    </Paper>
+  );
+}
@@ -2,17 +2,22 @@ import { Snackbar, Button } from '@mui/material';
 
 interface Props {
   open: boolean;
+  /** Description of the action that will be undone. */
+  label: string | null;
   onClose: () => void;
   onUndo: () => void;
 }
 
-export default function UndoSnackbar({ open, onClose, onUndo }: Props) {
+export default function UndoSnackbar({ open, label, onClose, onUndo }: Props) {
   return (
     <Snackbar
-      open={open}
-      onClose={onClose}
-      autoHideDuration={4000}
-      message="Task deleted"
+      open={open && !!label}
+      onClose={(_, reason) => {
+        // Keep the undo affordance while the user clicks around the page.
+        if (reason !== 'clickaway') onClose();
+      }}
+      autoHideDuration={8000}
+      message={label ? `Undo: ${label}` : ''}
       action={
         <Button color="secondary" size="small" onClick={onUndo}>
           Undo
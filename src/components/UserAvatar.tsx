@@ -0,0 +1,49 @@
+import { Avatar, Tooltip } from '@mui/material';
+
+import { User, useUser } from '@/context/UserContext';
+
+interface Props {
+  /** Roster id; unknown or missing ids render a neutral placeholder. */
+  userId?: string;
+  size?: number;
+}
+
+const COLORS = ['#4F6BED', '#22A699', '#F59E0B', '#8B5CF6', '#EF4444', '#0EA5E9'];
+
+const initials = (name: string) =>
+  name
+    .replace(/\(.*\)/, '')
+    .trim()
+    .split(/\s+/)
+    .map(p => p[0])
+    .slice(0, 2)
+    .join('')
+    .toUpperCase();
+
+// Stable per-id colour so the same person looks the same everywhere.
+export function avatarColor(user: Pick<User, 'id'>): string {
+  let hash = 0;
+  for (const ch of user.id) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return COLORS[Math.abs(hash) % COLORS.length];
+}
+
+export default function UserAvatar({ userId, size = 28 }: Props) {
+  const { users } = useUser();
+  const user = users.find(u => u.id === userId);
+  const sx = { width: size, height: size, fontSize: size * 0.42 };
+
+  if (!user) {
+    return (
+      <Tooltip title={userId ? `Unknown user (${userId})` : 'Unassigned'}>
+        <Avatar sx={sx}>{userId ? '?' : '–'}</Avatar>
+      </Tooltip>
+    );
+  }
+  return (
+    <Tooltip title={user.name}>
+      <Avatar src={user.avatarUrl} alt={user.name} sx={{ ...sx, bgcolor: avatarColor(user) }}>
+        {initials(user.name)}
+      </Avatar>
+    </Tooltip>
+  );
+}
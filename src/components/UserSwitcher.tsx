@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Divider, IconButton, ListItemIcon, ListItemText, ListSubheader, Menu, MenuItem, Tooltip } from '@mui/material';
+import CheckIcon from '@mui/icons-material/Check';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+
+import { useUser } from '@/context/UserContext';
+import UserAvatar from './UserAvatar';
+import DateSettingsDialog from './DateSettingsDialog';
+
+export default function UserSwitcher() {
+  const { user, users, switchUser } = useUser();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  return (
+    <>
+      <Tooltip title={`Signed in as ${user.name}`}>
+        <IconButton onClick={e => setAnchor(e.currentTarget)} aria-label="Switch user" sx={{ p: 0.25 }}>
+          <UserAvatar userId={user.id} size={40} />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchor}
+        open={!!anchor}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <ListSubheader>Switch user</ListSubheader>
+        {users.map(u => (
+          <MenuItem
+            key={u.id}
+            selected={u.id === user.id}
+            onClick={() => {
+              switchUser(u.id);
+              setAnchor(null);
+            }}
+          >
+            <ListItemIcon>
+              <UserAvatar userId={u.id} size={24} />
+            </ListItemIcon>
+            <ListItemText primary={u.name} secondary={u.timezone} />
+            {u.id === user.id && <CheckIcon fontSize="small" sx={{ ml: 2 }} />}
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setSettingsOpen(true);
+            setAnchor(null);
+          }}
+        >
+          <ListItemIcon>
+            <ScheduleIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Date & time settings…" />
+        </MenuItem>
+      </Menu>
+      <DateSettingsDialog open={settingsOpen} onClose={() => setSettingsOpen(false)} />
+    </>
+  );
+}
@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+
+import { Status } from '@/types';
+import { useTasksContext } from '@/context/TasksContext';
+import {
+  StageOutcome,
+  WORKFLOW_PRESETS,
+  Workflow,
+  mapStatus,
+  validateWorkflow,
+} from '@/utils/workflow';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Rows are keyed independently of their names so renaming a stage keeps its
+// transitions and carries its tasks along.
+interface StageRow {
+  key: string;
+  /** Name in the saved workflow; unset for stages added here. */
+  origin?: Status;
+  name: string;
+  /** Percent, as typed. */
+  probability: string;
+  outcome: StageOutcome | 'open';
+}
+
+interface Draft {
+  name: string;
+  rows: StageRow[];
+  /** Keys each row may move to; a row without an entry may move anywhere. */
+  transitions: Record<string, string[]> | null;
+  completeOnChecklist: boolean;
+}
+
+let nextKey = 0;
+const rowKey = () => `stage-${nextKey++}`;
+
+function toDraft(workflow: Workflow, keepOrigins: boolean): Draft {
+  const rows = workflow.stages.map<StageRow>(s => ({
+    key: rowKey(),
+    origin: keepOrigins ? s.name : undefined,
+    name: s.name,
+    probability: String(Math.round(s.probability * 100)),
+    outcome: s.outcome ?? 'open',
+  }));
+  const keyOf = new Map(rows.map(r => [r.name, r.key]));
+  const transitions = workflow.transitions
+    ? Object.fromEntries(
+        Object.entries(workflow.transitions)
+          .filter(([from]) => keyOf.has(from))
+          .map(([from, targets]) => [keyOf.get(from)!, targets.flatMap(t => keyOf.get(t) ?? [])]),
+      )
+    : null;
+  return { name: workflow.name, rows, transitions, completeOnChecklist: !!workflow.completeOnChecklist };
+}
+
+function fromDraft(draft: Draft): Workflow {
+  const nameOf = new Map(draft.rows.map(r => [r.key, r.name.trim()]));
+  const workflow: Workflow = {
+    name: draft.name.trim(),
+    stages: draft.rows.map(r => ({
+      name: r.name.trim(),
+      probability: r.probability.trim() === '' ? NaN : Number(r.probability) / 100,
+      ...(r.outcome === 'open' ? {} : { outcome: r.outcome }),
+    })),
+  };
+  if (draft.completeOnChecklist) workflow.completeOnChecklist = true;
+  if (draft.transitions) {
+    workflow.transitions = Object.fromEntries(
+      draft.rows
+        .filter(r => draft.transitions![r.key])
+        .map(r => [nameOf.get(r.key)!, draft.transitions![r.key].flatMap(k => nameOf.get(k) ?? [])]),
+    );
+  }
+  return workflow;
+}
+
+/** Edits the workflow's stages, pipeline weights and allowed moves. */
+export default function WorkflowDialog({ open, onClose }: Props) {
+  const { tasks, workflow, setWorkflow } = useTasksContext();
+  const [draft, setDraft] = useState<Draft>(() => toDraft(workflow, true));
+
+  useEffect(() => {
+    if (open) setDraft(toDraft(workflow, true));
+  }, [open, workflow]);
+
+  const next = useMemo(() => fromDraft(draft), [draft]);
+  const errors = useMemo(() => validateWorkflow(next), [next]);
+  const renames = useMemo(
+    () =>
+      Object.fromEntries(
+        draft.rows.filter(r => r.origin !== undefined && r.origin !== r.name.trim()).map(r => [r.origin!, r.name.trim()]),
+      ),
+    [draft.rows],
+  );
+  const moving = useMemo(
+    () => (errors.length ? 0 : tasks.filter(t => mapStatus(t.status, workflow, next, renames) !== t.status).length),
+    [tasks, workflow, next, renames, errors.length],
+  );
+
+  const updateRow = (key: string, patch: Partial<StageRow>) =>
+    setDraft(d => ({ ...d, rows: d.rows.map(r => (r.key === key ? { ...r, ...patch } : r)) }));
+
+  const moveRow = (index: number, step: number) =>
+    setDraft(d => {
+      const rows = [...d.rows];
+      [rows[index], rows[index + step]] = [rows[index + step], rows[index]];
+      return { ...d, rows };
+    });
+
+  const removeRow = (key: string) =>
+    setDraft(d => {
+      const transitions = d.transitions
+        ? Object.fromEntries(
+            Object.entries(d.transitions)
+              .filter(([from]) => from !== key)
+              .map(([from, targets]) => [from, targets.filter(t => t !== key)]),
+          )
+        : null;
+      return { ...d, rows: d.rows.filter(r => r.key !== key), transitions };
+    });
+
+  const addRow = () =>
+    setDraft(d => ({
+      ...d,
+      rows: [...d.rows, { key: rowKey(), name: '', probability: '50', outcome: 'open' }],
+    }));
+
+  const allows = (from: string, to: string) => {
+    const targets = draft.transitions?.[from];
+    return from === to || !targets || targets.includes(to);
+  };
+
+  const toggleTransition = (from: string, to: string) =>
+    setDraft(d => {
+      const current = d.transitions?.[from] ?? d.rows.map(r => r.key).filter(k => k !== from);
+      const targets = current.includes(to) ? current.filter(k => k !== to) : [...current, to];
+      return { ...d, transitions: { ...d.transitions, [from]: targets } };
+    });
+
+  const label = (r: StageRow) => r.name.trim() || 'Untitled';
+  const wonStage = next.stages.find(s => s.outcome === 'won')?.name || 'the first won stage';
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Workflow</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} mt={1}>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              label="Name"
+              value={draft.name}
+              onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+              fullWidth
+            />
+            <TextField
+              select
+              label="Start from preset"
+              value=""
+              onChange={e => {
+                const preset = WORKFLOW_PRESETS.find(p => p.name === e.target.value);
+                if (preset) setDraft(d => ({ ...toDraft(preset, false), completeOnChecklist: d.completeOnChecklist }));
+              }}
+              sx={{ minWidth: 220 }}
+            >
+              {WORKFLOW_PRESETS.map(p => (
+                <MenuItem key={p.name} value={p.name}>
+                  {p.name} ({p.stages.map(s => s.name).join(' → ')})
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>Stages</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell sx={{ width: 140 }}>Win probability</TableCell>
+                  <TableCell sx={{ width: 140 }}>Outcome</TableCell>
+                  <TableCell sx={{ width: 120 }} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.rows.map((r, i) => (
+                  <TableRow key={r.key}>
+                    <TableCell>
+                      <TextField
+                        variant="standard"
+                        size="small"
+                        value={r.name}
+                        placeholder="Stage name"
+                        onChange={e => updateRow(r.key, { name: e.target.value })}
+                        helperText={r.origin !== undefined && r.origin !== r.name.trim() ? `Renamed from ${r.origin}` : undefined}
+                        inputProps={{ 'aria-label': 'Stage name' }}
+                        fullWidth
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        variant="standard"
+                        size="small"
+                        type="number"
+                        value={r.probability}
+                        onChange={e => updateRow(r.key, { probability: e.target.value })}
+                        InputProps={{ endAdornment: '%' }}
+                        inputProps={{ min: 0, max: 100, 'aria-label': 'Win probability' }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        select
+                        variant="standard"
+                        size="small"
+                        value={r.outcome}
+                        onChange={e => updateRow(r.key, { outcome: e.target.value as StageRow['outcome'] })}
+                        inputProps={{ 'aria-label': 'Outcome' }}
+                        fullWidth
+                      >
+                        <MenuItem value="open">Open</MenuItem>
+                        <MenuItem value="won">Closed won</MenuItem>
+                        <MenuItem value="lost">Closed lost</MenuItem>
+                      </TextField>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" disabled={i === 0} onClick={() => moveRow(i, -1)} aria-label="Move up">
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        disabled={i === draft.rows.length - 1}
+                        onClick={() => moveRow(i, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                      <Tooltip title="Delete stage">
+                        <IconButton size="small" onClick={() => removeRow(r.key)} aria-label="Delete stage">
+                          <DeleteOutlineIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button size="small" startIcon={<AddIcon />} onClick={addRow} sx={{ mt: 1 }}>
+              Add stage
+            </Button>
+          </Box>
+
+          <Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={!draft.transitions}
+                  onChange={e => setDraft(d => ({ ...d, transitions: e.target.checked ? null : {} }))}
+                />
+              }
+              label="Tasks may move between any stages"
+            />
+            {draft.transitions && draft.rows.length > 0 && (
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>From \ To</TableCell>
+                      {draft.rows.map(to => (
+                        <TableCell key={to.key} align="center">{label(to)}</TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {draft.rows.map(from => (
+                      <TableRow key={from.key}>
+                        <TableCell>{label(from)}</TableCell>
+                        {draft.rows.map(to => (
+                          <TableCell key={to.key} align="center" padding="checkbox">
+                            <Checkbox
+                              size="small"
+                              checked={allows(from.key, to.key)}
+                              disabled={from.key === to.key}
+                              onChange={() => toggleTransition(from.key, to.key)}
+                              inputProps={{ 'aria-label': `${label(from)} to ${label(to)}` }}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.completeOnChecklist}
+                onChange={e => setDraft(d => ({ ...d, completeOnChecklist: e.target.checked }))}
+              />
+            }
+            label={`Move tasks to ${wonStage} when their checklist is complete`}
+          />
+
+          {errors.length > 0 ? (
+            <Alert severity="error">
+              {errors.map(e => (
+                <div key={e}>{e}</div>
+              ))}
+            </Alert>
+          ) : (
+            moving > 0 && (
+              <Alert severity="info">
+                {moving} {moving === 1 ? 'task moves' : 'tasks move'} to a different stage. Undo history is cleared when stages
+                are removed or renamed.
+              </Alert>
+            )
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={errors.length > 0}
+          onClick={() => {
+            setWorkflow(next, renames);
+            onClose();
+          }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Stack,
+  Typography,
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+
+import { ActivityEvent, Task } from '@/types';
+import type { User } from '@/context/UserContext';
+import { readFileAsText } from '@/utils/csv';
+import { downloadBlob } from '@/utils/download';
+import { formatDateTime, todayKey } from '@/utils/dates';
+import { Workflow } from '@/utils/workflow';
+import { useRecurrence } from '@/context/RecurrenceContext';
+import { XLSX_MIME } from '@/utils/xlsx';
+import {
+  ParsedBackup,
+  WorkspaceBackup,
+  createBackup,
+  createXlsxReport,
+  parseBackup,
+  planRestore,
+} from '@/utils/workspace';
+
+export interface RestoreOptions {
+  mode: 'replace' | 'merge';
+  includeUser: boolean;
+}
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  activity: ActivityEvent[];
+  user: User;
+  users: User[];
+  workflow: Workflow;
+  onRestore: (backup: WorkspaceBackup, options: RestoreOptions) => void;
+}
+
+export default function WorkspaceDialog({ open, onClose, tasks, activity, user, users, workflow, onRestore }: Props) {
+  const { templates } = useRecurrence();
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const stamp = () => todayKey(user.timezone);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreOptions['mode']>('merge');
+  const [includeUser, setIncludeUser] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setParsed(null);
+    setFileError(null);
+    setMode('merge');
+    setIncludeUser(true);
+  }, [open]);
+
+  const plan = useMemo(
+    () => (parsed ? planRestore(parsed.backup.tasks, tasks, mode) : null),
+    [parsed, tasks, mode],
+  );
+
+  const handleJsonExport = () => {
+    const json = JSON.stringify(createBackup(tasks, activity, user, workflow, templates, users), null, 2);
+    downloadBlob(`taskglitch-backup-${stamp()}.json`, new Blob([json], { type: 'application/json' }));
+  };
+
+  const handleXlsxExport = () => {
+    downloadBlob(`taskglitch-report-${stamp()}.xlsx`, new Blob([createXlsxReport(tasks, user.timezone, workflow)], { type: XLSX_MIME }));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+    try {
+      setParsed(parseBackup(await readFileAsText(file)));
+    } catch (e: unknown) {
+      setParsed(null);
+      setFileError(e instanceof Error ? e.message : 'Could not read backup');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!parsed || !plan) return;
+    onRestore({ ...parsed.backup, tasks: plan.tasks }, { mode, includeUser });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Backup &amp; Restore</DialogTitle>
+      <DialogContent>
+        <Stack spacing={3} mt={1}>
+          <Stack spacing={1}>
+            <Typography fontWeight={700}>Export</Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleJsonExport}>
+                Full backup (JSON)
+              </Button>
+              <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleXlsxExport}>
+                Excel report (XLSX)
+              </Button>
+            </Stack>
+            <Typography variant="body2" color="text.secondary">
+              The JSON backup holds {tasks.length} tasks, {activity.length} activity entries, {templates.length} recurring templates, the {workflow.name} workflow and the settings
+              of {users.length} users.
+            </Typography>
+          </Stack>
+
+          <Divider />
+
+          <Stack spacing={2}>
+            <Typography fontWeight={700}>Restore</Typography>
+            <Button component="label" variant="outlined" startIcon={<UploadFileIcon />} sx={{ alignSelf: 'flex-start' }}>
+              Choose backup file
+              <input
+                hidden
+                type="file"
+                accept=".json,application/json"
+                onChange={e => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </Button>
+
+            {fileError && <Alert severity="error">{fileError}</Alert>}
+
+            {parsed && (
+              <>
+                <Alert severity={parsed.warnings.length ? 'warning' : 'success'}>
+                  Backup from {formatDateTime(parsed.backup.exportedAt, user.timezone)}: {parsed.backup.tasks.length} tasks,{' '}
+                  {parsed.backup.activity.length} activity entries
+                  {parsed.backup.workflow && parsed.backup.workflow.name !== workflow.name
+                    ? `, switching to the ${parsed.backup.workflow.name} workflow`
+                    : ''}
+                  .
+                  {parsed.warnings.map(w => (
+                    <div key={w}>{w}</div>
+                  ))}
+                </Alert>
+                {plan && plan.conflicts.length > 0 && (
+                  <Alert severity="warning">
+                    {plan.conflicts.length} tasks clash with this workspace and won't be merged:
+                    {plan.conflicts.map(c => (
+                      <div key={c}>{c}</div>
+                    ))}
+                  </Alert>
+                )}
+                <FormControl>
+                  <FormLabel>Restore mode</FormLabel>
+                  <RadioGroup row value={mode} onChange={e => setMode(e.target.value as RestoreOptions['mode'])}>
+                    <FormControlLabel value="merge" control={<Radio />} label="Merge (backup wins on same id)" />
+                    <FormControlLabel value="replace" control={<Radio />} label="Replace everything" />
+                  </RadioGroup>
+                </FormControl>
+                <FormControlLabel
+                  control={<Checkbox checked={includeUser} onChange={e => setIncludeUser(e.target.checked)} />}
+                  label={
+                    parsed.backup.users
+                      ? `Restore ${parsed.backup.users.length} users and their settings`
+                      : 'Restore user settings'
+                  }
+                />
+              </>
+            )}
+          </Stack>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button variant="contained" onClick={handleRestore} disabled={!parsed}>
+          Restore
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
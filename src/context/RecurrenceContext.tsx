@@ -0,0 +1,161 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { TaskInput } from '@/types';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useDateSettings } from '@/hooks/useDateSettings';
+import { useTasksContext } from '@/context/TasksContext';
+import { todayKey } from '@/utils/dates';
+import { addDays } from '@/utils/dueDates';
+import { isClosed } from '@/utils/workflow';
+import { hasErrors, validateTaskInput } from '@/utils/validation';
+import {
+  RecurringTemplate,
+  dueOccurrences,
+  instanceInput,
+  instancePatch,
+  isTemplate,
+} from '@/utils/recurrence';
+
+interface RecurrenceContextValue {
+  templates: RecurringTemplate[];
+  /**
+   * Adds or replaces a template. With `updateOpen`, instances that aren't
+   * closed yet are brought in line with it (one undoable step).
+   */
+  saveTemplate: (template: RecurringTemplate, updateOpen?: boolean) => void;
+  /** Generated tasks stay; they just stop being linked to a live template. */
+  deleteTemplate: (id: string) => void;
+  /** Paused templates generate nothing; resuming doesn't backfill the pause. */
+  setPaused: (id: string, paused: boolean) => void;
+  /** Skips an upcoming occurrence, or un-skips it. */
+  toggleSkip: (id: string, day: string) => void;
+  /** Templates from a workspace backup; merging keeps the backup's version of a shared id. */
+  restoreTemplates: (templates: RecurringTemplate[], mode: 'replace' | 'merge') => void;
+}
+
+const RecurrenceContext = createContext<RecurrenceContextValue | undefined>(undefined);
+
+// Stored templates come from localStorage and may be stale or hand-edited.
+const valid = (stored: unknown): RecurringTemplate[] => (Array.isArray(stored) ? stored.filter(isTemplate) : []);
+
+// Checked often enough to pick up the new day shortly after midnight.
+const TODAY_POLL_MS = 60 * 1000;
+
+export function RecurrenceProvider({ children }: { children: ReactNode }) {
+  const { tasks, ready, workflow, applyBatch } = useTasksContext();
+  const { timeZone } = useDateSettings();
+  const [stored, setTemplates] = usePersistentState<RecurringTemplate[]>('taskglitch:templates', []);
+  const templates = useMemo(() => valid(stored), [stored]);
+  const [today, setToday] = useState(() => todayKey(timeZone));
+  // Occurrences created this session; guards against effects running twice
+  // before the new tasks reach state.
+  const generated = useRef(new Set<string>());
+
+  useEffect(() => {
+    setToday(todayKey(timeZone));
+    const id = window.setInterval(() => setToday(todayKey(timeZone)), TODAY_POLL_MS);
+    return () => window.clearInterval(id);
+  }, [timeZone]);
+
+  // Creates the instances that have come due as one batch, so a pass is a
+  // single undo step rather than one per occurrence, then moves each
+  // template's generatedThrough up to the last day it has a task for (today
+  // when all went in) so a reload doesn't create them again. Waits for tasks
+  // to load: after a failed load the list is empty and nothing would be saved.
+  useEffect(() => {
+    if (!ready || !templates.length) return;
+    const existing = new Map<string, Set<string>>();
+    // Titles are unique case-insensitively (see isTitleTaken).
+    const titles = new Set(tasks.map(t => t.title.toLowerCase()));
+    tasks.forEach(t => {
+      if (!t.templateId || !t.occurrence) return;
+      existing.set(t.templateId, (existing.get(t.templateId) ?? new Set()).add(t.occurrence));
+    });
+
+    const inputs: TaskInput[] = [];
+    const keys: string[] = [];
+    const next = templates.map(template => {
+      let through = today;
+      for (const day of dueOccurrences(template, today, existing.get(template.id))) {
+        const key = `${template.id}:${day}`;
+        const input = instanceInput(template, day, workflow);
+        if (generated.current.has(key) || titles.has(input.title.toLowerCase())) continue;
+        // An invalid instance stops its template here, so it is retried on
+        // the next pass rather than skipped for good.
+        if (hasErrors(validateTaskInput(input, { existingTitles: [...titles], workflow }))) {
+          through = addDays(day, -1);
+          break;
+        }
+        inputs.push(input);
+        keys.push(key);
+        titles.add(input.title.toLowerCase());
+      }
+      if (template.paused || (template.generatedThrough ?? '') >= through) return template;
+      return { ...template, generatedThrough: through };
+    });
+    if (inputs.length) {
+      const label = inputs.length === 1 ? `generate ${inputs[0].title}` : `generate ${inputs.length} recurring tasks`;
+      if (hasErrors(applyBatch(label, { add: inputs }))) return;
+      keys.forEach(key => generated.current.add(key));
+    }
+    if (next.some((t, i) => t !== templates[i])) setTemplates(next);
+  }, [ready, templates, tasks, today, workflow, applyBatch, setTemplates]);
+
+  const update = useCallback(
+    (id: string, change: (t: RecurringTemplate) => RecurringTemplate) =>
+      setTemplates(prev => valid(prev).map(t => (t.id === id ? change(t) : t))),
+    [setTemplates],
+  );
+
+  const saveTemplate = useCallback(
+    (template: RecurringTemplate, updateOpen = false) => {
+      setTemplates(prev => {
+        const list = valid(prev);
+        return list.some(t => t.id === template.id)
+          ? list.map(t => (t.id === template.id ? template : t))
+          : [...list, template];
+      });
+      if (!updateOpen) return;
+      const updates = tasks
+        .filter(t => t.templateId === template.id && !isClosed(workflow, t.status))
+        .map(t => ({ id: t.id, patch: instancePatch(template, t) }))
+        .filter(u => Object.keys(u.patch).length);
+      if (updates.length) applyBatch(`update ${updates.length} instances of ${template.title}`, { update: updates });
+    },
+    [tasks, workflow, applyBatch, setTemplates],
+  );
+
+  const value = useMemo<RecurrenceContextValue>(
+    () => ({
+      templates,
+      saveTemplate,
+      deleteTemplate: id => setTemplates(prev => valid(prev).filter(t => t.id !== id)),
+      setPaused: (id, paused) =>
+        update(id, t =>
+          paused
+            ? { ...t, paused: true }
+            : { ...t, paused: undefined, generatedThrough: addDays(today, -1) },
+        ),
+      toggleSkip: (id, day) =>
+        update(id, t => {
+          const skipped = t.skipped?.includes(day) ? t.skipped.filter(d => d !== day) : [...(t.skipped ?? []), day].sort();
+          return { ...t, skipped: skipped.length ? skipped : undefined };
+        }),
+      restoreTemplates: (restored, mode) =>
+        setTemplates(prev => {
+          const incoming = restored.filter(isTemplate);
+          if (mode === 'replace') return incoming;
+          const ids = new Set(incoming.map(t => t.id));
+          return [...valid(prev).filter(t => !ids.has(t.id)), ...incoming];
+        }),
+    }),
+    [templates, saveTemplate, update, today, setTemplates],
+  );
+
+  return <RecurrenceContext.Provider value={value}>{children}</RecurrenceContext.Provider>;
+}
+
+export function useRecurrence() {
+  const ctx = useContext(RecurrenceContext);
+  if (!ctx) throw new Error('useRecurrence must be used within RecurrenceProvider');
+  return ctx;
+}
@@ -2,103 +2,518 @@ import {
   createContext,
   useCallback,
   useContext,
+  useEffect,
   useMemo,
+  useRef,
   useState,
   ReactNode,
 } from 'react';
-import { Task, TaskInput, DerivedTask, Metrics } from '@/types';
+import { ActivityEvent, Task, TaskInput, DerivedTask, Metrics, Status } from '@/types';
+import { useUser } from '@/context/UserContext';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { withDerived, sortTasks, computeMetrics } from '@/utils/logic';
+import { createDefaultStorage, PersistedState, StorageAdapter } from '@/utils/storage';
+import { TasksPayload, loadDemoTasks, loadInitialTasks } from '@/utils/dataSource';
+import { createTask, patchTask } from '@/utils/taskChanges';
+import { DEFAULT_WORKFLOW, Workflow, isWorkflow, migrateTask } from '@/utils/workflow';
 import {
-  withDerived,
-  sortTasks,
-  computeAverageROI,
-  computePerformanceGrade,
-  computeRevenuePerHour,
-  computeTimeEfficiency,
-  computeTotalRevenue,
-} from '@/utils/logic';
+  HISTORY_LIMIT,
+  HistoryEntry,
+  TaskCommand,
+  applyCommand,
+  describeCommand,
+  diffUpdate,
+  revertCommand,
+} from '@/utils/history';
+import {
+  Actor,
+  appendActivity,
+  eventsFromCommand,
+  historyEvent,
+  simpleEvent,
+} from '@/utils/activity';
+import {
+  TaskErrors,
+  formatErrors,
+  hasErrors,
+  validatePatch,
+  validateTaskInput,
+} from '@/utils/validation';
+
+export interface TaskBatch {
+  add?: TaskInput[];
+  update?: Array<{ id: string; patch: Partial<Task> }>;
+  remove?: string[];
+}
 
 interface TasksContextValue {
   tasks: Task[];
   derivedSorted: DerivedTask[];
   metrics: Metrics;
+  /** Stages tasks move through; statuses, transitions and pipeline weights come from here. */
+  workflow: Workflow;
+  /**
+   * Switches workflows, moving every task to the matching stage of the new
+   * one (see mapStatus). `renames` maps old stage names to the ones they
+   * were renamed to. Clears undo history, like a restore.
+   */
+  setWorkflow: (workflow: Workflow, renames?: Record<Status, Status>) => void;
   loading: boolean;
   error: string | null;
-  lastDeleted: Task | null;
-  addTask: (task: TaskInput) => void;
-  updateTask: (id: string, patch: Partial<Task>) => void;
+  /**
+   * True once tasks have loaded (or demo data was chosen). Stays false after
+   * a failed load, when the empty task list doesn't reflect what's stored.
+   */
+  ready: boolean;
+  /**
+   * Records the saved workspace or the data source held that were skipped
+   * or patched up; null when there were none.
+   */
+  loadIssues: (Pick<TasksPayload, 'skipped' | 'backfilled'> & { source: string }) | null;
+  dismissLoadIssues: () => void;
+  /** Last failed write; edits stay in memory until a save goes through. */
+  saveError: string | null;
+  /** Writes the current state again. */
+  retrySave: () => void;
+  /** Newest first. */
+  activity: ActivityEvent[];
+  /**
+   * Mutations are validated first. A rejected change leaves state untouched,
+   * returns its field errors and is reported through `validationError`.
+   */
+  addTask: (task: TaskInput) => TaskErrors;
+  updateTask: (id: string, patch: Partial<Task>) => TaskErrors;
   deleteTask: (id: string) => void;
-  undoDelete: () => void;
-  clearLastDeleted: () => void;
+  /** Applies several changes as one history entry (undone in a single step). All-or-nothing. */
+  applyBatch: (label: string, batch: TaskBatch) => TaskErrors;
+  validationError: string | null;
+  clearValidationError: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Most recent undoable action, e.g. "edit revenue on Pricing review #9". */
+  lastAction: HistoryEntry | null;
+  redoLabel: string | null;
+  /** A workflow from the backup replaces the current one; tasks from older backups are on the default workflow. */
+  restoreTasks: (
+    tasks: Task[],
+    mode: 'replace' | 'merge',
+    activity?: ActivityEvent[],
+    workflow?: Workflow,
+  ) => void;
+  retry: () => void;
+  loadDemoData: () => void;
 }
 
 const TasksContext = createContext<TasksContextValue | undefined>(undefined);
 
-export function TasksProvider({ children }: { children: ReactNode }) {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [lastDeleted, setLastDeleted] = useState<Task | null>(null);
-
-  const addTask = useCallback((input: TaskInput) => {
-    const now = new Date().toISOString();
-    setTasks(prev => [
-      ...prev,
-      {
-        ...input,
-        id: input.id ?? crypto.randomUUID(),
-        createdAt: now,
-        completedAt: input.status === 'Done' ? now : undefined,
-      },
-    ]);
+interface TasksProviderProps {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}
+
+interface TasksState {
+  tasks: Task[];
+  activity: ActivityEvent[];
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const emptyState: TasksState = { tasks: [], activity: [], past: [], future: [] };
+
+let entrySeq = 0;
+
+// Commands are built against the tasks they will be applied to so that
+// indices and before-values are exact.
+function addCommand(tasks: Task[], input: TaskInput, workflow: Workflow): TaskCommand {
+  return { kind: 'add', task: createTask(input, workflow), index: tasks.length };
+}
+
+function updateCommand(tasks: Task[], id: string, patch: Partial<Task>, workflow: Workflow): TaskCommand | null {
+  const current = tasks.find(t => t.id === id);
+  return current ? diffUpdate(current, patchTask(current, patch, workflow)) : null;
+}
+
+/**
+ * Updates relabelling tasks from one workflow's stages to another's. Tasks
+ * aren't moving, so this bypasses patchTask: the history's timestamps stay
+ * as they are, and completedAt only changes when a closed task has no
+ * closed counterpart and reopens (see migrateTask).
+ */
+function migrateCommands(
+  tasks: Task[],
+  from: Workflow,
+  to: Workflow,
+  renames?: Record<Status, Status>,
+): TaskCommand[] {
+  return tasks.flatMap(t => {
+    const migrated = migrateTask(t, from, to, renames);
+    const relabelled = JSON.stringify(migrated.statusHistory) !== JSON.stringify(t.statusHistory);
+    const cmd = diffUpdate(t, { ...migrated, statusHistory: relabelled ? migrated.statusHistory : t.statusHistory });
+    return cmd ? [cmd] : [];
+  });
+}
+
+/** Seed and demo data are written against the default workflow. */
+function fromDefaultWorkflow(tasks: Task[], workflow: Workflow): Task[] {
+  return tasks.map(t => migrateTask(t, DEFAULT_WORKFLOW, workflow));
+}
+
+function deleteCommand(tasks: Task[], id: string): TaskCommand | null {
+  const index = tasks.findIndex(t => t.id === id);
+  return index < 0 ? null : { kind: 'delete', task: tasks[index], index };
+}
+
+/**
+ * Validates every change in a batch against the tasks it will apply to,
+ * including titles added or renamed and statuses moved earlier in the same batch.
+ */
+function validateBatch(
+  tasks: Task[],
+  batch: TaskBatch,
+  workflow: Workflow,
+): { errors: TaskErrors; subject?: string } {
+  const removed = new Set(batch.remove ?? []);
+  const titles = new Map(tasks.filter(t => !removed.has(t.id)).map(t => [t.id, t.title]));
+  const statuses = new Map(tasks.map(t => [t.id, t.status]));
+  for (const { id, patch } of batch.update ?? []) {
+    const current = titles.get(id);
+    if (current === undefined) continue;
+    const errors = validatePatch(patch, {
+      existingTitles: [...titles.values()],
+      currentTitle: current,
+      workflow,
+      currentStatus: statuses.get(id),
+    });
+    if (hasErrors(errors)) return { errors, subject: current };
+    if (patch.title !== undefined) titles.set(id, patch.title);
+    if (patch.status !== undefined) statuses.set(id, patch.status);
+  }
+  for (const [i, input] of (batch.add ?? []).entries()) {
+    const errors = validateTaskInput(input, { existingTitles: [...titles.values()], workflow });
+    if (hasErrors(errors)) return { errors, subject: input.title };
+    titles.set(input.id ?? `new-${i}`, input.title);
+  }
+  return { errors: {} };
+}
+
+function record(
+  state: TasksState,
+  actor: Actor,
+  command: TaskCommand | null,
+  label?: string,
+): TasksState {
+  if (!command) return state;
+  const entry: HistoryEntry = {
+    id: ++entrySeq,
+    label: label ?? describeCommand(command),
+    command,
+  };
+  return {
+    tasks: applyCommand(state.tasks, command),
+    activity: appendActivity(state.activity, eventsFromCommand(command, actor)),
+    past: [...state.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+export function TasksProvider({ children, storage: storageProp }: TasksProviderProps) {
+  const [storage] = useState<StorageAdapter>(() => storageProp ?? createDefaultStorage());
+  const [state, setState] = useState<TasksState>(emptyState);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [loadIssues, setLoadIssues] = useState<TasksContextValue['loadIssues']>(null);
+  const hydrated = useRef(false);
+  const [ready, setReady] = useState(false);
+  // Set when state came from another tab so we don't write it straight back.
+  const skipNextSave = useRef(false);
+  const { tasks, activity } = state;
+  // Latest tasks for validating mutations before they are queued.
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const activityRef = useRef(activity);
+  activityRef.current = activity;
+  const { user } = useUser();
+  // Read through a ref so mutation callbacks stay stable across user edits.
+  const actorRef = useRef<Actor>({ id: user.id, name: user.name });
+  actorRef.current = { id: user.id, name: user.name };
+  const [storedWorkflow, storeWorkflow] = usePersistentState<Workflow>('taskglitch:workflow', DEFAULT_WORKFLOW);
+  const workflow = isWorkflow(storedWorkflow) ? storedWorkflow : DEFAULT_WORKFLOW;
+  const workflowRef = useRef(workflow);
+  workflowRef.current = workflow;
+
+  // Replaces state wholesale (hydration, restore, other tabs). History is
+  // dropped because its commands no longer describe the new state.
+  const resetState = useCallback((next: Task[], nextActivity: ActivityEvent[] = []) => {
+    setState({ tasks: next, activity: nextActivity, past: [], future: [] });
   }, []);
 
-  const updateTask = useCallback((id: string, patch: Partial<Task>) => {
-    setTasks(prev =>
-      prev.map(t =>
-        t.id === id
-          ? {
-              ...t,
-              ...patch,
-              completedAt:
-                t.status !== 'Done' && patch.status === 'Done'
-                  ? new Date().toISOString()
-                  : t.completedAt,
-            }
-          : t,
-      ),
+  // Hydrate from storage; an empty workspace falls back to the data source.
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    (async () => {
+      const saved = await storage.load({ workflow: workflowRef.current });
+      if (saved) {
+        if (!cancelled && saved.skipped.length) {
+          setLoadIssues({ skipped: saved.skipped, backfilled: [], source: 'saved workspace' });
+        }
+        return saved;
+      }
+      const { tasks: initial, skipped, backfilled } = await loadInitialTasks(controller.signal);
+      if (!cancelled && (skipped.length || backfilled.length)) {
+        setLoadIssues({ skipped, backfilled, source: 'data source' });
+      }
+      return { tasks: fromDefaultWorkflow(initial, workflowRef.current), activity: [] };
+    })()
+      .then(loaded => {
+        if (cancelled) return;
+        hydrated.current = true;
+        setReady(true);
+        resetState(loaded.tasks, loaded.activity);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load tasks');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [storage, attempt, resetState]);
+
+  useEffect(() => {
+    const unsubscribe = storage.subscribe(
+      saved => {
+        skipNextSave.current = true;
+        resetState(saved.tasks, saved.activity);
+      },
+      () => ({ workflow: workflowRef.current }),
     );
+
+    return unsubscribe;
+  }, [storage, resetState]);
+
+  // A failed write is reported without touching the loaded state, which
+  // still holds the edits that didn't save.
+  const save = useCallback(
+    (persisted: PersistedState) =>
+      storage.save(persisted).then(
+        () => setSaveError(null),
+        (e: unknown) => setSaveError(e instanceof Error ? e.message : 'Failed to save tasks'),
+      ),
+    [storage],
+  );
+
+  useEffect(() => {
+    if (!hydrated.current) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    save({ tasks, activity });
+  }, [tasks, activity, save]);
+
+  const retrySave = useCallback(() => {
+    save({ tasks: tasksRef.current, activity: activityRef.current });
+  }, [save]);
+
+  const reject = useCallback((action: string, errors: TaskErrors): TaskErrors => {
+    setValidationError(`${action}: ${formatErrors(errors)}`);
+    return errors;
   }, []);
 
+  const addTask = useCallback(
+    (input: TaskInput) => {
+      const errors = validateTaskInput(input, {
+        existingTitles: tasksRef.current.map(t => t.title),
+        workflow: workflowRef.current,
+      });
+      if (hasErrors(errors)) return reject(`Couldn't add "${input.title}"`, errors);
+      setState(prev => record(prev, actorRef.current, addCommand(prev.tasks, input, workflowRef.current)));
+      return errors;
+    },
+    [reject],
+  );
+
+  const updateTask = useCallback(
+    (id: string, patch: Partial<Task>) => {
+      const current = tasksRef.current.find(t => t.id === id);
+      const errors = current
+        ? validatePatch(patch, {
+            existingTitles: tasksRef.current.map(t => t.title),
+            currentTitle: current.title,
+            workflow: workflowRef.current,
+            currentStatus: current.status,
+          })
+        : {};
+      if (hasErrors(errors)) return reject(`Couldn't update "${current!.title}"`, errors);
+      setState(prev => record(prev, actorRef.current, updateCommand(prev.tasks, id, patch, workflowRef.current)));
+      return errors;
+    },
+    [reject],
+  );
+
   const deleteTask = useCallback((id: string) => {
-    setTasks(prev => {
-      const found = prev.find(t => t.id === id) ?? null;
-      setLastDeleted(found);
-      return prev.filter(t => t.id !== id);
+    setState(prev => record(prev, actorRef.current, deleteCommand(prev.tasks, id)));
+  }, []);
+
+  const applyBatch = useCallback(
+    (label: string, batch: TaskBatch) => {
+      const { errors, subject } = validateBatch(tasksRef.current, batch, workflowRef.current);
+      if (hasErrors(errors)) return reject(`Couldn't ${label} ("${subject}")`, errors);
+      setState(prev => {
+        const commands: TaskCommand[] = [];
+        let working = prev.tasks;
+        const push = (cmd: TaskCommand | null) => {
+          if (!cmd) return;
+          commands.push(cmd);
+          working = applyCommand(working, cmd);
+        };
+        batch.remove?.forEach(id => push(deleteCommand(working, id)));
+        batch.update?.forEach(({ id, patch }) => push(updateCommand(working, id, patch, workflowRef.current)));
+        batch.add?.forEach(input => push(addCommand(working, input, workflowRef.current)));
+        if (!commands.length) return prev;
+        return record(prev, actorRef.current, { kind: 'bulk', label, commands }, label);
+      });
+      return errors;
+    },
+    [reject],
+  );
+
+  const dismissLoadIssues = useCallback(() => setLoadIssues(null), []);
+
+  const clearValidationError = useCallback(() => {
+    setValidationError(null);
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const entry = prev.past[prev.past.length - 1];
+      if (!entry) return prev;
+      return {
+        tasks: revertCommand(prev.tasks, entry.command),
+        activity: appendActivity(prev.activity, [
+          historyEvent('undo', entry.command, entry.label, actorRef.current),
+        ]),
+        past: prev.past.slice(0, -1),
+        future: [entry, ...prev.future],
+      };
     });
   }, []);
 
-  const undoDelete = useCallback(() => {
-    if (lastDeleted) {
-      setTasks(prev => [...prev, lastDeleted]);
-      setLastDeleted(null);
-    }
-  }, [lastDeleted]);
+  const redo = useCallback(() => {
+    setState(prev => {
+      const [entry, ...rest] = prev.future;
+      if (!entry) return prev;
+      return {
+        tasks: applyCommand(prev.tasks, entry.command),
+        activity: appendActivity(prev.activity, [
+          historyEvent('redo', entry.command, entry.label, actorRef.current),
+        ]),
+        past: [...prev.past, entry],
+        future: rest,
+      };
+    });
+  }, []);
+
+  const setWorkflow = useCallback(
+    (next: Workflow, renames?: Record<Status, Status>) => {
+      const from = workflowRef.current;
+      storeWorkflow(next);
+      // Undoing an older edit could bring back a stage that no longer exists.
+      const removedStage = from.stages.some(s => !next.stages.some(n => n.name === s.name));
+      setState(prev => {
+        const commands = migrateCommands(prev.tasks, from, next, renames);
+        if (!commands.length && !removedStage) return prev;
+        const cmd: TaskCommand = { kind: 'bulk', label: `switch to ${next.name} workflow`, commands };
+        return {
+          tasks: applyCommand(prev.tasks, cmd),
+          activity: appendActivity(prev.activity, eventsFromCommand(cmd, actorRef.current)),
+          past: [],
+          future: [],
+        };
+      });
+    },
+    [storeWorkflow],
+  );
 
-  const clearLastDeleted = useCallback(() => {
-    setLastDeleted(null);
+  const restoreTasks = useCallback(
+    (
+      restored: Task[],
+      mode: 'replace' | 'merge',
+      incomingActivity: ActivityEvent[] = [],
+      incomingWorkflow?: Workflow,
+    ) => {
+      const current = workflowRef.current;
+      const target = incomingWorkflow ?? current;
+      if (incomingWorkflow) storeWorkflow(incomingWorkflow);
+      // Backups from before workflows existed hold default-workflow statuses.
+      const incoming = restored.map(t => migrateTask(t, incomingWorkflow ?? DEFAULT_WORKFLOW, target));
+      setState(prev => {
+        const note = simpleEvent(
+          'restore',
+          `Restored backup (${mode}): ${incoming.length} tasks`,
+          actorRef.current,
+        );
+        if (mode === 'replace') {
+          return {
+            tasks: incoming,
+            activity: appendActivity(incomingActivity, [note]),
+            past: [],
+            future: [],
+          };
+        }
+        const byId = new Map(incoming.map(t => [t.id, t]));
+        const merged = prev.tasks.map(
+          t => byId.get(t.id) ?? migrateTask(t, current, target),
+        );
+        const known = new Set(prev.tasks.map(t => t.id));
+        const seen = new Set(prev.activity.map(a => a.id));
+        const log = [...prev.activity, ...incomingActivity.filter(a => !seen.has(a.id))]
+          .sort((a, b) => b.ts.localeCompare(a.ts));
+        return {
+          tasks: [...merged, ...incoming.filter(t => !known.has(t.id))],
+          activity: appendActivity(log, [note]),
+          past: [],
+          future: [],
+        };
+      });
+    },
+    [storeWorkflow],
+  );
+
+  const retry = useCallback(() => {
+    setAttempt(a => a + 1);
   }, []);
 
+  const loadDemoData = useCallback(() => {
+    hydrated.current = true;
+    setReady(true);
+    resetState(fromDefaultWorkflow(loadDemoTasks(), workflowRef.current));
+    setError(null);
+    setLoading(false);
+  }, [resetState]);
+
   const derivedSorted = useMemo(
     () => sortTasks(tasks.map(withDerived)),
     [tasks],
   );
 
-  const metrics = useMemo<Metrics>(() => ({
-    totalRevenue: computeTotalRevenue(tasks),
-    totalTimeTaken: tasks.reduce((s, t) => s + t.timeTaken, 0),
-    timeEfficiencyPct: computeTimeEfficiency(tasks),
-    revenuePerHour: computeRevenuePerHour(tasks),
-    averageROI: computeAverageROI(tasks),
-    performanceGrade: computePerformanceGrade(computeAverageROI(tasks)),
-  }), [tasks]);
+  const metrics = useMemo<Metrics>(
+    () => computeMetrics(tasks, user.timezone, workflow),
+    [tasks, user.timezone, workflow],
+  );
 
   return (
     <TasksContext.Provider
@@ -106,14 +521,31 @@ export function TasksProvider({ children }: { children: ReactNode }) {
         tasks,
         derivedSorted,
         metrics,
-        loading: false,
-        error: null,
-        lastDeleted,
+        workflow,
+        setWorkflow,
+        loading,
+        error,
+        ready,
+        loadIssues,
+        dismissLoadIssues,
+        saveError,
+        retrySave,
+        activity,
         addTask,
         updateTask,
         deleteTask,
-        undoDelete,
-        clearLastDeleted,
+        applyBatch,
+        validationError,
+        clearValidationError,
+        undo,
+        redo,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+        lastAction: state.past[state.past.length - 1] ?? null,
+        redoLabel: state.future[0]?.label ?? null,
+        restoreTasks,
+        retry,
+        loadDemoData,
       }}
     >
       {children}
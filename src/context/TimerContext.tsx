@@ -0,0 +1,100 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { Task } from '@/types';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useTasksContext } from '@/context/TasksContext';
+import { useUser } from '@/context/UserContext';
+import {
+  RunningTimer,
+  entryFromTimer,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+  timerElapsedMs,
+} from '@/utils/timeTracking';
+
+interface TimerContextValue {
+  /** The active user's timer; each user has at most one. */
+  timer: RunningTimer | null;
+  /** Task the timer belongs to. */
+  task: Task | null;
+  /** Starts timing a task, stopping (and logging) any other running timer first. */
+  start: (taskId: string) => void;
+  pause: () => void;
+  resume: () => void;
+  /** Logs the session as a time entry on its task. */
+  stop: () => void;
+  /** Drops the session without logging it. */
+  discard: () => void;
+}
+
+const TimerContext = createContext<TimerContextValue | undefined>(undefined);
+
+export function TimerProvider({ children }: { children: ReactNode }) {
+  const { user } = useUser();
+  const { tasks, ready, updateTask } = useTasksContext();
+  // Persisted per user so a timer survives reloads and switching users.
+  const [timer, setTimer] = usePersistentState<RunningTimer | null>(`taskglitch:timer:${user.id}`, null);
+  const task = (timer && tasks.find(t => t.id === timer.taskId)) || null;
+
+  // A deleted task takes its running timer with it. Before tasks have
+  // loaded (or after a failed load) a missing task proves nothing.
+  useEffect(() => {
+    if (ready && timer && !task) setTimer(null);
+  }, [ready, timer, task, setTimer]);
+
+  const log = useCallback(
+    (current: RunningTimer) => {
+      const owner = tasks.find(t => t.id === current.taskId);
+      const entry = entryFromTimer(current, user.id);
+      if (owner && entry) updateTask(owner.id, { timeEntries: [...(owner.timeEntries ?? []), entry] });
+    },
+    [tasks, user.id, updateTask],
+  );
+
+  const value = useMemo<TimerContextValue>(
+    () => ({
+      timer,
+      task,
+      start: (taskId: string) => {
+        if (timer?.taskId === taskId) {
+          setTimer(resumeTimer(timer));
+          return;
+        }
+        if (timer) log(timer);
+        setTimer(startTimer(taskId));
+      },
+      pause: () => setTimer(prev => prev && pauseTimer(prev)),
+      resume: () => setTimer(prev => prev && resumeTimer(prev)),
+      stop: () => {
+        if (!timer) return;
+        log(timer);
+        setTimer(null);
+      },
+      discard: () => setTimer(null),
+    }),
+    [timer, task, log, setTimer],
+  );
+
+  return <TimerContext.Provider value={value}>{children}</TimerContext.Provider>;
+}
+
+export function useTimer() {
+  const ctx = useContext(TimerContext);
+  if (!ctx) throw new Error('useTimer must be used within TimerProvider');
+  return ctx;
+}
+
+/** Milliseconds on the timer, re-rendering every second while it runs. */
+export function useTimerElapsed(timer: RunningTimer | null): number {
+  const [now, setNow] = useState(() => new Date());
+  const running = !!timer?.runningSince;
+
+  useEffect(() => {
+    if (!running) return;
+    setNow(new Date());
+    const id = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(id);
+  }, [running]);
+
+  return timer ? timerElapsedMs(timer, now) : 0;
+}
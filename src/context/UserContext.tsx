@@ -1,6 +1,8 @@
-import { createContext, useContext, useMemo, useState, ReactNode } from 'react';
+import { createContext, useContext, useMemo, ReactNode } from 'react';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { DateSettings, LOCAL_TIMEZONE, WeekStart } from '@/utils/dates';
 
-interface User {
+export interface User {
   id: string;
   name: string;
   avatarUrl?: string;
@@ -8,30 +10,100 @@ interface User {
   quota?: { monthlyRevenueGoal: number };
   preferences: {
     showOnboarding: boolean;
+    /** Defaults to Monday when unset. */
+    weekStart?: WeekStart;
   };
 }
 
 interface UserContextValue {
+  /** The active user; edits are attributed to them and "me" in filters means them. */
   user: User;
+  /** Everyone tasks can be assigned to, including the active user. */
+  users: User[];
+  switchUser: (id: string) => void;
+  setMonthlyGoal: (userId: string, goal: number) => void;
+  setDateSettings: (userId: string, settings: DateSettings) => void;
   setShowOnboarding: (show: boolean) => void;
+  /** Replaces the roster with a restored one (see planRoster) and activates the given user. */
+  restoreUsers: (users: User[], activeId: string) => void;
 }
 
-const UserContext = createContext<UserContextValue | undefined>(undefined);
-
-export function UserProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User>({
+export const DEFAULT_ROSTER: User[] = [
+  {
     id: 'u-001',
     name: 'Avery (Sales Manager)',
-    avatarUrl: undefined,
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    timezone: LOCAL_TIMEZONE,
     quota: { monthlyRevenueGoal: 50000 },
     preferences: { showOnboarding: true },
-  });
+  },
+  {
+    id: 'u-002',
+    name: 'Jordan Lee',
+    timezone: 'America/New_York',
+    quota: { monthlyRevenueGoal: 30000 },
+    preferences: { showOnboarding: true },
+  },
+  {
+    id: 'u-003',
+    name: 'Priya Nair',
+    timezone: 'Europe/London',
+    quota: { monthlyRevenueGoal: 30000 },
+    preferences: { showOnboarding: true },
+  },
+  {
+    id: 'u-004',
+    name: 'Sam Ortiz',
+    timezone: 'America/Los_Angeles',
+    quota: { monthlyRevenueGoal: 20000 },
+    preferences: { showOnboarding: true },
+  },
+];
+
+export function isUser(v: unknown): v is User {
+  if (!v || typeof v !== 'object') return false;
+  const u = v as Record<string, unknown>;
+  return (
+    typeof u.id === 'string' &&
+    typeof u.name === 'string' &&
+    typeof u.timezone === 'string' &&
+    !!u.preferences &&
+    typeof u.preferences === 'object'
+  );
+}
+
+// An empty roster would leave no active user.
+const isRoster = (v: unknown): v is User[] => Array.isArray(v) && v.length > 0 && v.every(isUser);
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+const UserContext = createContext<UserContextValue | undefined>(undefined);
+
+export function UserProvider({ children }: { children: ReactNode }) {
+  const [users, setUsers] = usePersistentState<User[]>('taskglitch:roster', DEFAULT_ROSTER, isRoster);
+  const [activeId, setActiveId] = usePersistentState('taskglitch:activeUser', DEFAULT_ROSTER[0].id, isString);
+  const user = users.find(u => u.id === activeId) ?? users[0];
 
   const value = useMemo<UserContextValue>(() => ({
     user,
-    setShowOnboarding: (show: boolean) => setUser(prev => ({ ...prev, preferences: { ...prev.preferences, showOnboarding: show } })),
-  }), [user]);
+    users,
+    switchUser: (id: string) => {
+      if (users.some(u => u.id === id)) setActiveId(id);
+    },
+    setMonthlyGoal: (userId: string, goal: number) =>
+      setUsers(prev => prev.map(u => (u.id === userId ? { ...u, quota: { ...u.quota, monthlyRevenueGoal: goal } } : u))),
+    setDateSettings: (userId: string, { timeZone, weekStart }: DateSettings) =>
+      setUsers(prev =>
+        prev.map(u => (u.id === userId ? { ...u, timezone: timeZone, preferences: { ...u.preferences, weekStart } } : u)),
+      ),
+    setShowOnboarding: (show: boolean) =>
+      setUsers(prev =>
+        prev.map(u => (u.id === user.id ? { ...u, preferences: { ...u.preferences, showOnboarding: show } } : u)),
+      ),
+    restoreUsers: (next: User[], id: string) => {
+      if (!isRoster(next) || !next.some(u => u.id === id)) return;
+      setUsers(next);
+      setActiveId(id);
+    },
+  }), [user, users, setUsers, setActiveId]);
 
   return <UserContext.Provider value={value}>{children}</UserContext.Provider>;
 }
@@ -42,4 +114,8 @@ export function useUser() {
   return ctx;
 }
 
-
+/** Display name for an assignee id; unknown ids are shown as-is. */
+export function userName(users: ReadonlyArray<User>, id: string | undefined): string {
+  if (!id) return 'Unassigned';
+  return users.find(u => u.id === id)?.name ?? id;
+}
@@ -0,0 +1,10 @@
+import { useMemo } from 'react';
+import { useUser } from '@/context/UserContext';
+import { DateSettings } from '@/utils/dates';
+
+/** The active user's timezone and week start, for utils/dates. */
+export function useDateSettings(): DateSettings {
+  const { user } = useUser();
+  const weekStart = user.preferences.weekStart ?? 1;
+  return useMemo(() => ({ timeZone: user.timezone, weekStart }), [user.timezone, weekStart]);
+}
@@ -0,0 +1,57 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useState } from 'react';
+
+type Guard<T> = (value: unknown) => value is T;
+
+function read<T>(key: string, fallback: T, isValid?: Guard<T>): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (raw == null) return fallback;
+    const value: unknown = JSON.parse(raw);
+    return !isValid || isValid(value) ? (value as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * useState backed by localStorage. Changing `key` (e.g. switching user)
+ * loads the value stored under the new key. A stored value that fails
+ * `isValid` is replaced by `fallback`.
+ */
+export function usePersistentState<T>(
+  key: string,
+  fallback: T,
+  isValid?: Guard<T>,
+): [T, Dispatch<SetStateAction<T>>] {
+  const [state, setState] = useState<{ key: string; value: T }>(() => ({
+    key,
+    value: read(key, fallback, isValid),
+  }));
+
+  // Re-read synchronously during render when the key changes so callers
+  // never see the previous key's value.
+  let current = state;
+  if (state.key !== key) {
+    current = { key, value: read(key, fallback, isValid) };
+    setState(current);
+  }
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(current.key, JSON.stringify(current.value));
+    } catch {
+      // storage full or unavailable; keep the in-memory value
+    }
+  }, [current.key, current.value]);
+
+  const setValue = useCallback<Dispatch<SetStateAction<T>>>(
+    action =>
+      setState(prev => ({
+        key: prev.key,
+        value: typeof action === 'function' ? (action as (p: T) => T)(prev.value) : action,
+      })),
+    [],
+  );
+
+  return [current.value, setValue];
+}
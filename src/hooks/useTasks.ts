@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Task, DerivedTask, TaskInput } from '@/types';
 import { withDerived, sortTasks } from '@/utils/logic';
-import { generateSalesTasks } from '@/utils/seed';
+import { loadInitialTasks } from '@/utils/dataSource';
 
 export function useTasks() {
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -14,13 +14,10 @@ export function useTasks() {
     if (fetched.current) return;
     fetched.current = true;
 
-    try {
-      setTasks(generateSalesTasks(30));
-    } catch (e: any) {
-      setError(e?.message ?? 'Failed to load tasks');
-    } finally {
-      setLoading(false);
-    }
+    loadInitialTasks()
+      .then(r => setTasks(r.tasks))
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : 'Failed to load tasks'))
+      .finally(() => setLoading(false));
   }, []);
 
   const derivedSorted = useMemo<DerivedTask[]>(
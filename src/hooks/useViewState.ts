@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { ViewState, sameView, viewFromSearch, viewToSearch } from '@/utils/views';
+
+/**
+ * View state mirrored to the URL query string. The URL wins on load, then
+ * `fallback`. Each change pushes a history entry so back/forward step
+ * through views, except consecutive query edits, which replace the entry
+ * rather than recording every keystroke. Changing `key` (e.g. switching
+ * user) starts over from the new `fallback`.
+ */
+export function useViewState(
+  fallback: ViewState,
+  key = '',
+): [ViewState, (patch: Partial<ViewState>) => void] {
+  const [state, setState] = useState<{ key: string; view: ViewState }>(() => ({
+    key,
+    view: viewFromSearch(window.location.search) ?? fallback,
+  }));
+  const viewRef = useRef(state.view);
+  const fallbackRef = useRef(fallback);
+  const historyMode = useRef<'push' | 'replace'>('replace');
+  const lastChange = useRef<'query' | 'other' | null>(null);
+
+  // Reset synchronously during render, like usePersistentState, so nothing
+  // ever sees the previous key's view under the new key.
+  let current = state;
+  if (state.key !== key) {
+    current = { key, view: fallback };
+    viewRef.current = fallback;
+    lastChange.current = null;
+    historyMode.current = 'replace';
+    setState(current);
+  }
+  const { view } = current;
+
+  useEffect(() => {
+    fallbackRef.current = fallback;
+  });
+
+  useEffect(() => {
+    const onPop = () => {
+      const next = viewFromSearch(window.location.search) ?? fallbackRef.current;
+      lastChange.current = null;
+      historyMode.current = 'replace';
+      viewRef.current = next;
+      setState(prev => ({ ...prev, view: next }));
+    };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
+
+  useEffect(() => {
+    const mode = historyMode.current;
+    historyMode.current = 'replace';
+    const search = viewToSearch(view);
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (mode === 'push') window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, [view]);
+
+  const update = useCallback((patch: Partial<ViewState>) => {
+    const next = { ...viewRef.current, ...patch };
+    if (sameView(viewRef.current, next)) return;
+    const queryOnly = Object.keys(patch).every(k => k === 'query');
+    historyMode.current = queryOnly && lastChange.current === 'query' ? 'replace' : 'push';
+    lastChange.current = queryOnly ? 'query' : 'other';
+    viewRef.current = next;
+    setState(prev => ({ ...prev, view: next }));
+  }, []);
+
+  return [view, update];
+}
@@ -0,0 +1,36 @@
+import { UIEvent, useCallback, useState } from 'react';
+
+interface Options {
+  count: number;
+  rowHeight: number;
+  viewportHeight: number;
+  /** Extra rows rendered above and below the viewport. */
+  overscan?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Windowing for fixed-height rows: returns the slice of rows to render and
+ * the spacer heights that keep the scrollbar proportional to the full list.
+ */
+export function useVirtualRows({ count, rowHeight, viewportHeight, overscan = 8, enabled = true }: Options) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const onScroll = useCallback((e: UIEvent<HTMLElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  if (!enabled) {
+    return { start: 0, end: count, padTop: 0, padBottom: 0, onScroll: undefined };
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return {
+    start,
+    end,
+    padTop: start * rowHeight,
+    padBottom: Math.max(0, count - end) * rowHeight,
+    onScroll,
+  };
+}
@@ -1,20 +1,78 @@
 export type Priority = 'High' | 'Medium' | 'Low';
-export type Status = 'Todo' | 'In Progress' | 'Done';
+/** Name of a stage in the active workflow (see utils/workflow). */
+export type Status = string;
+
+/** One tracked span of work on a task. */
+export interface TimeEntry {
+  id: string;
+  /** ISO timestamps of when the timer was started and stopped. */
+  start: string;
+  end: string;
+  /** Time actually worked; less than end - start when the timer was paused. */
+  seconds: number;
+  note?: string;
+  /** Roster user who ran the timer. */
+  userId?: string;
+}
+
+/** One checklist item inside a task. */
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+  /** Estimated hours; see Task.timeTaken. */
+  estimate?: number;
+}
+
+/** One status change; the first entry (without `from`) is the status the task was created in. */
+export interface StatusChange {
+  from?: Status;
+  to: Status;
+  /** ISO timestamp */
+  at: string;
+}
 
 export interface Task {
   id: string;
   title: string;
   revenue: number;
+  /**
+   * Hours. Unless `timeTakenManual` is set, the sum of `timeEntries` when
+   * there are any, else of the subtask estimates when there are any.
+   */
   timeTaken: number;
   priority: Priority;
   status: Status;
   notes?: string;
   createdAt: string;
+  /** When the task entered its current closed stage; cleared when it's reopened. */
   completedAt?: string;
+  /** Earlier completedAt values, oldest first, archived each time the task was reopened. */
+  pastCompletions?: string[];
+  /** Calendar day (YYYY-MM-DD) the task is due; no time or zone. */
+  dueDate?: string;
+  /** Roster user who owns the task; unassigned when unset. */
+  assigneeId?: string;
+  /** Manual position within its board column; unset tasks sort last. */
+  boardOrder?: number;
+  timeEntries?: TimeEntry[];
+  /** Keeps a hand-typed timeTaken instead of deriving it from timeEntries or subtasks. */
+  timeTakenManual?: boolean;
+  /** Every status change, oldest first (see utils/statusHistory). */
+  statusHistory?: StatusChange[];
+  /** Recurring template this task was generated from (see utils/recurrence). */
+  templateId?: string;
+  /** Scheduled day (YYYY-MM-DD) of the template occurrence this task is for. */
+  occurrence?: string;
+  /** Checklist items in display order (see utils/subtasks). */
+  subtasks?: Subtask[];
 }
 
 export type TaskInput = Omit<Task, 'id' | 'createdAt' | 'completedAt'> & {
   id?: string;
+  /** Only set when importing historical data; defaults to now. */
+  createdAt?: string;
+  completedAt?: string;
 };
 
 export interface DerivedTask extends Task {
@@ -29,4 +87,27 @@ export interface Metrics {
   revenuePerHour: number;
   averageROI: number;
   performanceGrade: 'Excellent' | 'Good' | 'Needs Improvement';
+  /** Share of completed tasks with a due date finished on or before it; null when there are none. */
+  onTimeCompletionPct: number | null;
+}
+
+export type ActivityType = 'add' | 'update' | 'delete' | 'undo' | 'redo' | 'restore';
+
+export interface FieldChange {
+  field: keyof Task;
+  from?: Task[keyof Task];
+  to?: Task[keyof Task];
+}
+
+export interface ActivityEvent {
+  id: string;
+  /** ISO timestamp */
+  ts: string;
+  type: ActivityType;
+  actor: { id: string; name: string };
+  taskId?: string;
+  taskTitle?: string;
+  changes?: FieldChange[];
+  /** Bulk operation or undone/redone action this event belongs to. */
+  label?: string;
 }
@@ -0,0 +1,197 @@
+import { ActivityEvent, ActivityType, FieldChange, Task } from '@/types';
+import { TaskCommand, describedFields } from '@/utils/history';
+import { LOCAL_TIMEZONE, dayKey, formatDateTime } from '@/utils/dates';
+import { checklistProgress } from '@/utils/subtasks';
+import { newId } from '@/utils/ids';
+
+export const ACTIVITY_LIMIT = 1000;
+
+export type Actor = ActivityEvent['actor'];
+
+function changesOf(before: Partial<Task>, after: Partial<Task>): FieldChange[] {
+  return describedFields(after).map(field => ({
+    field,
+    from: before[field],
+    to: after[field],
+  }));
+}
+
+/** One event per task touched by the command; bulk commands are flattened. */
+export function eventsFromCommand(
+  cmd: TaskCommand,
+  actor: Actor,
+  label?: string,
+  ts = new Date().toISOString(),
+): ActivityEvent[] {
+  const base = { ts, actor, ...(label ? { label } : {}) };
+  switch (cmd.kind) {
+    case 'add':
+      return [{ ...base, id: newId(), type: 'add', taskId: cmd.task.id, taskTitle: cmd.task.title }];
+    case 'delete':
+      return [{ ...base, id: newId(), type: 'delete', taskId: cmd.task.id, taskTitle: cmd.task.title }];
+    case 'update':
+      return [{
+        ...base,
+        id: newId(),
+        type: 'update',
+        taskId: cmd.id,
+        taskTitle: cmd.title,
+        changes: changesOf(cmd.before, cmd.after),
+      }];
+    case 'bulk':
+      return cmd.commands.flatMap(c => eventsFromCommand(c, actor, cmd.label, ts));
+  }
+}
+
+/** Event for undoing (or redoing) a history entry. Updates record the fields as they change now. */
+export function historyEvent(
+  type: 'undo' | 'redo',
+  cmd: TaskCommand,
+  label: string,
+  actor: Actor,
+): ActivityEvent {
+  const event: ActivityEvent = {
+    id: newId(),
+    ts: new Date().toISOString(),
+    type,
+    actor,
+    label,
+  };
+  if (cmd.kind === 'update') {
+    event.taskId = cmd.id;
+    event.taskTitle = cmd.title;
+    event.changes =
+      type === 'undo' ? changesOf(cmd.after, cmd.before) : changesOf(cmd.before, cmd.after);
+  } else if (cmd.kind !== 'bulk') {
+    event.taskId = cmd.task.id;
+    event.taskTitle = cmd.task.title;
+  }
+  return event;
+}
+
+export function simpleEvent(type: ActivityType, label: string, actor: Actor): ActivityEvent {
+  return { id: newId(), ts: new Date().toISOString(), type, actor, label };
+}
+
+/** Newest first, capped at ACTIVITY_LIMIT. */
+export function appendActivity(
+  log: ReadonlyArray<ActivityEvent>,
+  events: ReadonlyArray<ActivityEvent>,
+): ActivityEvent[] {
+  return [...[...events].reverse(), ...log].slice(0, ACTIVITY_LIMIT);
+}
+
+/* ================= DISPLAY ================= */
+
+export function formatFieldValue(
+  field: keyof Task,
+  value: unknown,
+  {
+    userName = id => id,
+    timeZone = LOCAL_TIMEZONE,
+  }: { userName?: (id: string) => string; timeZone?: string } = {},
+): string {
+  if (value == null || value === '') return '—';
+  if (field === 'assigneeId' && typeof value === 'string') return userName(value);
+  if (field === 'revenue' && typeof value === 'number') return `$${value.toLocaleString()}`;
+  if (field === 'timeTaken') return `${value}h`;
+  if (field === 'timeEntries' && Array.isArray(value)) {
+    return value.length === 1 ? '1 entry' : `${value.length} entries`;
+  }
+  if (field === 'timeTakenManual') return value ? 'manual' : 'tracked';
+  if (field === 'statusHistory' && Array.isArray(value)) {
+    return value.length === 1 ? '1 change' : `${value.length} changes`;
+  }
+  if (field === 'subtasks' && Array.isArray(value)) {
+    const { done, total } = checklistProgress(value);
+    return `${done}/${total} done`;
+  }
+  if (field === 'pastCompletions' && Array.isArray(value)) {
+    return value.map(v => formatDateTime(v, timeZone)).join(', ');
+  }
+  if ((field === 'createdAt' || field === 'completedAt') && typeof value === 'string') {
+    return formatDateTime(value, timeZone);
+  }
+  return String(value);
+}
+
+export function describeActivity(e: ActivityEvent): string {
+  const title = e.taskTitle ?? e.taskId;
+  // Legacy entries only carry a free-text summary.
+  if (!title && e.type !== 'undo' && e.type !== 'redo' && e.label) return e.label;
+  switch (e.type) {
+    case 'add':
+      return `Added ${title}`;
+    case 'delete':
+      return `Deleted ${title}`;
+    case 'update':
+      return `Updated ${title}`;
+    case 'undo':
+      return `Undo: ${e.label ?? title ?? ''}`;
+    case 'redo':
+      return `Redo: ${e.label ?? title ?? ''}`;
+    case 'restore':
+      return e.label ?? 'Restored workspace';
+  }
+}
+
+/* ================= FILTERING ================= */
+
+export interface ActivityFilter {
+  taskId?: string;
+  type?: ActivityType;
+  /** Inclusive calendar-day bounds (YYYY-MM-DD) in the viewer's timezone. */
+  from?: string;
+  to?: string;
+}
+
+export function filterActivity(
+  events: ReadonlyArray<ActivityEvent>,
+  filter: ActivityFilter,
+  timeZone = LOCAL_TIMEZONE,
+): ActivityEvent[] {
+  return events.filter(e => {
+    if (filter.taskId && e.taskId !== filter.taskId) return false;
+    if (filter.type && e.type !== filter.type) return false;
+    if (!filter.from && !filter.to) return true;
+    const day = dayKey(e.ts, timeZone);
+    if (!day) return false;
+    return (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to);
+  });
+}
+
+/* ================= VALIDATION ================= */
+
+const TYPES: ActivityType[] = ['add', 'update', 'delete', 'undo', 'redo', 'restore'];
+
+const isFieldChange = (v: unknown): v is FieldChange =>
+  !!v && typeof v === 'object' && typeof (v as Record<string, unknown>).field === 'string';
+
+/**
+ * Coerces stored or imported records into events. Accepts the older
+ * `{ id, ts: number, type, summary }` shape, which had no structured fields.
+ */
+export function normalizeActivity(raw: unknown): ActivityEvent | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== 'string') return null;
+  const ts =
+    typeof r.ts === 'number' ? new Date(r.ts).toISOString() : typeof r.ts === 'string' ? r.ts : null;
+  if (!ts || Number.isNaN(new Date(ts).getTime())) return null;
+  const type = TYPES.find(t => t === r.type) ?? 'restore';
+  const a = r.actor && typeof r.actor === 'object' ? (r.actor as Record<string, unknown>) : {};
+  const actor =
+    typeof a.id === 'string' && typeof a.name === 'string'
+      ? { id: a.id, name: a.name }
+      : { id: 'unknown', name: 'Unknown' };
+  return {
+    id: r.id,
+    ts,
+    type,
+    actor,
+    taskId: typeof r.taskId === 'string' ? r.taskId : undefined,
+    taskTitle: typeof r.taskTitle === 'string' ? r.taskTitle : undefined,
+    changes: Array.isArray(r.changes) ? r.changes.filter(isFieldChange) : undefined,
+    label: typeof r.label === 'string' ? r.label : typeof r.summary === 'string' ? r.summary : undefined,
+  };
+}
@@ -0,0 +1,63 @@
+import { DerivedTask, Status, Task } from '@/types';
+import { Workflow, stageNames } from '@/utils/workflow';
+
+export type BoardColumns = Record<Status, DerivedTask[]>;
+
+/**
+ * Splits tasks into one column per workflow stage, in pipeline order. Within
+ * a column, manually ordered tasks come first by `boardOrder`; the rest keep
+ * their incoming (sorted) order. A status the workflow doesn't know lands in
+ * the first column.
+ */
+export function groupByStatus(tasks: ReadonlyArray<DerivedTask>, workflow: Workflow): BoardColumns {
+  const stages = stageNames(workflow);
+  const columns: BoardColumns = Object.fromEntries(stages.map(s => [s, [] as DerivedTask[]]));
+  tasks.forEach(t => (columns[t.status] ?? columns[stages[0]]).push(t));
+  stages.forEach(s => {
+    columns[s].sort(
+      (a, b) => (a.boardOrder ?? Number.POSITIVE_INFINITY) - (b.boardOrder ?? Number.POSITIVE_INFINITY),
+    );
+  });
+  return columns;
+}
+
+export interface BoardMove {
+  taskId: string;
+  toStatus: Status;
+  /** Position in the destination column after removing the task from its source. */
+  toIndex: number;
+}
+
+/** Columns as they would look after the move, for previews and planning. */
+export function previewMove(columns: BoardColumns, move: BoardMove): BoardColumns {
+  const from = Object.keys(columns).find(s => columns[s].some(t => t.id === move.taskId));
+  if (from === undefined) return columns;
+  const task = columns[from].find(t => t.id === move.taskId)!;
+  const next = { ...columns };
+  next[from] = columns[from].filter(t => t.id !== task.id);
+  const target = next[move.toStatus].filter(t => t.id !== task.id);
+  const index = Math.min(Math.max(move.toIndex, 0), target.length);
+  target.splice(index, 0, task);
+  next[move.toStatus] = target;
+  return next;
+}
+
+/**
+ * Patches needed to apply a move: the status change for the moved task (so
+ * completedAt is stamped by the normal update path) and renumbered
+ * `boardOrder` for every card in the destination column whose rank changed.
+ */
+export function planMove(
+  columns: BoardColumns,
+  move: BoardMove,
+): Array<{ id: string; patch: Partial<Task> }> {
+  const next = previewMove(columns, move);
+  const updates: Array<{ id: string; patch: Partial<Task> }> = [];
+  next[move.toStatus].forEach((t, i) => {
+    const patch: Partial<Task> = {};
+    if (t.boardOrder !== i) patch.boardOrder = i;
+    if (t.id === move.taskId && t.status !== move.toStatus) patch.status = move.toStatus;
+    if (Object.keys(patch).length) updates.push({ id: t.id, patch });
+  });
+  return updates;
+}
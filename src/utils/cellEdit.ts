@@ -0,0 +1,46 @@
+import { Task } from '@/types';
+import { validatePatch } from '@/utils/validation';
+import { DEFAULT_WORKFLOW } from '@/utils/workflow';
+
+/* ================= INLINE CELL EDITING ================= */
+
+export type EditableKey = 'title' | 'revenue' | 'timeTaken' | 'priority' | 'status';
+
+export const EDITABLE_KEYS: EditableKey[] = ['title', 'revenue', 'timeTaken', 'priority', 'status'];
+
+export const isEditable = (key: string): key is EditableKey =>
+  (EDITABLE_KEYS as string[]).includes(key);
+
+export function cellDraft(task: Task, key: EditableKey): string {
+  return String(task[key]);
+}
+
+export type CellResult = { patch: Partial<Task>; error: null } | { patch: null; error: string };
+
+/**
+ * Parses a draft cell value and validates it with the shared task rules. An
+ * unchanged value yields an empty patch.
+ */
+export function parseCell(
+  task: Task,
+  key: EditableKey,
+  draft: string,
+  existingTitles: ReadonlyArray<string>,
+  workflow = DEFAULT_WORKFLOW,
+): CellResult {
+  let value: Task[EditableKey];
+  if (key === 'revenue' || key === 'timeTaken') {
+    const n = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(n)) return { patch: null, error: 'Enter a number' };
+    value = n;
+  } else {
+    value = key === 'title' ? draft.trim() : draft;
+  }
+
+  const error = validatePatch(
+    { [key]: value },
+    { existingTitles, currentTitle: task.title, workflow, currentStatus: task.status },
+  )[key];
+  if (error) return { patch: null, error };
+  return { patch: value === task[key] ? {} : { [key]: value }, error: null };
+}
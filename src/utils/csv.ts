@@ -1,36 +1,161 @@
-import { Task } from '@/types';
-
-export function toCSV(tasks: ReadonlyArray<Task>): string {
-  // Injected bug: derive headers from first row keys (unstable, order may drift)
-  const headers = Object.keys((tasks[0] as any) ?? {});
-  const rows = tasks.map(t => [
-    t.id,
-    escapeCsv(t.title),
-    String(t.revenue),
-    String(t.timeTaken),
-    t.priority,
-    t.status,
-    escapeCsv(t.notes ?? ''),
-  ]);
-  return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+import { DerivedTask, Task } from '@/types';
+import { withDerived } from '@/utils/logic';
+import { formatChecklist } from '@/utils/subtasks';
+import { downloadBlob } from '@/utils/download';
+
+/* ================= EXPORT SCHEMA ================= */
+
+export type CsvColumnKey =
+  | 'id'
+  | 'title'
+  | 'revenue'
+  | 'timeTaken'
+  | 'priority'
+  | 'status'
+  | 'notes'
+  | 'assigneeId'
+  | 'subtasks'
+  | 'createdAt'
+  | 'completedAt'
+  | 'dueDate'
+  | 'roi'
+  | 'priorityWeight';
+
+export interface CsvColumn {
+  key: CsvColumnKey;
+  label: string;
+  group: 'core' | 'timestamps' | 'derived';
+  value: (t: DerivedTask) => string;
+}
+
+// Headers are the Task field names so an export maps 1:1 on re-import.
+// Order here is the column order in the file, regardless of selection order.
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: 'id', label: 'ID', group: 'core', value: t => t.id },
+  { key: 'title', label: 'Title', group: 'core', value: t => t.title },
+  { key: 'revenue', label: 'Revenue', group: 'core', value: t => String(t.revenue) },
+  { key: 'timeTaken', label: 'Time Taken', group: 'core', value: t => String(t.timeTaken) },
+  { key: 'priority', label: 'Priority', group: 'core', value: t => t.priority },
+  { key: 'status', label: 'Status', group: 'core', value: t => t.status },
+  { key: 'notes', label: 'Notes', group: 'core', value: t => t.notes ?? '' },
+  { key: 'assigneeId', label: 'Assignee', group: 'core', value: t => t.assigneeId ?? '' },
+  // One item per line; see formatChecklist for the format.
+  { key: 'subtasks', label: 'Subtasks', group: 'core', value: t => formatChecklist(t.subtasks) },
+  { key: 'createdAt', label: 'Created At', group: 'timestamps', value: t => t.createdAt },
+  { key: 'completedAt', label: 'Completed At', group: 'timestamps', value: t => t.completedAt ?? '' },
+  { key: 'dueDate', label: 'Due Date', group: 'timestamps', value: t => t.dueDate ?? '' },
+  { key: 'roi', label: 'ROI', group: 'derived', value: t => String(t.roi) },
+  { key: 'priorityWeight', label: 'Priority Weight', group: 'derived', value: t => String(t.priorityWeight) },
+];
+
+export const DEFAULT_CSV_COLUMNS: CsvColumnKey[] = CSV_COLUMNS
+  .filter(c => c.group === 'core')
+  .map(c => c.key);
+
+/** Columns fromCSV + the import mapper need to rebuild a task without loss. */
+export const ROUND_TRIP_COLUMNS: CsvColumnKey[] = [
+  ...DEFAULT_CSV_COLUMNS,
+  'createdAt',
+  'completedAt',
+  'dueDate',
+];
+
+export function toCSV(
+  tasks: ReadonlyArray<Task>,
+  columns: ReadonlyArray<CsvColumnKey> = DEFAULT_CSV_COLUMNS,
+): string {
+  const selected = CSV_COLUMNS.filter(c => columns.includes(c.key));
+  const header = selected.map(c => escapeCsv(c.key)).join(',');
+  const rows = tasks.map(t => {
+    const d = withDerived(t);
+    return selected.map(c => escapeCsv(c.value(d))).join(',');
+  });
+  return [header, ...rows].join('\r\n');
 }
 
+// RFC 4180: quote fields containing a delimiter, quote or line break, and
+// double any embedded quotes. Leading/trailing spaces are quoted too so
+// spreadsheet tools don't trim them.
 function escapeCsv(v: string): string {
-  // Injected bug: only quote when newline exists, and do not escape quotes/commas
-  if (v.includes('\n')) {
-    return `"${v}"`;
+  if (/[",\r\n]/.test(v) || v !== v.trim()) {
+    return `"${v.replace(/"/g, '""')}"`;
   }
   return v;
 }
 
-export function downloadCSV(filename: string, content: string) {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
+/**
+ * Parses RFC 4180 CSV into rows of cell strings. Handles quoted fields
+ * with embedded commas, newlines and doubled quotes, CRLF/LF line endings
+ * and a leading UTF-8 BOM. Blank lines are dropped. Whitespace around an
+ * unquoted field is dropped; quoted fields are kept exactly, which is how
+ * toCSV preserves leading and trailing spaces.
+ */
+export function fromCSV(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '"' && !quoted && !field.trim()) {
+      // Spaces before an opening quote aren't part of the value.
+      field = '';
+      inQuotes = true;
+      quoted = true;
+    } else if (ch === ',') {
+      endField();
+    } else if (ch === '\r' || ch === '\n') {
+      endRow();
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (inQuotes) throw new Error('Unterminated quoted field in CSV');
+  if (field !== '' || row.length) endRow();
+  return rows;
 }
 
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
 
+export function downloadCSV(filename: string, content: string) {
+  downloadBlob(filename, new Blob([content], { type: 'text/csv;charset=utf-8;' }));
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '@/types';
+import { ROUND_TRIP_COLUMNS, fromCSV, toCSV } from '@/utils/csv';
+import { guessMapping, planImport, validateImportRows } from '@/utils/csvImport';
+import { patchTask } from '@/utils/taskChanges';
+
+const task: Task = {
+  id: 't-1',
+  title: '  Pipeline review ',
+  revenue: 1200,
+  timeTaken: 2,
+  priority: 'High',
+  status: 'Todo',
+  notes: 'Line one\n  indented line  ',
+  createdAt: '2026-09-01T10:00:00.000Z',
+};
+
+const importRows = (text: string, existing: Task[] = []) => {
+  const [head, ...body] = fromCSV(text);
+  return validateImportRows(body, guessMapping(head), existing);
+};
+
+describe('fromCSV', () => {
+  it('keeps quoted whitespace and trims around unquoted cells', () => {
+    expect(fromCSV('a, b ," c ",  "d"\r\n')).toEqual([['a', 'b', ' c ', 'd']]);
+  });
+});
+
+describe('validateImportRows', () => {
+  it('round-trips titles and notes with edge whitespace', () => {
+    const [row] = importRows(toCSV([task], ROUND_TRIP_COLUMNS));
+    expect(row.errors).toEqual([]);
+    expect(row.values.title).toBe(task.title);
+    expect(row.values.notes).toBe(task.notes);
+  });
+
+  it('trims id, number and option cells', () => {
+    const [row] = importRows('id,title,revenue,timeTaken,priority,status\n" t-9 ",Deal," 10 "," 1 "," high "," Todo "');
+    expect(row.errors).toEqual([]);
+    expect(row.values).toMatchObject({ id: 't-9', revenue: 10, timeTaken: 1, priority: 'High', status: 'Todo' });
+  });
+
+  it('treats a whitespace-only title as missing', () => {
+    const [row] = importRows('title,revenue,timeTaken,priority,status\n"   ",10,1,High,Todo');
+    expect(row.errors).toContain('Title is required');
+  });
+
+  it('flags ids repeated within the file', () => {
+    const rows = importRows('id,title,revenue,timeTaken,priority,status\nn-1,First,10,1,High,Todo\nn-1,Second,10,1,High,Todo');
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(['Duplicate id "n-1" (also on row 2)']);
+  });
+});
+
+describe('planImport', () => {
+  const done: Task = { ...task, title: 'Pipeline review', status: 'Done', completedAt: '2026-09-05T10:00:00.000Z' };
+  const applied = (csv: string, strategy: 'overwrite' | 'merge' = 'overwrite') => {
+    const { toUpdate } = planImport(importRows(csv, [done]), strategy, [done]);
+    return patchTask(done, toUpdate[0].patch, undefined, '2026-09-20T10:00:00.000Z');
+  };
+  const header = 'id,title,revenue,timeTaken,priority,status,completedAt,notes';
+
+  it('keeps the completion of a closed task when overwriting with an empty cell', () => {
+    const updated = applied(`${header}
+t-1,Pipeline review,1200,2,High,Done,,`);
+    expect(updated.completedAt).toBe(done.completedAt);
+    expect(updated.notes).toBeUndefined();
+  });
+
+  it('archives the completion of a task the file reopens, ignoring its completedAt cell', () => {
+    const updated = applied(`${header}
+t-1,Pipeline review,1200,2,High,Todo,2026-09-10,`, 'merge');
+    expect(updated.completedAt).toBeUndefined();
+    expect(updated.pastCompletions).toEqual([done.completedAt]);
+  });
+});
@@ -0,0 +1,306 @@
+import { Task, TaskInput } from '@/types';
+import { PRIORITIES, validateField } from '@/utils/validation';
+import { DEFAULT_WORKFLOW, canTransition, isClosed, stageNames } from '@/utils/workflow';
+import { isDayString } from '@/utils/dueDates';
+import { dayKey } from '@/utils/dates';
+import { ChecklistError, estimateHours, parseChecklist } from '@/utils/subtasks';
+
+export type ImportField =
+  | 'id'
+  | 'title'
+  | 'revenue'
+  | 'timeTaken'
+  | 'priority'
+  | 'status'
+  | 'notes'
+  | 'assigneeId'
+  | 'subtasks'
+  | 'createdAt'
+  | 'completedAt'
+  | 'dueDate';
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: 'id', label: 'ID', required: false },
+  { field: 'title', label: 'Title', required: true },
+  { field: 'revenue', label: 'Revenue', required: true },
+  { field: 'timeTaken', label: 'Time Taken (h)', required: true },
+  { field: 'priority', label: 'Priority', required: true },
+  { field: 'status', label: 'Status', required: true },
+  { field: 'notes', label: 'Notes', required: false },
+  { field: 'assigneeId', label: 'Assignee ID', required: false },
+  { field: 'subtasks', label: 'Subtasks', required: false },
+  { field: 'createdAt', label: 'Created At', required: false },
+  { field: 'completedAt', label: 'Completed At', required: false },
+  { field: 'dueDate', label: 'Due Date', required: false },
+];
+
+/** Column index in the CSV for each task field, or null when unmapped. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type MergeStrategy = 'skip' | 'overwrite' | 'merge';
+
+export interface ImportRowResult {
+  /** 1-based line in the source file, counting the header row. */
+  rowNumber: number;
+  values: Partial<Task>;
+  errors: string[];
+  /** Mapped optional columns left empty in this row. */
+  blank: Array<'notes' | 'assigneeId' | 'subtasks' | 'dueDate'>;
+  /** Id of the existing task this row targets, if any. */
+  existingId?: string;
+}
+
+export interface ImportPlan {
+  toAdd: TaskInput[];
+  toUpdate: Array<{ id: string; patch: Partial<Task> }>;
+  skipped: number;
+  invalid: number;
+}
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z]/g, '');
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'taskid'],
+  title: ['title', 'name', 'task', 'subject'],
+  revenue: ['revenue', 'amount', 'value', 'dealvalue'],
+  timeTaken: ['timetaken', 'time', 'hours', 'timeh', 'timetakenh'],
+  priority: ['priority'],
+  status: ['status', 'stage'],
+  notes: ['notes', 'note', 'description', 'comments'],
+  assigneeId: ['assigneeid', 'assignee', 'owner', 'ownerid'],
+  subtasks: ['subtasks', 'checklist', 'checklistitems', 'items'],
+  createdAt: ['createdat', 'created', 'createddate'],
+  completedAt: ['completedat', 'completed', 'completeddate', 'closedate'],
+  dueDate: ['duedate', 'due', 'deadline', 'dueby'],
+};
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const idx = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    mapping[field] = idx >= 0 ? idx : null;
+  });
+  return mapping;
+}
+
+/* ================= CELL PARSERS ================= */
+
+function parseNumber(raw: string): number | null {
+  const cleaned = raw.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+function matchOption<T extends string>(raw: string, options: T[]): T | null {
+  const key = raw.toLowerCase().replace(/[\s_-]/g, '');
+  return options.find(o => o.toLowerCase().replace(/\s/g, '') === key) ?? null;
+}
+
+function parseDate(raw: string): string | null {
+  const d = new Date(raw);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+// Due dates are plain days; anything else date-like is read as a local day.
+function parseDay(raw: string): string | null {
+  if (isDayString(raw)) return raw;
+  return dayKey(parseDate(raw) ?? undefined) ?? null;
+}
+
+/* ================= VALIDATION ================= */
+
+// Free-text cells are taken as written: fromCSV already drops whitespace
+// around unquoted cells, so edge spaces left here were quoted on purpose.
+// Everything else is an id, number, option or date and is trimmed.
+const TEXT_FIELDS: ReadonlySet<ImportField> = new Set(['title', 'notes', 'subtasks']);
+
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: ReadonlyArray<Task>,
+  workflow = DEFAULT_WORKFLOW,
+): ImportRowResult[] {
+  const byId = new Map(existing.map(t => [t.id, t]));
+  const seenTitles = new Map<string, number>();
+  const seenIds = new Map<string, number>();
+
+  return rows.map((row, i) => {
+    const rowNumber = i + 2;
+    const cell = (f: ImportField) => {
+      const idx = mapping[f];
+      const raw = idx == null ? '' : (row[idx] ?? '');
+      return TEXT_FIELDS.has(f) ? raw : raw.trim();
+    };
+    const values: Partial<Task> = {};
+    const errors: string[] = [];
+
+    const id = cell('id');
+    const target = id ? byId.get(id) : undefined;
+    if (id) {
+      values.id = id;
+      const earlier = seenIds.get(id);
+      if (earlier) errors.push(`Duplicate id "${id}" (also on row ${earlier})`);
+      else seenIds.set(id, rowNumber);
+    }
+
+    const title = cell('title');
+    if (title.trim()) values.title = title;
+    else if (!target) errors.push('Title is required');
+
+    const revenueRaw = cell('revenue');
+    if (revenueRaw) {
+      const revenue = parseNumber(revenueRaw);
+      const problem = revenue == null ? `Revenue "${revenueRaw}" is not a number` : validateField('revenue', revenue);
+      if (problem) errors.push(problem);
+      else values.revenue = revenue!;
+    } else if (!target) {
+      errors.push('Revenue is required');
+    }
+
+    const timeRaw = cell('timeTaken');
+    if (timeRaw) {
+      const timeTaken = parseNumber(timeRaw);
+      const problem = timeTaken == null ? `Time "${timeRaw}" is not a number` : validateField('timeTaken', timeTaken);
+      if (problem) errors.push(problem);
+      else values.timeTaken = timeTaken!;
+    } else if (!target) {
+      errors.push('Time taken is required');
+    }
+
+    const priorityRaw = cell('priority');
+    if (priorityRaw) {
+      const priority = matchOption(priorityRaw, PRIORITIES);
+      if (!priority) errors.push(`Unknown priority "${priorityRaw}"`);
+      else values.priority = priority;
+    } else if (!target) {
+      errors.push('Priority is required');
+    }
+
+    const statusRaw = cell('status');
+    if (statusRaw) {
+      const status = matchOption(statusRaw, stageNames(workflow));
+      if (!status) errors.push(`Unknown status "${statusRaw}"`);
+      else if (target && !canTransition(workflow, target.status, status)) {
+        errors.push(`Can't move from ${target.status} to ${status}`);
+      } else values.status = status;
+    } else if (!target) {
+      errors.push('Status is required');
+    }
+
+    const blank: ImportRowResult['blank'] = [];
+    const notes = cell('notes');
+    if (notes.trim()) values.notes = notes;
+    else if (mapping.notes != null) blank.push('notes');
+    const assigneeId = cell('assigneeId');
+    if (assigneeId) values.assigneeId = assigneeId;
+    else if (mapping.assigneeId != null) blank.push('assigneeId');
+
+    const subtasksRaw = cell('subtasks');
+    if (subtasksRaw.trim()) {
+      try {
+        // Items matching one already on the task keep its id.
+        const ids = new Map(target?.subtasks?.map(s => [s.title, s.id]));
+        values.subtasks = parseChecklist(subtasksRaw).map(s => ({ ...s, id: ids.get(s.title) ?? s.id }));
+        // A time that isn't the estimates' sum came from a log or was typed;
+        // keep it rather than letting the estimates replace it.
+        const estimated = estimateHours(values.subtasks);
+        if (values.timeTaken !== undefined && estimated !== undefined && estimated !== values.timeTaken) {
+          values.timeTakenManual = true;
+        }
+      } catch (e) {
+        if (!(e instanceof ChecklistError)) throw e;
+        errors.push(e.message);
+      }
+    } else if (mapping.subtasks != null) {
+      blank.push('subtasks');
+    }
+
+    (['createdAt', 'completedAt'] as const).forEach(f => {
+      const raw = cell(f);
+      if (!raw) return;
+      const iso = parseDate(raw);
+      if (!iso) errors.push(`Invalid date "${raw}" for ${f}`);
+      else values[f] = iso;
+    });
+
+    const dueRaw = cell('dueDate');
+    if (dueRaw) {
+      const due = parseDay(dueRaw);
+      if (!due) errors.push(`Invalid date "${dueRaw}" for dueDate`);
+      else values.dueDate = due;
+    } else if (mapping.dueDate != null) {
+      blank.push('dueDate');
+    }
+
+    // Same rule as TaskForm: titles are unique case-insensitively, except
+    // against the task this row is updating.
+    if (values.title) {
+      const key = title.trim().toLowerCase();
+      const clash = existing.find(
+        t => t.title.trim().toLowerCase() === key && t.id !== target?.id,
+      );
+      if (clash) errors.push(`Duplicate title "${title}"`);
+      const earlier = seenTitles.get(key);
+      if (earlier) errors.push(`Duplicate title "${title}" (also on row ${earlier})`);
+      else seenTitles.set(key, rowNumber);
+    }
+
+    return { rowNumber, values, errors, blank, existingId: target?.id };
+  });
+}
+
+/* ================= PLANNING ================= */
+
+/**
+ * Decides what each valid row does:
+ * - skip: rows matching an existing id are left alone.
+ * - overwrite: the row replaces the existing task's mapped fields, so empty
+ *   notes/assignee/dueDate cells clear those values.
+ * - merge: only non-empty cells are applied and notes are appended to the
+ *   existing notes instead of replacing them.
+ * Rows without a matching id are always added.
+ *
+ * completedAt follows the resulting status rather than the cell: an empty
+ * cell keeps a closed task's completion, and a value on a row that leaves the
+ * task open is dropped (reopening archives the old one, see completionChange).
+ */
+export function planImport(
+  results: ImportRowResult[],
+  strategy: MergeStrategy,
+  existing: ReadonlyArray<Task>,
+  workflow = DEFAULT_WORKFLOW,
+): ImportPlan {
+  const byId = new Map(existing.map(t => [t.id, t]));
+  const plan: ImportPlan = { toAdd: [], toUpdate: [], skipped: 0, invalid: 0 };
+
+  results.forEach(r => {
+    if (r.errors.length) {
+      plan.invalid += 1;
+      return;
+    }
+    const target = r.existingId ? byId.get(r.existingId) : undefined;
+    if (!target) {
+      plan.toAdd.push(r.values as TaskInput);
+      return;
+    }
+    if (strategy === 'skip') {
+      plan.skipped += 1;
+      return;
+    }
+    const { id: _id, ...patch } = r.values;
+    if (!isClosed(workflow, patch.status ?? target.status)) delete patch.completedAt;
+    if (strategy === 'overwrite') {
+      r.blank.forEach(f => {
+        patch[f] = undefined;
+      });
+    } else if (patch.notes && target.notes && !target.notes.includes(patch.notes)) {
+      patch.notes = `${target.notes}\n${patch.notes}`;
+    }
+    if (Object.keys(patch).length) plan.toUpdate.push({ id: target.id, patch });
+    else plan.skipped += 1;
+  });
+
+  return plan;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DataSourceError, parseTasksPayload } from '@/utils/dataSource';
+
+const record = { id: 't-1', title: 'Pipeline review', revenue: 100, timeTaken: 2, priority: 'High', status: 'Todo' };
+
+describe('parseTasksPayload', () => {
+  it('lists skipped records with their problems', () => {
+    const { tasks, skipped } = parseTasksPayload([record, { ...record, id: 't-2', revenue: 'lots' }, 7]);
+    expect(tasks.map(t => t.id)).toEqual(['t-1']);
+    expect(skipped).toEqual([
+      { record: 2, problems: ['Revenue must be a number'] },
+      { record: 3, problems: ['Not a task'] },
+    ]);
+  });
+
+  it('dates closed tasks without completedAt to their creation', () => {
+    const createdAt = '2026-09-01T10:00:00.000Z';
+    const { tasks, backfilled } = parseTasksPayload([
+      { ...record, status: 'Done', createdAt },
+      { ...record, id: 't-2', title: 'Forecast update', status: 'Done', createdAt, completedAt: '2026-09-03T10:00:00.000Z' },
+    ]);
+    expect(backfilled).toEqual(['t-1']);
+    expect(tasks[0].completedAt).toBe(createdAt);
+    expect(tasks[1].completedAt).toBe('2026-09-03T10:00:00.000Z');
+  });
+
+  it('rejects payloads that are not arrays', () => {
+    expect(() => parseTasksPayload({ tasks: [] })).toThrow(DataSourceError);
+  });
+});
@@ -0,0 +1,133 @@
+import { Task } from '@/types';
+import { generateSalesTasks } from '@/utils/seed';
+import { validateTask } from '@/utils/validation';
+import { DEFAULT_WORKFLOW, isClosed } from '@/utils/workflow';
+
+export const TASKS_URL = import.meta.env.VITE_TASKS_URL || '/tasks.json';
+export const DEMO_TASK_COUNT = 30;
+
+export function isDemoMode(): boolean {
+  return import.meta.env.VITE_DEMO_MODE === 'true';
+}
+
+export class DataSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSourceError';
+  }
+}
+
+/* ================= VALIDATION ================= */
+
+/**
+ * Checks an untrusted record against the Task shape. Returns the list of
+ * problems; an empty list means the record can be coerced by `toTask`.
+ * createdAt may be missing here since `toTask` fills it in.
+ */
+export function validateTaskRecord(raw: unknown): string[] {
+  const errors = validateTask(raw);
+  if (raw && typeof raw === 'object' && (raw as Record<string, unknown>).createdAt == null) {
+    delete errors.createdAt;
+  }
+  return Object.values(errors);
+}
+
+/** Copies a record that passed `validateTaskRecord` into a Task, dropping empty optional fields. */
+export function toTask(raw: unknown, fallbackCreatedAt: string): Task {
+  const r = raw as Task;
+  return {
+    id: r.id,
+    title: r.title.trim(),
+    revenue: r.revenue,
+    timeTaken: r.timeTaken,
+    priority: r.priority,
+    status: r.status,
+    notes: r.notes || undefined,
+    createdAt: r.createdAt ?? fallbackCreatedAt,
+    completedAt: r.completedAt ?? undefined,
+    pastCompletions: r.pastCompletions?.length ? r.pastCompletions : undefined,
+    dueDate: r.dueDate || undefined,
+    assigneeId: r.assigneeId || undefined,
+    boardOrder: r.boardOrder ?? undefined,
+    timeEntries: r.timeEntries?.length ? r.timeEntries : undefined,
+    timeTakenManual: r.timeTakenManual || undefined,
+    statusHistory: r.statusHistory?.length ? r.statusHistory : undefined,
+    templateId: r.templateId || undefined,
+    occurrence: r.occurrence || undefined,
+    subtasks: r.subtasks?.length ? r.subtasks : undefined,
+  };
+}
+
+export interface SkippedRecord {
+  /** 1-based position in the payload. */
+  record: number;
+  problems: string[];
+}
+
+export interface TasksPayload {
+  tasks: Task[];
+  /** Invalid records that were left out. */
+  skipped: SkippedRecord[];
+  /** Ids of closed tasks that came without completedAt and were given their createdAt. */
+  backfilled: string[];
+}
+
+/**
+ * Turns a parsed JSON payload into tasks. Invalid records are skipped and
+ * listed so one bad row doesn't hide the whole board. Payloads use the
+ * default workflow; closed tasks without completedAt are taken to have
+ * closed when they were created, as tasks added in a closed stage do.
+ */
+export function parseTasksPayload(payload: unknown): TasksPayload {
+  if (!Array.isArray(payload)) {
+    throw new DataSourceError('Expected a JSON array of tasks');
+  }
+  const now = new Date().toISOString();
+  const result: TasksPayload = { tasks: [], skipped: [], backfilled: [] };
+  payload.forEach((raw, i) => {
+    const problems = validateTaskRecord(raw);
+    if (problems.length) {
+      result.skipped.push({ record: i + 1, problems });
+      return;
+    }
+    const task = toTask(raw, now);
+    if (!task.completedAt && isClosed(DEFAULT_WORKFLOW, task.status)) {
+      task.completedAt = task.createdAt;
+      result.backfilled.push(task.id);
+    }
+    result.tasks.push(task);
+  });
+  return result;
+}
+
+/* ================= LOADING ================= */
+
+export async function fetchTasks(url = TASKS_URL, signal?: AbortSignal): Promise<TasksPayload> {
+  let res: Response;
+  try {
+    res = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  } catch (e: unknown) {
+    if (e instanceof Error && e.name === 'AbortError') throw e;
+    throw new DataSourceError(`Could not reach ${url}`);
+  }
+  if (!res.ok) {
+    throw new DataSourceError(`Failed to load tasks from ${url} (HTTP ${res.status})`);
+  }
+  let payload: unknown;
+  try {
+    payload = await res.json();
+  } catch {
+    throw new DataSourceError(`Response from ${url} is not valid JSON`);
+  }
+  return parseTasksPayload(payload);
+}
+
+export function loadDemoTasks(): Task[] {
+  return generateSalesTasks(DEMO_TASK_COUNT);
+}
+
+/** Initial data for an empty workspace: seed data in demo mode, otherwise the configured endpoint. */
+export function loadInitialTasks(signal?: AbortSignal): Promise<TasksPayload> {
+  if (isDemoMode()) return Promise.resolve({ tasks: loadDemoTasks(), skipped: [], backfilled: [] });
+  return fetchTasks(TASKS_URL, signal);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { calendarDaysBetween, dayKey, wallClock, weekKey } from '@/utils/dates';
+
+const NY = 'America/New_York';
+const KOLKATA = 'Asia/Kolkata';
+const ADELAIDE = 'Australia/Adelaide';
+
+// New York springs forward on Sunday 2026-03-08 at 07:00Z (02:00 EST) and
+// falls back on Sunday 2026-11-01 at 06:00Z (02:00 EDT).
+
+describe('dayKey', () => {
+  it('switches day at local midnight on both sides of spring forward', () => {
+    expect(dayKey('2026-03-08T04:59:00Z', NY)).toBe('2026-03-07');
+    expect(dayKey('2026-03-08T05:00:00Z', NY)).toBe('2026-03-08');
+    expect(dayKey('2026-03-08T06:59:00Z', NY)).toBe('2026-03-08');
+    // 23:59 EDT; still the 8th although EST would already say the 9th.
+    expect(dayKey('2026-03-09T03:59:00Z', NY)).toBe('2026-03-08');
+    expect(dayKey('2026-03-09T04:00:00Z', NY)).toBe('2026-03-09');
+  });
+
+  it('switches day at local midnight on both sides of fall back', () => {
+    expect(dayKey('2026-11-01T03:59:00Z', NY)).toBe('2026-10-31');
+    expect(dayKey('2026-11-01T04:00:00Z', NY)).toBe('2026-11-01');
+    // 23:30 EST; EDT would already say the 2nd.
+    expect(dayKey('2026-11-02T04:30:00Z', NY)).toBe('2026-11-01');
+    expect(dayKey('2026-11-02T05:00:00Z', NY)).toBe('2026-11-02');
+  });
+
+  it('handles half-hour offsets', () => {
+    expect(dayKey('2026-06-30T18:29:00Z', KOLKATA)).toBe('2026-06-30');
+    expect(dayKey('2026-06-30T18:30:00Z', KOLKATA)).toBe('2026-07-01');
+  });
+
+  it('handles a half-hour zone leaving DST', () => {
+    // Adelaide goes from +10:30 to +9:30 on 2026-04-05 at 16:30Z.
+    expect(dayKey('2026-04-04T13:29:00Z', ADELAIDE)).toBe('2026-04-04');
+    expect(dayKey('2026-04-04T13:30:00Z', ADELAIDE)).toBe('2026-04-05');
+    expect(dayKey('2026-04-05T14:29:00Z', ADELAIDE)).toBe('2026-04-05');
+    expect(dayKey('2026-04-05T14:30:00Z', ADELAIDE)).toBe('2026-04-06');
+  });
+
+  it('is undefined for missing or invalid timestamps', () => {
+    expect(dayKey(undefined, NY)).toBeUndefined();
+    expect(dayKey('not a date', NY)).toBeUndefined();
+  });
+});
+
+describe('wallClock', () => {
+  it('reads the clock across a transition that is not on a UTC hour', () => {
+    expect(wallClock('2026-04-04T16:15:00Z', ADELAIDE)!.format('HH:mm')).toBe('02:45');
+    expect(wallClock('2026-04-04T16:45:00Z', ADELAIDE)!.format('HH:mm')).toBe('02:15');
+  });
+});
+
+describe('weekKey', () => {
+  const monday = { timeZone: NY, weekStart: 1 } as const;
+  const sunday = { timeZone: NY, weekStart: 0 } as const;
+
+  it('buckets the spring-forward Sunday by its local date', () => {
+    expect(weekKey('2026-03-09T03:30:00Z', monday)).toBe('2026-03-02');
+    expect(weekKey('2026-03-09T04:00:00Z', monday)).toBe('2026-03-09');
+    expect(weekKey('2026-03-08T05:00:00Z', sunday)).toBe('2026-03-08');
+    expect(weekKey('2026-03-08T04:59:00Z', sunday)).toBe('2026-03-01');
+  });
+
+  it('buckets the fall-back Sunday by its local date', () => {
+    expect(weekKey('2026-11-02T04:59:00Z', monday)).toBe('2026-10-26');
+    expect(weekKey('2026-11-02T05:00:00Z', monday)).toBe('2026-11-02');
+    expect(weekKey('2026-11-01T04:00:00Z', sunday)).toBe('2026-11-01');
+  });
+
+  it('uses the half-hour zone for the week boundary', () => {
+    // Monday 2026-06-29 00:00 in Kolkata.
+    expect(weekKey('2026-06-28T18:29:00Z', { timeZone: KOLKATA, weekStart: 1 })).toBe('2026-06-22');
+    expect(weekKey('2026-06-28T18:30:00Z', { timeZone: KOLKATA, weekStart: 1 })).toBe('2026-06-29');
+  });
+});
+
+describe('calendarDaysBetween', () => {
+  it('counts calendar days, not 24h spans, across spring forward', () => {
+    // 12:00 EST on the 7th to 00:00 EDT on the 9th: 35 hours, two days.
+    expect(calendarDaysBetween('2026-03-07T17:00:00Z', '2026-03-09T04:00:00Z', NY)).toBe(2);
+    // 23:00 on the 7th to 01:00 on the 8th, two hours later.
+    expect(calendarDaysBetween('2026-03-08T04:00:00Z', '2026-03-08T06:00:00Z', NY)).toBe(1);
+  });
+
+  it('counts calendar days, not 24h spans, across fall back', () => {
+    // 00:00 EDT on Oct 31 to 23:59 EST on Nov 1: 49 hours, one day.
+    expect(calendarDaysBetween('2026-10-31T04:00:00Z', '2026-11-02T04:59:00Z', NY)).toBe(1);
+    expect(calendarDaysBetween('2026-10-31T04:00:00Z', '2026-11-02T05:00:00Z', NY)).toBe(2);
+  });
+
+  it('uses the half-hour zone for day boundaries', () => {
+    expect(calendarDaysBetween('2026-06-30T18:29:00Z', '2026-06-30T18:30:00Z', KOLKATA)).toBe(1);
+    expect(calendarDaysBetween('2026-06-30T12:00:00Z', '2026-06-30T18:29:00Z', KOLKATA)).toBe(0);
+  });
+
+  it('is never negative', () => {
+    expect(calendarDaysBetween('2026-03-09T04:00:00Z', '2026-03-07T17:00:00Z', NY)).toBe(0);
+  });
+});
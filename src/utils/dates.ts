@@ -0,0 +1,203 @@
+import dayjs, { Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+
+dayjs.extend(utc);
+
+/* ================= SETTINGS ================= */
+
+// Every calendar question about a timestamp (which day, week or month is it
+// in, how many days apart are two of them, how should it read on screen)
+// depends on whose calendar we're asking about. All of those go through
+// this module with the user's timezone and week start.
+
+/** 0 = Sunday, 1 = Monday. */
+export type WeekStart = 0 | 1;
+
+export interface DateSettings {
+  /** IANA zone name, e.g. "America/New_York". */
+  timeZone: string;
+  weekStart: WeekStart;
+}
+
+export const LOCAL_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_DATE_SETTINGS: DateSettings = { timeZone: LOCAL_TIMEZONE, weekStart: 1 };
+
+const validZones = new Map<string, boolean>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  let valid = validZones.get(timeZone);
+  if (valid === undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      valid = true;
+    } catch {
+      valid = false;
+    }
+    validZones.set(timeZone, valid);
+  }
+  return valid;
+}
+
+/** Zones offered in pickers; older browsers without Intl.supportedValuesOf get a short list. */
+export function listTimeZones(): string[] {
+  const intl = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return (
+    intl.supportedValuesOf?.('timeZone') ?? [
+      'UTC',
+      'America/Los_Angeles',
+      'America/Denver',
+      'America/Chicago',
+      'America/New_York',
+      'America/Sao_Paulo',
+      'Europe/London',
+      'Europe/Berlin',
+      'Asia/Kolkata',
+      'Asia/Singapore',
+      'Asia/Tokyo',
+      'Australia/Sydney',
+    ]
+  );
+}
+
+/* ================= WALL CLOCK ================= */
+
+// Zone rules change on quarter-hour boundaries at the finest (Adelaide
+// moves at :30 UTC, Chatham at :45 local).
+const QUARTER_HOUR = 900_000;
+const DAY = 96 * QUARTER_HOUR;
+const MAX_CACHED_OFFSETS = 50_000;
+const offsets = new Map<string, number>();
+
+function cached(key: string, lookup: () => number): number {
+  let offset = offsets.get(key);
+  if (offset === undefined) {
+    offset = lookup();
+    if (offsets.size >= MAX_CACHED_OFFSETS) offsets.clear();
+    offsets.set(key, offset);
+  }
+  return offset;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Building a formatter per call (as dayjs's timezone plugin does) dominates
+// bucketing large boards; reusing one per zone is roughly 50x cheaper.
+function lookupOffset(ms: number, timeZone: string): number {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, fmt);
+  }
+  const p: Record<string, number> = {};
+  fmt.formatToParts(ms).forEach(part => {
+    if (part.type !== 'literal') p[part.type] = Number(part.value);
+  });
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((wall - (ms - (ms % 60_000))) / 60_000);
+}
+
+/**
+ * Minutes east of UTC for a zone at an instant. Offsets are cached per UTC
+ * day when the day has no transition (both ends agree) and per quarter hour
+ * otherwise.
+ */
+function zoneOffset(ms: number, timeZone: string): number {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const day = Math.floor(ms / DAY);
+  const start = cached(`${zone}|d${day}`, () => lookupOffset(day * DAY, zone));
+  const end = cached(`${zone}|d${day + 1}`, () => lookupOffset((day + 1) * DAY, zone));
+  if (start === end) return start;
+  const quarter = Math.floor(ms / QUARTER_HOUR);
+  return cached(`${zone}|q${quarter}`, () => lookupOffset(quarter * QUARTER_HOUR, zone));
+}
+
+/** Wall-clock time in `timeZone` as a Date whose UTC fields read like a clock there. */
+function wallDate(value: string | number | Date, timeZone: string): Date | undefined {
+  const ms = typeof value === 'number' ? value : new Date(value).getTime();
+  if (Number.isNaN(ms)) return undefined;
+  return new Date(ms + zoneOffset(ms, timeZone) * 60_000);
+}
+
+/**
+ * The wall-clock time in `timeZone` as a UTC dayjs, so its year/month/day
+ * fields read as they would on a clock there and day arithmetic never
+ * crosses a DST jump.
+ */
+export function wallClock(value: string | number | Date, timeZone: string): Dayjs | undefined {
+  const wall = wallDate(value, timeZone);
+  return wall && dayjs.utc(wall);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const ymd = (d: Date) => `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+
+/* ================= BUCKETING ================= */
+
+/** Calendar day (YYYY-MM-DD) of a timestamp in the given zone. */
+export function dayKey(iso: string | undefined, timeZone = LOCAL_TIMEZONE): string | undefined {
+  if (!iso) return undefined;
+  const wall = wallDate(iso, timeZone);
+  return wall && ymd(wall);
+}
+
+export function todayKey(timeZone = LOCAL_TIMEZONE, now = new Date()): string {
+  return ymd(wallDate(now, timeZone)!);
+}
+
+/** Month (YYYY-MM) of a timestamp in the given zone. */
+export function monthKey(value: string | Date, timeZone = LOCAL_TIMEZONE): string | undefined {
+  const wall = wallDate(value, timeZone);
+  return wall && ymd(wall).slice(0, 7);
+}
+
+/** First day (YYYY-MM-DD) of the week containing a timestamp. */
+export function weekKey(iso: string, settings: DateSettings = DEFAULT_DATE_SETTINGS): string | undefined {
+  const wall = wallDate(iso, settings.timeZone);
+  if (!wall) return undefined;
+  wall.setUTCDate(wall.getUTCDate() - ((wall.getUTCDay() - settings.weekStart + 7) % 7));
+  return ymd(wall);
+}
+
+/**
+ * Whole calendar days from `aISO` to `bISO` in the given zone, never
+ * negative. A task opened at 23:00 and closed at 01:00 took one day.
+ */
+export function calendarDaysBetween(aISO: string, bISO: string, timeZone = LOCAL_TIMEZONE): number {
+  const a = wallClock(aISO, timeZone);
+  const b = wallClock(bISO, timeZone);
+  if (!a || !b) return 0;
+  return Math.max(0, b.startOf('day').diff(a.startOf('day'), 'day'));
+}
+
+/** Days in a YYYY-MM month. */
+export const daysInMonth = (month: string) => dayjs.utc(`${month}-01`).daysInMonth();
+
+/* ================= DISPLAY ================= */
+
+function format(iso: string | undefined, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  if (!iso) return '—';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '—';
+  return d.toLocaleString(undefined, { ...options, timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC' });
+}
+
+export const formatDateTime = (iso: string | undefined, timeZone = LOCAL_TIMEZONE) =>
+  format(iso, timeZone, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatDate = (iso: string | undefined, timeZone = LOCAL_TIMEZONE) =>
+  format(iso, timeZone, { dateStyle: 'medium' });
+
+/** Formats a zone-less calendar day (due dates, bucket keys). */
+export function formatDay(day: string | undefined, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+  if (!day) return '—';
+  return dayjs.utc(day).toDate().toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+}
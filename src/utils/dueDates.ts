@@ -0,0 +1,100 @@
+import { Task } from '@/types';
+import { WeekStart, todayKey } from '@/utils/dates';
+import { DEFAULT_WORKFLOW, isClosed } from '@/utils/workflow';
+
+/* ================= CALENDAR DAYS ================= */
+
+// Due dates are calendar days ("YYYY-MM-DD") with no time or zone, so a
+// task due on the 5th is due on the 5th wherever it is viewed. "Today" is
+// the viewer's day in their own timezone (see utils/dates).
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local midnight of a day; `new Date('YYYY-MM-DD')` would be UTC midnight. */
+export function dayToDate(day: string, offset = 0): Date {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d + offset);
+}
+
+/** Strict YYYY-MM-DD check that also rejects rollovers such as 2026-02-31. */
+export function isDayString(v: unknown): v is string {
+  if (typeof v !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+  const [y, m, d] = v.split('-').map(Number);
+  const date = dayToDate(v);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
+}
+
+export function addDays(day: string, days: number): string {
+  const date = dayToDate(day, days);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+
+/* ================= DUE STATUS ================= */
+
+/** Open tasks due within this many days (today included) count as due soon. */
+export const DUE_SOON_DAYS = 3;
+
+export type DueState = 'overdue' | 'dueSoon';
+
+/** Closed tasks are never overdue or due soon. */
+export function dueState(
+  task: Pick<Task, 'dueDate' | 'status'>,
+  today = todayKey(),
+  workflow = DEFAULT_WORKFLOW,
+): DueState | null {
+  if (!task.dueDate || isClosed(workflow, task.status)) return null;
+  if (task.dueDate < today) return 'overdue';
+  if (task.dueDate < addDays(today, DUE_SOON_DAYS)) return 'dueSoon';
+  return null;
+}
+
+export const isOverdue = (task: Pick<Task, 'dueDate' | 'status'>, today = todayKey(), workflow = DEFAULT_WORKFLOW) =>
+  dueState(task, today, workflow) === 'overdue';
+
+/* ================= CALENDAR GRID ================= */
+
+export type CalendarSpan = 'month' | 'week';
+
+/** First day of the week (per `weekStart`) on or before the given day. */
+export function startOfWeek(day: string, weekStart: WeekStart = 0): string {
+  return addDays(day, -((dayToDate(day).getDay() - weekStart + 7) % 7));
+}
+
+/**
+ * Days shown for the span containing `anchor`: one week, or the whole weeks
+ * covering its month. Always a multiple of 7.
+ */
+export function calendarDays(anchor: string, span: CalendarSpan, weekStart: WeekStart = 0): string[] {
+  let first = startOfWeek(anchor, weekStart);
+  let count = 7;
+  if (span === 'month') {
+    const date = dayToDate(anchor);
+    const monthStart = addDays(anchor, 1 - date.getDate());
+    const monthEnd = addDays(monthStart, new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate() - 1);
+    first = startOfWeek(monthStart, weekStart);
+    count = Math.round((dayToDate(startOfWeek(monthEnd, weekStart)).getTime() - dayToDate(first).getTime()) / 86_400_000) + 7;
+  }
+  return Array.from({ length: count }, (_, i) => addDays(first, i));
+}
+
+/** Moves the anchor by one span; months clamp to the last day (Jan 31 → Feb 28). */
+export function shiftAnchor(anchor: string, span: CalendarSpan, step: number): string {
+  if (span === 'week') return addDays(anchor, step * 7);
+  const date = dayToDate(anchor);
+  const target = new Date(date.getFullYear(), date.getMonth() + step, 1);
+  const last = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), last));
+  return `${target.getFullYear()}-${pad(target.getMonth() + 1)}-${pad(target.getDate())}`;
+}
+
+export function groupByDueDate<T extends Pick<Task, 'dueDate'>>(tasks: ReadonlyArray<T>): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  tasks.forEach(t => {
+    if (!t.dueDate) return;
+    const list = groups.get(t.dueDate);
+    if (list) list.push(t);
+    else groups.set(t.dueDate, [t]);
+  });
+  return groups;
+}
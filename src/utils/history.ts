@@ -0,0 +1,118 @@
+import { Task } from '@/types';
+
+/* ================= COMMANDS ================= */
+
+export type TaskCommand =
+  | { kind: 'add'; task: Task; index: number }
+  | { kind: 'update'; id: string; title: string; before: Partial<Task>; after: Partial<Task> }
+  | { kind: 'delete'; task: Task; index: number }
+  | { kind: 'bulk'; label: string; commands: TaskCommand[] };
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  command: TaskCommand;
+}
+
+export const HISTORY_LIMIT = 100;
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  boardOrder: 'board position',
+  timeTaken: 'time',
+  completedAt: 'completion date',
+  pastCompletions: 'past completions',
+  createdAt: 'creation date',
+  dueDate: 'due date',
+  assigneeId: 'assignee',
+  timeEntries: 'time log',
+  timeTakenManual: 'time override',
+  statusHistory: 'status history',
+  templateId: 'template',
+  occurrence: 'occurrence',
+  subtasks: 'checklist',
+};
+
+/** How a task field is named in undo labels and the activity log. */
+export function fieldName(field: keyof Task): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+// Kept in step with status and completedAt changes, which already say what
+// these gained, so they're only listed when nothing else changed.
+const BOOKKEEPING: Array<keyof Task> = ['statusHistory', 'pastCompletions'];
+
+/** Fields of a change worth naming to the user. */
+export function describedFields(changed: Partial<Task>): Array<keyof Task> {
+  const fields = Object.keys(changed) as Array<keyof Task>;
+  return fields.filter(f => !BOOKKEEPING.includes(f) || fields.length === 1);
+}
+
+export function describeCommand(cmd: TaskCommand): string {
+  switch (cmd.kind) {
+    case 'add':
+      return `add ${cmd.task.title}`;
+    case 'delete':
+      return `delete ${cmd.task.title}`;
+    case 'update': {
+      return `edit ${describedFields(cmd.after).map(fieldName).join(', ')} on ${cmd.title}`;
+    }
+    case 'bulk':
+      return cmd.label;
+  }
+}
+
+/* ================= APPLY / REVERT ================= */
+
+function insertAt(tasks: Task[], task: Task, index: number): Task[] {
+  const next = tasks.filter(t => t.id !== task.id);
+  next.splice(Math.min(Math.max(index, 0), next.length), 0, task);
+  return next;
+}
+
+export function applyCommand(tasks: Task[], cmd: TaskCommand): Task[] {
+  switch (cmd.kind) {
+    case 'add':
+      return insertAt(tasks, cmd.task, cmd.index);
+    case 'update':
+      return tasks.map(t => (t.id === cmd.id ? { ...t, ...cmd.after } : t));
+    case 'delete':
+      return tasks.filter(t => t.id !== cmd.task.id);
+    case 'bulk':
+      return cmd.commands.reduce(applyCommand, tasks);
+  }
+}
+
+export function revertCommand(tasks: Task[], cmd: TaskCommand): Task[] {
+  switch (cmd.kind) {
+    case 'add':
+      return tasks.filter(t => t.id !== cmd.task.id);
+    case 'update':
+      return tasks.map(t => (t.id === cmd.id ? { ...t, ...cmd.before } : t));
+    case 'delete':
+      // Original position and createdAt come back with the stored task.
+      return insertAt(tasks, cmd.task, cmd.index);
+    case 'bulk':
+      return [...cmd.commands].reverse().reduce(revertCommand, tasks);
+  }
+}
+
+function copyField<K extends keyof Task>(target: Partial<Task>, source: Task, k: K) {
+  target[k] = source[k];
+}
+
+/**
+ * Builds an update command from a task and its patched version, keeping only
+ * the fields that actually changed. Returns null for a no-op patch.
+ */
+export function diffUpdate(before: Task, after: Task): TaskCommand | null {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Task>;
+  const prev: Partial<Task> = {};
+  const next: Partial<Task> = {};
+  keys.forEach(k => {
+    if (before[k] === after[k]) return;
+    copyField(prev, before, k);
+    copyField(next, after, k);
+  });
+  if (!Object.keys(next).length) return null;
+  return { kind: 'update', id: before.id, title: before.title, before: prev, after: next };
+}
@@ -0,0 +1,6 @@
+/** Random id for tasks, checklist items, log entries and the like. */
+export function newId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
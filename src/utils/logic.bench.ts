@@ -0,0 +1,60 @@
+import { bench, describe } from 'vitest';
+import { generateSalesTasks } from '@/utils/seed';
+import {
+  computeAssigneeBreakdown,
+  computeCompletionCounts,
+  computeCumulativeFlow,
+  computeForecast,
+  computeFunnel,
+  computeMetrics,
+  computeReopenRate,
+  computeThroughputByWeek,
+  computeTimeInStage,
+  computeVelocityByPriority,
+  computeWeightedPipeline,
+  sortTasks,
+  withDerived,
+} from '@/utils/logic';
+import { filterByQuery, parseQuery } from '@/utils/query';
+
+// The per-render work of the task page on generated boards: deriving and
+// sorting, one search keystroke (parse + filter + metrics, as App does), and
+// the analytics AnalyticsDashboard recomputes when the task list changes.
+// Run with `npm run bench`.
+
+const ctx = { userId: 'u-1', timeZone: 'UTC' };
+
+[1_000, 10_000, 50_000].forEach(size => {
+  const tasks = generateSalesTasks(size);
+  const derived = sortTasks(tasks.map(withDerived));
+
+  describe(`${size.toLocaleString('en-US')} tasks`, () => {
+    bench('derive + sort', () => {
+      sortTasks(tasks.map(withDerived));
+    });
+
+    // The first character matches the most tasks, so it's the slowest keystroke.
+    bench('keystroke (filter + metrics)', () => {
+      computeMetrics(filterByQuery(derived, parseQuery('p'), ctx), ctx.timeZone);
+    });
+
+    bench('keystroke (fielded query + metrics)', () => {
+      const query = parseQuery('status:todo,"in progress" revenue>1000 OR assignee:me is:overdue');
+      computeMetrics(filterByQuery(derived, query, ctx), ctx.timeZone);
+    });
+
+    bench('analytics', () => {
+      const settings = { timeZone: ctx.timeZone, weekStart: 1 } as const;
+      const weekly = computeThroughputByWeek(derived, settings);
+      computeFunnel(derived);
+      computeWeightedPipeline(derived);
+      computeForecast(weekly, 4);
+      computeVelocityByPriority(derived, ctx.timeZone, 'started');
+      computeAssigneeBreakdown(derived);
+      computeTimeInStage(derived);
+      computeReopenRate(derived);
+      computeCumulativeFlow(derived, undefined, ctx.timeZone);
+      computeCompletionCounts(derived);
+    });
+  });
+});
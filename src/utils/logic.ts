@@ -1,4 +1,9 @@
-import { DerivedTask, Task } from '@/types';
+import { DerivedTask, Metrics, Status, Task } from '@/types';
+import { DEFAULT_DATE_SETTINGS, DateSettings, LOCAL_TIMEZONE, calendarDaysBetween, dayKey, todayKey, weekKey } from '@/utils/dates';
+import { DEFAULT_WORKFLOW, Workflow, findStage, isClosed, isWon, stageIndex, stageProbability } from '@/utils/workflow';
+import { closedAt, reopenCount, stageStints, startedAt, statusTimeline, wasEverClosed } from '@/utils/statusHistory';
+import { addDays } from '@/utils/dueDates';
+import { checklistProgress } from '@/utils/subtasks';
 
 /* ================= ROI & SORTING ================= */
 
@@ -21,24 +26,90 @@ export function withDerived(task: Task): DerivedTask {
   };
 }
 
-export function sortTasks(tasks: ReadonlyArray<DerivedTask>): DerivedTask[] {
-  return [...tasks].sort((a, b) => {
-    if (b.roi !== a.roi) return b.roi - a.roi;
-    if (b.priorityWeight !== a.priorityWeight) {
-      return b.priorityWeight - a.priorityWeight;
+export type SortKey =
+  | 'title'
+  | 'revenue'
+  | 'timeTaken'
+  | 'roi'
+  | 'priority'
+  | 'status'
+  | 'createdAt'
+  | 'completedAt'
+  | 'dueDate'
+  | 'assigneeId'
+  | 'subtasks';
+
+export interface SortRule {
+  key: SortKey;
+  dir: 'asc' | 'desc';
+}
+
+/** The default "Recommended" ordering: ROI desc → priority weight desc → oldest first. */
+export const RECOMMENDED_SORT: SortRule[] = [
+  { key: 'roi', dir: 'desc' },
+  { key: 'priority', dir: 'desc' },
+  { key: 'createdAt', dir: 'asc' },
+];
+
+function sortValue(t: DerivedTask, key: SortKey, workflow: Workflow): number | string | undefined {
+  switch (key) {
+    case 'title':
+      return t.title.toLowerCase();
+    case 'priority':
+      return t.priorityWeight;
+    case 'status':
+      return stageIndex(workflow, t.status);
+    case 'createdAt':
+    case 'completedAt': {
+      const v = t[key];
+      return v ? new Date(v).getTime() : undefined;
     }
-    return (
-      new Date(a.createdAt).getTime() -
-      new Date(b.createdAt).getTime()
-    );
+    case 'subtasks':
+      return t.subtasks?.length ? checklistProgress(t.subtasks).pct : undefined;
+    default:
+      return t[key];
+  }
+}
+
+/**
+ * Sorts by each rule in turn, then by id so equal rows never shuffle.
+ * Missing values (e.g. no completedAt) sort last in either direction.
+ */
+export function sortTasksBy(
+  tasks: ReadonlyArray<DerivedTask>,
+  rules: ReadonlyArray<SortRule>,
+  workflow = DEFAULT_WORKFLOW,
+): DerivedTask[] {
+  // Keys are computed once per task rather than per comparison; date
+  // parsing dominates otherwise on large boards.
+  const keyed = tasks.map(t => ({ t, keys: rules.map(r => sortValue(t, r.key, workflow)) }));
+  keyed.sort((a, b) => {
+    for (let i = 0; i < rules.length; i++) {
+      const av = a.keys[i];
+      const bv = b.keys[i];
+      if (av === bv) continue;
+      if (av === undefined) return 1;
+      if (bv === undefined) return -1;
+      const cmp = av < bv ? -1 : 1;
+      return rules[i].dir === 'asc' ? cmp : -cmp;
+    }
+    return a.t.id < b.t.id ? -1 : a.t.id > b.t.id ? 1 : 0;
   });
+  return keyed.map(k => k.t);
+}
+
+export function sortTasks(tasks: ReadonlyArray<DerivedTask>): DerivedTask[] {
+  return sortTasksBy(tasks, RECOMMENDED_SORT);
 }
 
 /* ================= CORE METRICS ================= */
 
-export function computeTotalRevenue(tasks: ReadonlyArray<Task>): number {
+// "Done" means different things per metric: revenue only counts won
+// stages, while completion counts every closed (won or lost) stage.
+
+export function computeTotalRevenue(tasks: ReadonlyArray<Task>, workflow = DEFAULT_WORKFLOW): number {
   return tasks
-    .filter(t => t.status === 'Done')
+    .filter(t => isWon(workflow, t.status))
     .reduce((s, t) => s + t.revenue, 0);
 }
 
@@ -46,15 +117,15 @@ export function computeTotalTimeTaken(tasks: ReadonlyArray<Task>): number {
   return tasks.reduce((s, t) => s + t.timeTaken, 0);
 }
 
-export function computeTimeEfficiency(tasks: ReadonlyArray<Task>): number {
+export function computeTimeEfficiency(tasks: ReadonlyArray<Task>, workflow = DEFAULT_WORKFLOW): number {
   if (!tasks.length) return 0;
-  const done = tasks.filter(t => t.status === 'Done').length;
+  const done = tasks.filter(t => isClosed(workflow, t.status)).length;
   return (done / tasks.length) * 100;
 }
 
-export function computeRevenuePerHour(tasks: ReadonlyArray<Task>): number {
+export function computeRevenuePerHour(tasks: ReadonlyArray<Task>, workflow = DEFAULT_WORKFLOW): number {
   const time = computeTotalTimeTaken(tasks);
-  return time ? Number((computeTotalRevenue(tasks) / time).toFixed(2)) : 0;
+  return time ? Number((computeTotalRevenue(tasks, workflow) / time).toFixed(2)) : 0;
 }
 
 export function computeAverageROI(tasks: ReadonlyArray<Task>): number {
@@ -77,41 +148,122 @@ export function computePerformanceGrade(
   return 'Needs Improvement';
 }
 
-/* ================= TIME HELPERS ================= */
+/**
+ * Percentage of closed tasks with a due date that were completed on or before
+ * that day (the completion day taken in `timeZone`). Null when no task qualifies.
+ */
+export function computeOnTimeCompletion(
+  tasks: ReadonlyArray<Task>,
+  timeZone = LOCAL_TIMEZONE,
+  workflow = DEFAULT_WORKFLOW,
+): number | null {
+  const scored = tasks.filter(t => isClosed(workflow, t.status) && t.dueDate && t.completedAt);
+  if (!scored.length) return null;
+  const onTime = scored.filter(t => dayKey(t.completedAt, timeZone)! <= t.dueDate!).length;
+  return (onTime / scored.length) * 100;
+}
 
-export function daysBetween(aISO: string, bISO: string): number {
-  const a = new Date(aISO).getTime();
-  const b = new Date(bISO).getTime();
-  return Math.max(0, Math.round((b - a) / (24 * 60 * 60 * 1000)));
+export function computeMetrics(
+  tasks: ReadonlyArray<Task>,
+  timeZone = LOCAL_TIMEZONE,
+  workflow = DEFAULT_WORKFLOW,
+): Metrics {
+  const averageROI = computeAverageROI(tasks);
+  return {
+    totalRevenue: computeTotalRevenue(tasks, workflow),
+    totalTimeTaken: computeTotalTimeTaken(tasks),
+    timeEfficiencyPct: computeTimeEfficiency(tasks, workflow),
+    revenuePerHour: computeRevenuePerHour(tasks, workflow),
+    averageROI,
+    performanceGrade: computePerformanceGrade(averageROI),
+    onTimeCompletionPct: computeOnTimeCompletion(tasks, timeZone, workflow),
+  };
 }
 
-/* ================= ANALYTICS (REQUIRED) ================= */
+/* ================= BY ASSIGNEE ================= */
 
-export type FunnelCounts = {
-  todo: number;
-  inProgress: number;
+export interface AssigneeStats {
+  /** Undefined for unassigned tasks. */
+  assigneeId?: string;
+  total: number;
+  /** Tasks in a closed stage. */
   done: number;
-  conversionTodoToInProgress: number;
-  conversionInProgressToDone: number;
-};
+  /** Revenue of won tasks, as in computeTotalRevenue. */
+  revenue: number;
+  completionPct: number;
+}
 
-export function computeFunnel(tasks: ReadonlyArray<Task>): FunnelCounts {
-  const todo = tasks.filter(t => t.status === 'Todo').length;
-  const inProgress = tasks.filter(t => t.status === 'In Progress').length;
-  const done = tasks.filter(t => t.status === 'Done').length;
-  const total = todo + inProgress + done;
+/** Per-assignee revenue and completion, highest revenue first; unassigned last. */
+export function computeAssigneeBreakdown(tasks: ReadonlyArray<Task>, workflow = DEFAULT_WORKFLOW): AssigneeStats[] {
+  const groups = new Map<string | undefined, Task[]>();
+  tasks.forEach(t => {
+    const list = groups.get(t.assigneeId);
+    if (list) list.push(t);
+    else groups.set(t.assigneeId, [t]);
+  });
+  return Array.from(groups, ([assigneeId, list]) => {
+    const done = list.filter(t => isClosed(workflow, t.status)).length;
+    return {
+      assigneeId,
+      total: list.length,
+      done,
+      revenue: computeTotalRevenue(list, workflow),
+      completionPct: (done / list.length) * 100,
+    };
+  }).sort((x, y) => {
+    if (!x.assigneeId !== !y.assigneeId) return x.assigneeId ? -1 : 1;
+    return y.revenue - x.revenue;
+  });
+}
 
-  return {
-    todo,
-    inProgress,
-    done,
-    conversionTodoToInProgress: total ? (inProgress + done) / total : 0,
-    conversionInProgressToDone: inProgress ? done / inProgress : 0,
-  };
+/* ================= TIME HELPERS ================= */
+
+/** Cycle time in calendar days as seen in `timeZone`; see calendarDaysBetween. */
+export function daysBetween(aISO: string, bISO: string, timeZone = LOCAL_TIMEZONE): number {
+  return calendarDaysBetween(aISO, bISO, timeZone);
+}
+
+/* ================= ANALYTICS (REQUIRED) ================= */
+
+export interface FunnelStage {
+  stage: Status;
+  /** Tasks currently in the stage. */
+  count: number;
+  /**
+   * Tasks in this stage or further along the pipeline. Won stages count as
+   * furthest; lost tasks don't say how far they got, so they only count
+   * toward their own stage.
+   */
+  reached: number;
 }
 
+/** One entry per workflow stage, in pipeline order. */
+export function computeFunnel(tasks: ReadonlyArray<Task>, workflow = DEFAULT_WORKFLOW): FunnelStage[] {
+  const counts = new Map<Status, number>();
+  tasks.forEach(t => counts.set(t.status, (counts.get(t.status) ?? 0) + 1));
+  const open = workflow.stages.filter(s => s.outcome !== 'lost');
+  const won = open.filter(s => s.outcome === 'won').reduce((n, s) => n + (counts.get(s.name) ?? 0), 0);
+
+  return workflow.stages.map(s => {
+    const count = counts.get(s.name) ?? 0;
+    if (s.outcome) return { stage: s.name, count, reached: count };
+    const later = open.slice(open.indexOf(s)).filter(o => !o.outcome);
+    return { stage: s.name, count, reached: later.reduce((n, o) => n + (counts.get(o.name) ?? 0), 0) + won };
+  });
+}
+
+/**
+ * Where cycle time is measured from: creation, or the first move past the
+ * workflow's first stage (see startedAt). Tasks whose history doesn't show
+ * a start fall back to creation.
+ */
+export type CycleStart = 'created' | 'started';
+
 export function computeVelocityByPriority(
   tasks: ReadonlyArray<Task>,
+  timeZone = LOCAL_TIMEZONE,
+  from: CycleStart = 'created',
+  workflow = DEFAULT_WORKFLOW,
 ): Record<Task['priority'], { avgDays: number; medianDays: number }> {
   const groups: Record<Task['priority'], number[]> = {
     High: [],
@@ -120,9 +272,12 @@ export function computeVelocityByPriority(
   };
 
   tasks.forEach(t => {
-    if (t.completedAt) {
+    if (from === 'started') {
+      const done = closedAt(t, workflow);
+      if (done) groups[t.priority].push(daysBetween(startedAt(t, workflow) ?? t.createdAt, done, timeZone));
+    } else if (t.completedAt && isClosed(workflow, t.status)) {
       groups[t.priority].push(
-        daysBetween(t.createdAt, t.completedAt),
+        daysBetween(t.createdAt, t.completedAt, timeZone),
       );
     }
   });
@@ -141,27 +296,147 @@ export function computeVelocityByPriority(
   return result;
 }
 
+/* ================= STAGE HISTORY ================= */
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export interface StageDuration {
+  stage: Status;
+  /** Elapsed days per task, summed over every visit to the stage. */
+  avgDays: number;
+  medianDays: number;
+  tasks: number;
+}
+
+/**
+ * How long tasks sit in each open stage, from their status history. Visits
+ * still in progress count up to `now`; closed stages are left out since
+ * tasks stay in them for good.
+ */
+export function computeTimeInStage(
+  tasks: ReadonlyArray<Task>,
+  workflow = DEFAULT_WORKFLOW,
+  now = new Date(),
+): StageDuration[] {
+  const byStage = new Map<Status, number[]>();
+  tasks.forEach(t => {
+    const totals = new Map<Status, number>();
+    stageStints(t, workflow).forEach(s => {
+      if (!findStage(workflow, s.stage) || isClosed(workflow, s.stage)) return;
+      const end = s.end ? new Date(s.end).getTime() : now.getTime();
+      const ms = Math.max(0, end - new Date(s.start).getTime());
+      totals.set(s.stage, (totals.get(s.stage) ?? 0) + ms);
+    });
+    totals.forEach((ms, stage) => {
+      let days = byStage.get(stage);
+      if (!days) byStage.set(stage, (days = []));
+      days.push(ms / DAY_MS);
+    });
+  });
+
+  return workflow.stages
+    .filter(s => !s.outcome)
+    .map(s => {
+      const arr = (byStage.get(s.name) ?? []).sort((a, b) => a - b);
+      return {
+        stage: s.name,
+        avgDays: arr.length ? arr.reduce((sum, v) => sum + v, 0) / arr.length : 0,
+        medianDays: arr.length ? arr[Math.floor(arr.length / 2)] : 0,
+        tasks: arr.length,
+      };
+    });
+}
+
+/** Of the tasks that were ever closed, how many were later moved back to an open stage. */
+export function computeReopenRate(
+  tasks: ReadonlyArray<Task>,
+  workflow = DEFAULT_WORKFLOW,
+): { closed: number; reopened: number; ratePct: number | null } {
+  let closed = 0;
+  let reopened = 0;
+  tasks.forEach(t => {
+    if (!wasEverClosed(t, workflow)) return;
+    closed += 1;
+    if (reopenCount(t, workflow) > 0) reopened += 1;
+  });
+  return { closed, reopened, ratePct: closed ? (reopened / closed) * 100 : null };
+}
+
+/**
+ * Tasks closed right now versus closed at least once. Reopened tasks drop
+ * out of `current` (and out of throughput) but stay in `everCompleted`.
+ */
+export function computeCompletionCounts(
+  tasks: ReadonlyArray<Task>,
+  workflow = DEFAULT_WORKFLOW,
+): { current: number; everCompleted: number } {
+  return {
+    current: tasks.filter(t => isClosed(workflow, t.status)).length,
+    everCompleted: tasks.filter(t => wasEverClosed(t, workflow)).length,
+  };
+}
+
+/**
+ * Tasks in each stage at the end of each of the last `days` days in the
+ * user's timezone, oldest first; the data behind a cumulative flow diagram.
+ * Tasks only count from the day they were created.
+ */
+export function computeCumulativeFlow(
+  tasks: ReadonlyArray<Task>,
+  workflow = DEFAULT_WORKFLOW,
+  timeZone = LOCAL_TIMEZONE,
+  days = 30,
+  now = new Date(),
+): Array<{ day: string; counts: Record<Status, number> }> {
+  const today = todayKey(timeZone, now);
+  const result = Array.from({ length: days }, (_, i) => ({
+    day: addDays(today, i - days + 1),
+    counts: Object.fromEntries(workflow.stages.map(s => [s.name, 0])) as Record<Status, number>,
+  }));
+
+  tasks.forEach(t => {
+    const timeline = statusTimeline(t, workflow).map(c => ({ status: c.to, day: dayKey(c.at, timeZone) ?? '' }));
+    let next = 0;
+    let status: Status | undefined;
+    result.forEach(({ day, counts }) => {
+      while (next < timeline.length && timeline[next].day <= day) status = timeline[next++].status;
+      if (status !== undefined && status in counts) counts[status] += 1;
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Closed tasks per week, oldest first, with the revenue of the won ones.
+ * `week` is the first day (YYYY-MM-DD) of the week in the user's timezone
+ * and week start.
+ */
 export function computeThroughputByWeek(
   tasks: ReadonlyArray<Task>,
+  settings: DateSettings = DEFAULT_DATE_SETTINGS,
+  workflow = DEFAULT_WORKFLOW,
 ): Array<{ week: string; count: number; revenue: number }> {
   const map = new Map<string, { count: number; revenue: number }>();
 
   tasks.forEach(t => {
-    if (!t.completedAt) return;
-    const d = new Date(t.completedAt);
-    const week = `${d.getUTCFullYear()}-W${getWeekNumber(d)}`;
+    if (!t.completedAt || !isClosed(workflow, t.status)) return;
+    const week = weekKey(t.completedAt, settings);
+    if (!week) return;
     const v = map.get(week) ?? { count: 0, revenue: 0 };
     v.count += 1;
-    v.revenue += t.revenue;
+    if (isWon(workflow, t.status)) v.revenue += t.revenue;
     map.set(week, v);
   });
 
-  return Array.from(map.entries()).map(([week, v]) => ({ week, ...v }));
+  return Array.from(map.entries())
+    .map(([week, v]) => ({ week, ...v }))
+    .sort((a, b) => (a.week < b.week ? -1 : a.week > b.week ? 1 : 0));
 }
 
-export function computeWeightedPipeline(tasks: ReadonlyArray<Task>): number {
-  const weights = { Todo: 0.1, 'In Progress': 0.5, Done: 1 } as const;
-  return tasks.reduce((s, t) => s + t.revenue * weights[t.status], 0);
+/** Revenue weighted by each stage's probability of closing won. */
+export function computeWeightedPipeline(tasks: ReadonlyArray<Task>, workflow = DEFAULT_WORKFLOW): number {
+  return tasks.reduce((s, t) => s + t.revenue * stageProbability(workflow, t.status), 0);
 }
 
 export function computeForecast(
@@ -188,11 +463,3 @@ export function computeForecast(
     revenue: Math.max(0, slope * (x.length + i) + intercept),
   }));
 }
-
-function getWeekNumber(d: Date): number {
-  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
-  const dayNr = (target.getUTCDay() + 6) % 7;
-  target.setUTCDate(target.getUTCDate() - dayNr + 3);
-  const firstThursday = new Date(Date.UTC(target.getUTCFullYear(), 0, 4));
-  return 1 + Math.round((target.getTime() - firstThursday.getTime()) / (7 * 86400000));
-}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { DerivedTask } from '@/types';
+import { withDerived } from '@/utils/logic';
+import { QueryParseError, filterByQuery, formatQuery, parseQuery } from '@/utils/query';
+import { SALES_WORKFLOW } from '@/utils/workflow';
+
+const errorOf = (input: string) => {
+  try {
+    parseQuery(input);
+  } catch (e) {
+    if (e instanceof QueryParseError) return { message: e.message, position: e.position };
+    throw e;
+  }
+  throw new Error(`"${input}" parsed`);
+};
+
+describe('parseQuery', () => {
+  it('is empty for blank input', () => {
+    expect(parseQuery('   ')).toEqual({ kind: 'group', op: 'and', children: [] });
+  });
+
+  it('reads fields, aliases and operators', () => {
+    expect(parseQuery('note:contract revenue>=1000 created:<2026-09-01 time:2..4').children).toEqual([
+      { kind: 'text', field: 'notes', value: 'contract' },
+      { kind: 'number', field: 'revenue', op: '>=', value: 1000 },
+      { kind: 'date', field: 'createdAt', op: '<', value: '2026-09-01' },
+      { kind: 'number', field: 'timeTaken', op: 'between', value: 2, to: 4 },
+    ]);
+  });
+
+  it('keeps quoted values whole, including spaces, parens and escaped quotes', () => {
+    expect(parseQuery('status:"In Progress" title:"Q3 (EMEA) \\"final\\""').children).toEqual([
+      { kind: 'enum', field: 'status', values: ['In Progress'] },
+      { kind: 'text', field: 'title', value: 'Q3 (EMEA) "final"' },
+    ]);
+  });
+
+  it('matches enum values case- and space-insensitively against the workflow', () => {
+    expect(parseQuery('status:inprogress,done priority:HIGH').children).toEqual([
+      { kind: 'enum', field: 'status', values: ['In Progress', 'Done'] },
+      { kind: 'enum', field: 'priority', values: ['High'] },
+    ]);
+    expect(parseQuery('status:won', SALES_WORKFLOW).children).toEqual([
+      { kind: 'enum', field: 'status', values: ['Won'] },
+    ]);
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parseQuery('a OR b c')).toEqual({
+      kind: 'group',
+      op: 'or',
+      children: [
+        { kind: 'text', field: 'text', value: 'a' },
+        {
+          kind: 'group',
+          op: 'and',
+          children: [
+            { kind: 'text', field: 'text', value: 'b' },
+            { kind: 'text', field: 'text', value: 'c' },
+          ],
+        },
+      ],
+    });
+    expect(parseQuery('a AND b OR c')).toEqual(parseQuery('a b OR c'));
+  });
+
+  it('groups with parentheses', () => {
+    expect(parseQuery('(a OR b) c')).toEqual({
+      kind: 'group',
+      op: 'and',
+      children: [
+        {
+          kind: 'group',
+          op: 'or',
+          children: [
+            { kind: 'text', field: 'text', value: 'a' },
+            { kind: 'text', field: 'text', value: 'b' },
+          ],
+        },
+        { kind: 'text', field: 'text', value: 'c' },
+      ],
+    });
+  });
+
+  it('treats lowercase and/or and a colon after a non-field as search text', () => {
+    expect(parseQuery('Re: contract or renewal').children).toEqual([
+      { kind: 'text', field: 'text', value: 'Re:' },
+      { kind: 'text', field: 'text', value: 'contract' },
+      { kind: 'text', field: 'text', value: 'or' },
+      { kind: 'text', field: 'text', value: 'renewal' },
+    ]);
+  });
+});
+
+describe('parseQuery errors', () => {
+  it.each([
+    ['stauts:Done', 'Unknown field "stauts"', 0],
+    ['constructor:x', 'Unknown field "constructor"', 0],
+    ['title:"open', 'Unterminated quote', 6],
+    ['status:Archived', 'Unknown status "Archived" (expected Todo, In Progress, Done)', 0],
+    ['revenue>lots', 'Expected a number for "revenue", got "lots"', 0],
+    ['due:tomorrow', 'Expected a date like 2026-09-01 for "due", got "tomorrow"', 0],
+    ['revenue:..', 'A range needs at least one bound', 0],
+    ['title>x', '"title" only supports ":"', 0],
+    ['is:late', 'Expected is:overdue or is:duesoon', 0],
+    ['a OR', 'OR needs a condition on both sides', 2],
+    ['OR a', 'OR needs a condition on both sides', 0],
+    ['a AND', 'AND needs a condition on both sides', 2],
+    ['(a b', 'Missing ")"', 0],
+    ['a b)', 'Unexpected ")"', 3],
+    ['()', 'Empty parentheses', 0],
+  ])('%s → %s', (input, message, position) => {
+    expect(errorOf(input)).toEqual({ message, position });
+  });
+});
+
+describe('formatQuery', () => {
+  it.each([
+    'status:"In Progress" revenue>1000 (roi<200 OR created:>2026-09-01) notes:contract',
+    'title:"Q3 (EMEA) \\"final\\"" assignee:me,none is:overdue',
+    'revenue:100..500 due:2026-09-01.. time:<=4',
+    'a OR (b c) OR "AND"',
+    '"Re:" contract',
+  ])('round-trips %s', input => {
+    const query = parseQuery(input);
+    expect(parseQuery(formatQuery(query))).toEqual(query);
+  });
+
+  it('writes the canonical form', () => {
+    expect(formatQuery(parseQuery('note:x  timetaken:>2 AND duedate:=2026-09-01'))).toBe(
+      'notes:x time>2 due:2026-09-01',
+    );
+  });
+});
+
+describe('filterByQuery', () => {
+  const task = (id: string, extra: Partial<DerivedTask> = {}): DerivedTask =>
+    withDerived({
+      id,
+      title: id,
+      revenue: 100,
+      timeTaken: 1,
+      priority: 'Low',
+      status: 'Todo',
+      createdAt: '2026-09-01T12:00:00.000Z',
+      ...extra,
+    });
+  const tasks = [
+    task('Renewal', { notes: 'Re: contract', revenue: 2000 }),
+    task('Upsell', { priority: 'High', assigneeId: 'u-1' }),
+    task('Kickoff', { status: 'Done', completedAt: '2026-09-02T12:00:00.000Z' }),
+  ];
+  const ids = (q: string) => filterByQuery(tasks, parseQuery(q), { userId: 'u-1', timeZone: 'UTC' }).map(t => t.id);
+
+  it('evaluates conditions with AND/OR precedence', () => {
+    expect(ids('Re: contract')).toEqual(['Renewal']);
+    expect(ids('priority:high OR revenue>1000 status:todo')).toEqual(['Renewal', 'Upsell']);
+    expect(ids('assignee:me')).toEqual(['Upsell']);
+    expect(ids('completed:2026-09-02')).toEqual(['Kickoff']);
+    expect(ids('')).toEqual(['Renewal', 'Upsell', 'Kickoff']);
+  });
+});
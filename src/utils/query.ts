@@ -0,0 +1,554 @@
+import { DerivedTask } from '@/types';
+import { PRIORITIES } from '@/utils/validation';
+import { DEFAULT_WORKFLOW, Workflow, stageNames } from '@/utils/workflow';
+import { DueState, dueState, isDayString } from '@/utils/dueDates';
+import { LOCAL_TIMEZONE, dayKey, todayKey } from '@/utils/dates';
+
+/* ================= AST ================= */
+
+export type TextField = 'text' | 'title' | 'notes';
+export type EnumField = 'status' | 'priority';
+export type NumberField = 'revenue' | 'timeTaken' | 'roi';
+export type DateField = 'createdAt' | 'completedAt' | 'dueDate';
+export type QueryField = TextField | EnumField | NumberField | DateField | 'is' | 'assignee';
+
+export type CompareOp = '=' | '>' | '>=' | '<' | '<=';
+export type RangeOp = CompareOp | 'between';
+
+export interface QueryGroup {
+  kind: 'group';
+  op: 'and' | 'or';
+  children: QueryNode[];
+}
+
+/** Case-insensitive substring match; `text` searches title and notes. */
+export interface TextCondition {
+  kind: 'text';
+  field: TextField;
+  value: string;
+}
+
+/** Matches when the field equals any of the listed values. */
+export interface EnumCondition {
+  kind: 'enum';
+  field: EnumField;
+  values: string[];
+}
+
+/** `to` is only used by `between`, which is inclusive on both ends. */
+export interface NumberCondition {
+  kind: 'number';
+  field: NumberField;
+  op: RangeOp;
+  value: number;
+  to?: number;
+}
+
+/** Dates are calendar days (YYYY-MM-DD) in the viewer's timezone. */
+export interface DateCondition {
+  kind: 'date';
+  field: DateField;
+  op: RangeOp;
+  value: string;
+  to?: string;
+}
+
+/** `is:overdue` / `is:duesoon`, evaluated against today's date. */
+export interface FlagCondition {
+  kind: 'flag';
+  field: 'is';
+  flag: DueState;
+}
+
+/**
+ * Matches tasks assigned to any of the listed user ids. `me` is the active
+ * user at evaluation time and `none` matches unassigned tasks.
+ */
+export interface AssigneeCondition {
+  kind: 'assignee';
+  field: 'assignee';
+  values: string[];
+}
+
+export type QueryCondition =
+  | TextCondition
+  | EnumCondition
+  | NumberCondition
+  | DateCondition
+  | FlagCondition
+  | AssigneeCondition;
+export type QueryNode = QueryGroup | QueryCondition;
+
+export const EMPTY_QUERY: QueryGroup = { kind: 'group', op: 'and', children: [] };
+
+export function fieldKind(field: QueryField): QueryCondition['kind'] {
+  switch (field) {
+    case 'text':
+    case 'title':
+    case 'notes':
+      return 'text';
+    case 'status':
+    case 'priority':
+      return 'enum';
+    case 'revenue':
+    case 'timeTaken':
+    case 'roi':
+      return 'number';
+    case 'createdAt':
+    case 'completedAt':
+    case 'dueDate':
+      return 'date';
+    case 'is':
+      return 'flag';
+    case 'assignee':
+      return 'assignee';
+  }
+}
+
+/* ================= SYNTAX ================= */
+
+/** Canonical keyword for each field in the text syntax. */
+const FIELD_KEYWORDS: Record<QueryField, string> = {
+  text: 'text',
+  title: 'title',
+  notes: 'notes',
+  status: 'status',
+  priority: 'priority',
+  revenue: 'revenue',
+  timeTaken: 'time',
+  roi: 'roi',
+  createdAt: 'created',
+  completedAt: 'completed',
+  dueDate: 'due',
+  is: 'is',
+  assignee: 'assignee',
+};
+
+const FLAG_KEYWORDS: Record<DueState, string> = { overdue: 'overdue', dueSoon: 'duesoon' };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  ...Object.fromEntries(Object.entries(FIELD_KEYWORDS).map(([f, k]) => [k, f as QueryField])),
+  note: 'notes',
+  timetaken: 'timeTaken',
+  createdat: 'createdAt',
+  completedat: 'completedAt',
+  duedate: 'dueDate',
+  owner: 'assignee',
+  assigneeid: 'assignee',
+};
+
+// Own keys only, so "constructor:" isn't taken for a field.
+const lookupField = (name: string): QueryField | undefined =>
+  Object.prototype.hasOwnProperty.call(FIELD_ALIASES, name.toLowerCase()) ? FIELD_ALIASES[name.toLowerCase()] : undefined;
+
+export class QueryParseError extends Error {
+  /** Zero-based offset into the query text. */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or'; pos: number }
+  | { type: 'term'; pos: number; field?: string; op?: string; value: string; quoted: boolean };
+
+const OPERATOR = /^(:>=|:<=|:>|:<|:=|:|>=|<=|>|<|=)/;
+const DELIMITER = /[\s()]/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const start = i;
+    let out = '';
+    i++;
+    while (i < input.length && input[i] !== '"') {
+      if (input[i] === '\\' && i + 1 < input.length) i++;
+      out += input[i++];
+    }
+    if (i >= input.length) throw new QueryParseError('Unterminated quote', start);
+    i++;
+    return out;
+  };
+
+  // A value runs to the next whitespace or paren; quoted parts may contain either.
+  const readValue = (): { value: string; quoted: boolean } => {
+    let value = '';
+    let quoted = false;
+    while (i < input.length && !DELIMITER.test(input[i])) {
+      if (input[i] === '"') {
+        value += readQuoted();
+        quoted = true;
+      } else {
+        value += input[i++];
+      }
+    }
+    return { value, quoted };
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    const pos = i;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ type: 'lparen', pos });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ type: 'rparen', pos });
+      i++;
+    } else {
+      const field = /^[A-Za-z]+/.exec(input.slice(i))?.[0];
+      const op = field ? OPERATOR.exec(input.slice(i + field.length))?.[0] : undefined;
+      // A word ending in a colon that isn't a field ("Re: contract") is
+      // search text; an unknown field with a value is most likely a typo.
+      const next = field && op ? input[i + field.length + op.length] : undefined;
+      const isText = !!field && !lookupField(field) && (next === undefined || DELIMITER.test(next));
+      if (field && op && !isText) {
+        i += field.length + op.length;
+        tokens.push({ type: 'term', pos, field, op, ...readValue() });
+        continue;
+      }
+      const { value, quoted } = readValue();
+      if (!quoted && (value === 'AND' || value === 'OR')) {
+        tokens.push({ type: value === 'AND' ? 'and' : 'or', pos });
+      } else {
+        tokens.push({ type: 'term', pos, value, quoted });
+      }
+    }
+  }
+  return tokens;
+}
+
+function parseRange<T>(
+  op: string,
+  raw: string,
+  pos: number,
+  parse: (v: string) => T,
+): { op: RangeOp; value: T; to?: T } {
+  const bare = op.replace(/^:/, '') || '=';
+  if ((bare === '=' || op === ':') && raw.includes('..')) {
+    const [from, to] = raw.split('..');
+    if (!from && !to) throw new QueryParseError('A range needs at least one bound', pos);
+    if (!to) return { op: '>=', value: parse(from) };
+    if (!from) return { op: '<=', value: parse(to) };
+    return { op: 'between', value: parse(from), to: parse(to) };
+  }
+  return { op: bare as CompareOp, value: parse(raw) };
+}
+
+function termToCondition(token: Extract<Token, { type: 'term' }>, workflow: Workflow): QueryCondition {
+  if (!token.field) return { kind: 'text', field: 'text', value: token.value };
+
+  const field = lookupField(token.field);
+  if (!field) throw new QueryParseError(`Unknown field "${token.field}"`, token.pos);
+  const op = token.op!;
+  const keyword = FIELD_KEYWORDS[field];
+
+  switch (fieldKind(field)) {
+    case 'text':
+      if (op !== ':' && op !== '=' && op !== ':=') {
+        throw new QueryParseError(`"${keyword}" only supports ":"`, token.pos);
+      }
+      return { kind: 'text', field: field as TextField, value: token.value };
+
+    case 'enum': {
+      if (op !== ':' && op !== '=' && op !== ':=') {
+        throw new QueryParseError(`"${keyword}" only supports ":"`, token.pos);
+      }
+      const allowed: string[] = field === 'status' ? stageNames(workflow) : PRIORITIES;
+      const squash = (v: string) => v.replace(/\s+/g, '').toLowerCase();
+      const values = token.value.split(',').map(v => {
+        const match = allowed.find(a => squash(a) === squash(v));
+        if (!match) {
+          throw new QueryParseError(`Unknown ${keyword} "${v}" (expected ${allowed.join(', ')})`, token.pos);
+        }
+        return match;
+      });
+      return { kind: 'enum', field: field as EnumField, values };
+    }
+
+    case 'number': {
+      const parse = (v: string) => {
+        const n = Number(v);
+        if (v.trim() === '' || !Number.isFinite(n)) {
+          throw new QueryParseError(`Expected a number for "${keyword}", got "${v}"`, token.pos);
+        }
+        return n;
+      };
+      return { kind: 'number', field: field as NumberField, ...parseRange(op, token.value, token.pos, parse) };
+    }
+
+    case 'flag': {
+      const flag = (Object.keys(FLAG_KEYWORDS) as DueState[]).find(
+        f => FLAG_KEYWORDS[f] === token.value.toLowerCase(),
+      );
+      if ((op !== ':' && op !== '=') || !flag) {
+        throw new QueryParseError(`Expected is:overdue or is:duesoon`, token.pos);
+      }
+      return { kind: 'flag', field: 'is', flag };
+    }
+
+    case 'assignee': {
+      if (op !== ':' && op !== '=' && op !== ':=') {
+        throw new QueryParseError(`"${keyword}" only supports ":"`, token.pos);
+      }
+      const values = token.value.split(',').map(v => {
+        const special = v.toLowerCase();
+        return special === 'me' || special === 'none' ? special : v;
+      });
+      if (values.some(v => !v)) throw new QueryParseError(`Expected a user id, "me" or "none"`, token.pos);
+      return { kind: 'assignee', field: 'assignee', values };
+    }
+
+    case 'date': {
+      const parse = (v: string) => {
+        if (!isDayString(v)) {
+          throw new QueryParseError(`Expected a date like 2026-09-01 for "${keyword}", got "${v}"`, token.pos);
+        }
+        return v;
+      };
+      return { kind: 'date', field: field as DateField, ...parseRange(op, token.value, token.pos, parse) };
+    }
+  }
+}
+
+/**
+ * Parses the text syntax into a query tree. Terms separated by whitespace
+ * (or `AND`) must all match; `OR` binds looser than AND; parentheses group.
+ *
+ *   status:"In Progress" revenue>1000 (roi<200 OR created:>2026-09-01) notes:contract
+ *
+ * Throws QueryParseError with the offending position on invalid input.
+ */
+export function parseQuery(input: string, workflow = DEFAULT_WORKFLOW): QueryGroup {
+  const tokens = tokenize(input);
+  const parenthesized = new WeakSet<QueryNode>();
+  let i = 0;
+
+  const peek = () => tokens[i];
+
+  const parseOr = (): QueryNode => {
+    const parts = [parseAnd()];
+    while (peek()?.type === 'or') {
+      const or = tokens[i++];
+      if (!peek() || peek().type === 'rparen' || peek().type === 'or') {
+        throw new QueryParseError('OR needs a condition on both sides', or.pos);
+      }
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : { kind: 'group', op: 'or', children: parts };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const parts: QueryNode[] = [];
+    for (;;) {
+      const t = peek();
+      if (!t || t.type === 'rparen' || t.type === 'or') break;
+      if (t.type === 'and') {
+        i++;
+        if (!parts.length || !peek() || peek().type === 'rparen' || peek().type === 'or') {
+          throw new QueryParseError('AND needs a condition on both sides', t.pos);
+        }
+        continue;
+      }
+      parts.push(parsePrimary());
+    }
+    if (!parts.length) {
+      const t = peek();
+      throw new QueryParseError(
+        t?.type === 'or'
+          ? 'OR needs a condition on both sides'
+          : t?.type === 'rparen'
+            ? 'Unexpected ")"'
+            : 'Expected a condition',
+        t?.pos ?? input.length,
+      );
+    }
+    return parts.length === 1 ? parts[0] : { kind: 'group', op: 'and', children: parts };
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const t = tokens[i++];
+    if (t.type === 'lparen') {
+      if (peek()?.type === 'rparen') throw new QueryParseError('Empty parentheses', t.pos);
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') throw new QueryParseError('Missing ")"', t.pos);
+      i++;
+      // Keep explicit grouping visible to the builder even around one term.
+      const group: QueryGroup = inner.kind === 'group' ? inner : { kind: 'group', op: 'and', children: [inner] };
+      parenthesized.add(group);
+      return group;
+    }
+    if (t.type === 'term') return termToCondition(t, workflow);
+    throw new QueryParseError('Expected a condition', t.pos);
+  };
+
+  if (!tokens.length) return EMPTY_QUERY;
+  const root = parseOr();
+  if (i < tokens.length) throw new QueryParseError('Unexpected ")"', tokens[i].pos);
+  return root.kind === 'group' && !parenthesized.has(root) ? root : { kind: 'group', op: 'and', children: [root] };
+}
+
+export type ParsedQuery = { query: QueryGroup; error: null } | { query: null; error: QueryParseError };
+
+/** Non-throwing variant for UI code. */
+export function tryParseQuery(input: string, workflow = DEFAULT_WORKFLOW): ParsedQuery {
+  try {
+    return { query: parseQuery(input, workflow), error: null };
+  } catch (e) {
+    if (e instanceof QueryParseError) return { query: null, error: e };
+    throw e;
+  }
+}
+
+/* ================= FORMAT ================= */
+
+function quote(v: string): string {
+  if (v !== '' && !/[\s()":<>=]/.test(v) && v !== 'AND' && v !== 'OR') return v;
+  return `"${v.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function formatRange(keyword: string, op: RangeOp, value: string, to: string | undefined, sep: string): string {
+  if (op === 'between') return `${keyword}:${value}..${to ?? ''}`;
+  if (op === '=') return `${keyword}:${value}`;
+  return `${keyword}${sep}${op}${value}`;
+}
+
+function formatCondition(c: QueryCondition): string {
+  const keyword = FIELD_KEYWORDS[c.field];
+  switch (c.kind) {
+    case 'text':
+      return c.field === 'text' ? quote(c.value) : `${keyword}:${quote(c.value)}`;
+    case 'enum':
+      return `${keyword}:${c.values.map(quote).join(',')}`;
+    case 'number':
+      return formatRange(keyword, c.op, String(c.value), c.to === undefined ? undefined : String(c.to), '');
+    case 'date':
+      return formatRange(keyword, c.op, c.value, c.to, ':');
+    case 'flag':
+      return `is:${FLAG_KEYWORDS[c.flag]}`;
+    case 'assignee':
+      return `${keyword}:${c.values.map(quote).join(',')}`;
+  }
+}
+
+/** Turns a query tree back into text that parses to the same tree. */
+export function formatQuery(node: QueryNode, nested = false): string {
+  if (node.kind !== 'group') return formatCondition(node);
+  const parts = node.children.map(c => formatQuery(c, true)).filter(Boolean);
+  if (!parts.length) return '';
+  const text = parts.join(node.op === 'or' ? ' OR ' : ' ');
+  return nested ? `(${text})` : text;
+}
+
+/* ================= EVALUATE ================= */
+
+function compare<T extends number | string>(actual: T, op: RangeOp, value: T, to?: T): boolean {
+  switch (op) {
+    case '=':
+      return actual === value;
+    case '>':
+      return actual > value;
+    case '>=':
+      return actual >= value;
+    case '<':
+      return actual < value;
+    case '<=':
+      return actual <= value;
+    case 'between':
+      return actual >= value && (to === undefined || actual <= to);
+  }
+}
+
+/** Values that depend on when and by whom the query is evaluated. */
+export interface MatchContext {
+  today: string;
+  /** Zone timestamps are bucketed into days in. */
+  timeZone: string;
+  /** The active user, for `assignee:me`. */
+  userId?: string;
+  /** Decides which stages are closed for `is:overdue`. */
+  workflow?: Workflow;
+}
+
+const localContext = (): MatchContext => ({ today: todayKey(), timeZone: LOCAL_TIMEZONE });
+
+export function matchesQuery(task: DerivedTask, node: QueryNode, ctx: MatchContext = localContext()): boolean {
+  switch (node.kind) {
+    case 'group':
+      return node.op === 'and'
+        ? node.children.every(c => matchesQuery(task, c, ctx))
+        : node.children.some(c => matchesQuery(task, c, ctx));
+    case 'text': {
+      const needle = node.value.toLowerCase();
+      if (!needle) return true;
+      const title = task.title.toLowerCase();
+      const notes = (task.notes ?? '').toLowerCase();
+      if (node.field === 'title') return title.includes(needle);
+      if (node.field === 'notes') return notes.includes(needle);
+      return title.includes(needle) || notes.includes(needle);
+    }
+    case 'enum':
+      return node.values.includes(task[node.field]);
+    case 'number':
+      return compare(task[node.field], node.op, node.value, node.to);
+    case 'date': {
+      // dueDate is already a calendar day; timestamps are bucketed in the viewer's zone.
+      const day = node.field === 'dueDate' ? task.dueDate : dayKey(task[node.field], ctx.timeZone);
+      return day !== undefined && compare(day, node.op, node.value, node.to);
+    }
+    case 'flag':
+      return dueState(task, ctx.today, ctx.workflow) === node.flag;
+    case 'assignee':
+      return node.values.some(v =>
+        v === 'none' ? !task.assigneeId : v === 'me' ? !!ctx.userId && task.assigneeId === ctx.userId : task.assigneeId === v,
+      );
+  }
+}
+
+export function filterByQuery(
+  tasks: ReadonlyArray<DerivedTask>,
+  query: QueryGroup,
+  {
+    userId,
+    timeZone = LOCAL_TIMEZONE,
+    workflow,
+  }: { userId?: string; timeZone?: string; workflow?: Workflow } = {},
+): DerivedTask[] {
+  if (!query.children.length) return tasks.slice();
+  const ctx: MatchContext = { today: todayKey(timeZone), timeZone, userId, workflow };
+  return tasks.filter(t => matchesQuery(t, query, ctx));
+}
+
+/* ================= QUICK FILTERS ================= */
+
+/** One-click conditions toggled at the top level of the query. */
+export const QUICK_FILTERS = {
+  overdue: { kind: 'flag', field: 'is', flag: 'overdue' },
+  mine: { kind: 'assignee', field: 'assignee', values: ['me'] },
+} satisfies Record<string, QueryCondition>;
+
+const sameCondition = (a: QueryNode, b: QueryCondition) =>
+  a.kind !== 'group' && formatCondition(a) === formatCondition(b);
+
+/** True when the query is an AND with the condition at its top level. */
+export function hasCondition(query: QueryGroup, condition: QueryCondition): boolean {
+  return query.op === 'and' && query.children.some(c => sameCondition(c, condition));
+}
+
+/** Adds or removes a top-level condition, keeping the rest of the query. */
+export function toggleCondition(query: QueryGroup, condition: QueryCondition): QueryGroup {
+  if (hasCondition(query, condition)) {
+    return { ...query, children: query.children.filter(c => !sameCondition(c, condition)) };
+  }
+  if (query.op === 'and' || query.children.length <= 1) {
+    return { kind: 'group', op: 'and', children: [...query.children, condition] };
+  }
+  return { kind: 'group', op: 'and', children: [query, condition] };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '@/types';
+import { computeQuotaProgress } from '@/utils/quota';
+
+const settings = { timeZone: 'UTC', weekStart: 1 } as const;
+// Wednesday; 17 days of October are left.
+const now = new Date('2026-10-14T12:00:00Z');
+
+const won = (day: string, revenue: number): Task => ({
+  id: day,
+  title: `Deal ${day}`,
+  revenue,
+  timeTaken: 1,
+  priority: 'Medium',
+  status: 'Done',
+  createdAt: `${day}T09:00:00.000Z`,
+  completedAt: `${day}T09:00:00.000Z`,
+});
+
+describe('computeQuotaProgress projection', () => {
+  it('counts the weeks since the last completion as empty', () => {
+    // Three strong weeks in August and nothing since.
+    const tasks = ['2026-08-03', '2026-08-10', '2026-08-17'].map(d => won(d, 1000));
+    const progress = computeQuotaProgress(tasks, 10_000, settings, undefined, now);
+    expect(progress.revenue).toBe(0);
+    expect(progress.projectedRevenue).toBe(0);
+  });
+
+  it('continues a steady pace from the current week', () => {
+    const tasks = ['2026-09-07', '2026-09-14', '2026-09-21', '2026-09-28', '2026-10-05', '2026-10-12'].map(d =>
+      won(d, 700),
+    );
+    const progress = computeQuotaProgress(tasks, 10_000, settings, undefined, now);
+    expect(progress.revenue).toBe(1400);
+    expect(progress.projectedRevenue).toBeCloseTo(1400 + 700 * (17 / 7));
+  });
+});
@@ -0,0 +1,154 @@
+import { Task } from '@/types';
+import { computeForecast, computeThroughputByWeek, computeTotalRevenue } from '@/utils/logic';
+import { DateSettings, daysInMonth, monthKey, wallClock, weekKey } from '@/utils/dates';
+import { addDays } from '@/utils/dueDates';
+import { DEFAULT_WORKFLOW, Workflow, isWon } from '@/utils/workflow';
+
+/* ================= MONTHS ================= */
+
+// Quota months follow the quota owner's timezone: a deal closed at 23:30 on
+// the 31st in New York counts for that month even though it is already the
+// 1st in UTC.
+
+export function shiftMonth(month: string, step: number): string {
+  const [y, m] = month.split('-').map(Number);
+  const index = y * 12 + (m - 1) + step;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+export function formatMonth(month: string, style: 'long' | 'short' = 'long'): string {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, 1)).toLocaleDateString(undefined, {
+    month: style,
+    year: style === 'long' ? 'numeric' : '2-digit',
+    timeZone: 'UTC',
+  });
+}
+
+/** Won tasks whose completion falls in `month` in the given timezone. */
+function closedIn(tasks: ReadonlyArray<Task>, month: string, timeZone: string, workflow: Workflow): Task[] {
+  return tasks.filter(
+    t => isWon(workflow, t.status) && t.completedAt && monthKey(t.completedAt, timeZone) === month,
+  );
+}
+
+/* ================= PROGRESS ================= */
+
+export type Pacing = 'ahead' | 'onTrack' | 'behind';
+
+/** Within ±5% of the straight-line pace counts as on track. */
+const PACE_TOLERANCE = 0.05;
+
+export interface QuotaProgress {
+  month: string;
+  goal: number;
+  /** Month-to-date revenue of won tasks. */
+  revenue: number;
+  attainmentPct: number;
+  daysElapsed: number;
+  daysInMonth: number;
+  /** Revenue a straight-line pace would have reached by today. */
+  expectedRevenue: number;
+  expectedPct: number;
+  pacing: Pacing;
+  /** Month-to-date revenue plus the weekly forecast for the days left. */
+  projectedRevenue: number;
+  projectedPct: number;
+}
+
+const pct = (value: number, goal: number) => (goal > 0 ? (value / goal) * 100 : 0);
+
+/**
+ * Won revenue for every week from the first completion through the current
+ * week. Weeks without completions count as zero, so a quiet spell pulls the
+ * trend down and the forecast continues from now rather than from the last
+ * week that closed something.
+ */
+function weeklyRevenue(
+  tasks: ReadonlyArray<Task>,
+  settings: DateSettings,
+  workflow: Workflow,
+  now: Date,
+): Array<{ week: string; revenue: number }> {
+  const byWeek = new Map(computeThroughputByWeek(tasks, settings, workflow).map(w => [w.week, w.revenue]));
+  const first = byWeek.keys().next().value;
+  const current = weekKey(now.toISOString(), settings);
+  if (first === undefined || current === undefined) return [];
+  const weeks: Array<{ week: string; revenue: number }> = [];
+  for (let week = first; week <= current; week = addDays(week, 7)) {
+    weeks.push({ week, revenue: byWeek.get(week) ?? 0 });
+  }
+  return weeks;
+}
+
+/** Forecast revenue for the next `days`, prorating the last partial week. */
+function forecastRevenue(
+  tasks: ReadonlyArray<Task>,
+  days: number,
+  settings: DateSettings,
+  workflow: Workflow,
+  now: Date,
+): number {
+  if (days <= 0) return 0;
+  const weeks = days / 7;
+  const forecast = computeForecast(weeklyRevenue(tasks, settings, workflow, now), Math.ceil(weeks));
+  return forecast.reduce((s, f, i) => s + f.revenue * Math.min(1, weeks - i), 0);
+}
+
+export function computeQuotaProgress(
+  tasks: ReadonlyArray<Task>,
+  goal: number,
+  settings: DateSettings,
+  workflow = DEFAULT_WORKFLOW,
+  now = new Date(),
+): QuotaProgress {
+  const { timeZone } = settings;
+  const month = monthKey(now, timeZone)!;
+  const total = daysInMonth(month);
+  const elapsed = wallClock(now, timeZone)!.date();
+  const revenue = computeTotalRevenue(closedIn(tasks, month, timeZone, workflow), workflow);
+  const expectedRevenue = (goal * elapsed) / total;
+  const ratio = expectedRevenue > 0 ? revenue / expectedRevenue : 1;
+  const projectedRevenue = revenue + forecastRevenue(tasks, total - elapsed, settings, workflow, now);
+
+  return {
+    month,
+    goal,
+    revenue,
+    attainmentPct: pct(revenue, goal),
+    daysElapsed: elapsed,
+    daysInMonth: total,
+    expectedRevenue,
+    expectedPct: pct(expectedRevenue, goal),
+    pacing: ratio > 1 + PACE_TOLERANCE ? 'ahead' : ratio < 1 - PACE_TOLERANCE ? 'behind' : 'onTrack',
+    projectedRevenue,
+    projectedPct: pct(projectedRevenue, goal),
+  };
+}
+
+/**
+ * Revenue and attainment for the last `months` months, oldest first and
+ * ending with the current month. Goals aren't versioned, so every month is
+ * measured against the current goal.
+ */
+export function computeMonthlyAttainment(
+  tasks: ReadonlyArray<Task>,
+  goal: number,
+  timeZone: string,
+  workflow = DEFAULT_WORKFLOW,
+  months = 6,
+  now = new Date(),
+): Array<{ month: string; revenue: number; attainmentPct: number }> {
+  const current = monthKey(now, timeZone)!;
+  const byMonth = new Map<string, number>();
+  tasks.forEach(t => {
+    if (!isWon(workflow, t.status) || !t.completedAt) return;
+    const key = monthKey(t.completedAt, timeZone);
+    if (key) byMonth.set(key, (byMonth.get(key) ?? 0) + t.revenue);
+  });
+  return Array.from({ length: months }, (_, i) => {
+    const month = shiftMonth(current, i - months + 1);
+    const revenue = byMonth.get(month) ?? 0;
+    return { month, revenue, attainmentPct: pct(revenue, goal) };
+  });
+}
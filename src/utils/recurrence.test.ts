@@ -0,0 +1,157 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { todayKey } from '@/utils/dates';
+import {
+  MAX_CATCH_UP,
+  RecurrenceError,
+  RecurringTemplate,
+  dueOccurrences,
+  formatRRule,
+  occurrencesBetween,
+  parseRRule,
+} from '@/utils/recurrence';
+
+// Schedules are computed on local calendar days; run them in a zone with DST
+// so the 23- and 25-hour days are exercised.
+const previousTz = process.env.TZ;
+process.env.TZ = 'America/New_York';
+afterAll(() => {
+  process.env.TZ = previousTz;
+});
+
+const template = (rrule: string, startDate: string, extra: Partial<RecurringTemplate> = {}): RecurringTemplate => {
+  const { rule, endDate } = parseRRule(rrule);
+  return {
+    id: 'tpl-1',
+    title: 'Pipeline review',
+    revenue: 0,
+    timeTaken: 1,
+    priority: 'Medium',
+    rule,
+    startDate,
+    ...(endDate ? { endDate } : {}),
+    ...extra,
+  };
+};
+
+describe('monthly rules', () => {
+  it('clamps day 31 to the end of shorter months', () => {
+    expect(occurrencesBetween(template('FREQ=MONTHLY', '2026-01-31'), '2026-01-01', '2026-06-30')).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+      '2026-05-31',
+      '2026-06-30',
+    ]);
+  });
+
+  it('uses the last day for BYMONTHDAY=-1, including leap Februaries', () => {
+    expect(occurrencesBetween(template('FREQ=MONTHLY;BYMONTHDAY=-1', '2028-01-01'), '2028-01-01', '2028-03-31')).toEqual([
+      '2028-01-31',
+      '2028-02-29',
+      '2028-03-31',
+    ]);
+  });
+
+  it('counts INTERVAL months from the start month', () => {
+    expect(
+      occurrencesBetween(template('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15', '2026-11-01'), '2026-11-01', '2027-08-31'),
+    ).toEqual(['2026-11-15', '2027-02-15', '2027-05-15', '2027-08-15']);
+  });
+});
+
+describe('weekly rules', () => {
+  it('combines INTERVAL with BYDAY, counting Monday-to-Sunday weeks from the start', () => {
+    // Starts on a Wednesday: that week's Thursday counts, its Monday has passed.
+    const tpl = template('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2026-09-09');
+    expect(occurrencesBetween(tpl, '2026-09-01', '2026-10-11')).toEqual([
+      '2026-09-10',
+      '2026-09-21',
+      '2026-09-24',
+      '2026-10-05',
+      '2026-10-08',
+    ]);
+  });
+
+  it('defaults to the start date weekday', () => {
+    expect(occurrencesBetween(template('FREQ=WEEKLY', '2026-09-09'), '2026-09-01', '2026-09-30')).toEqual([
+      '2026-09-09',
+      '2026-09-16',
+      '2026-09-23',
+      '2026-09-30',
+    ]);
+  });
+});
+
+describe('limits', () => {
+  it('stops at UNTIL, inclusive', () => {
+    const tpl = template('FREQ=DAILY;UNTIL=20260910', '2026-09-08');
+    expect(tpl.endDate).toBe('2026-09-10');
+    expect(occurrencesBetween(tpl, '2026-09-01', '2026-09-30')).toEqual(['2026-09-08', '2026-09-09', '2026-09-10']);
+  });
+
+  it('reads UNTIL with a time part as its date', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;UNTIL=20261231T235959Z').endDate).toBe('2026-12-31');
+  });
+
+  it('rejects COUNT, which templates have no way to store', () => {
+    expect(() => parseRRule('FREQ=DAILY;COUNT=5')).toThrow(new RecurrenceError("COUNT isn't supported"));
+  });
+
+  it('rejects malformed limits and intervals', () => {
+    expect(() => parseRRule('FREQ=DAILY;UNTIL=20260231')).toThrow('UNTIL must be a date like 20261231');
+    expect(() => parseRRule('FREQ=DAILY;INTERVAL=0')).toThrow('INTERVAL must be a whole number of at least 1');
+    expect(() => parseRRule('FREQ=DAILY;BYDAY=MO')).toThrow('BYDAY is only supported with FREQ=WEEKLY');
+    expect(() => parseRRule('FREQ=YEARLY')).toThrow("FREQ=YEARLY isn't supported; use DAILY, WEEKLY or MONTHLY");
+  });
+
+  it('catches up on at most MAX_CATCH_UP missed occurrences, newest kept', () => {
+    const due = dueOccurrences(template('FREQ=DAILY', '2026-08-01'), '2026-09-30');
+    expect(due).toHaveLength(MAX_CATCH_UP);
+    expect(due[due.length - 1]).toBe('2026-09-30');
+  });
+
+  it('leaves out skipped and existing occurrences and resumes after generatedThrough', () => {
+    const tpl = template('FREQ=DAILY', '2026-09-01', { generatedThrough: '2026-09-03', skipped: ['2026-09-05'] });
+    expect(dueOccurrences(tpl, '2026-09-07', new Set(['2026-09-06']))).toEqual(['2026-09-04', '2026-09-07']);
+  });
+
+  it('round-trips through RRULE text', () => {
+    const rrule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231';
+    const { rule, endDate } = parseRRule(rrule);
+    expect(formatRRule(rule, endDate)).toBe(rrule);
+  });
+});
+
+describe('DST and timezones', () => {
+  it('runs in a zone that changes offset', () => {
+    expect(new Date(2026, 2, 7).getTimezoneOffset()).not.toBe(new Date(2026, 2, 9).getTimezoneOffset());
+  });
+
+  it('keeps daily intervals across the 23-hour spring-forward day', () => {
+    expect(occurrencesBetween(template('FREQ=DAILY;INTERVAL=2', '2026-03-05'), '2026-03-05', '2026-03-13')).toEqual([
+      '2026-03-05',
+      '2026-03-07',
+      '2026-03-09',
+      '2026-03-11',
+      '2026-03-13',
+    ]);
+  });
+
+  it('keeps weekly intervals across the 25-hour fall-back day', () => {
+    expect(occurrencesBetween(template('FREQ=WEEKLY;INTERVAL=2', '2026-10-19'), '2026-10-19', '2026-11-20')).toEqual([
+      '2026-10-19',
+      '2026-11-02',
+      '2026-11-16',
+    ]);
+  });
+
+  it('is due by the calendar day in the user zone', () => {
+    // 23:30 on the 7th in New York, already the 8th in UTC.
+    const now = new Date('2026-03-08T04:30:00Z');
+    const tpl = template('FREQ=DAILY', '2026-03-01', { generatedThrough: '2026-03-06' });
+    expect(dueOccurrences(tpl, todayKey('America/New_York', now))).toEqual(['2026-03-07']);
+    expect(dueOccurrences(tpl, todayKey('UTC', now))).toEqual(['2026-03-07', '2026-03-08']);
+    expect(dueOccurrences(tpl, todayKey('Asia/Kolkata', now))).toEqual(['2026-03-07', '2026-03-08']);
+  });
+});
@@ -0,0 +1,332 @@
+import { Priority, Task, TaskInput } from '@/types';
+import { addDays, dayToDate, isDayString, startOfWeek } from '@/utils/dueDates';
+import { PRIORITIES } from '@/utils/validation';
+import { DEFAULT_WORKFLOW, Workflow } from '@/utils/workflow';
+
+/* ================= DEFINITIONS ================= */
+
+// A template describes a task that happens on a schedule. Each scheduled day
+// (an "occurrence") becomes one concrete task, created through addTask once
+// the day arrives and linked back via templateId / occurrence.
+
+export type Frequency = 'daily' | 'weekly' | 'monthly';
+
+/** The supported subset of an iCalendar RRULE. */
+export interface RecurrenceRule {
+  freq: Frequency;
+  /** Every n days, weeks or months. */
+  interval: number;
+  /** Weekly: days of the week, 0 = Sunday. */
+  weekdays?: number[];
+  /** Monthly: day of the month; -1, or a day past the month's end, means its last day. */
+  monthDay?: number;
+}
+
+export interface RecurringTemplate {
+  id: string;
+  title: string;
+  revenue: number;
+  timeTaken: number;
+  priority: Priority;
+  notes?: string;
+  assigneeId?: string;
+  rule: RecurrenceRule;
+  /** First day (YYYY-MM-DD) an occurrence can fall on. */
+  startDate: string;
+  /** Last day an occurrence can fall on; open-ended when unset. */
+  endDate?: string;
+  paused?: boolean;
+  /** Occurrence days that won't be generated. */
+  skipped?: string[];
+  /** Last day already considered for generation; later runs resume after it. */
+  generatedThrough?: string;
+}
+
+/** At most this many missed occurrences are created when the app catches up. */
+export const MAX_CATCH_UP = 14;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/* ================= SCHEDULE ================= */
+
+const monthIndex = (day: string) => {
+  const [y, m] = day.split('-').map(Number);
+  return y * 12 + m - 1;
+};
+
+const lastDayOfMonth = (day: string) => {
+  const date = dayToDate(day);
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+};
+
+/** Whether the rule schedules an occurrence on `day`, counting intervals from `startDate`. */
+export function occursOn(template: Pick<RecurringTemplate, 'rule' | 'startDate' | 'endDate'>, day: string): boolean {
+  const { rule, startDate, endDate } = template;
+  if (day < startDate || (endDate && day > endDate)) return false;
+  const date = dayToDate(day);
+  const interval = Math.max(1, rule.interval);
+  switch (rule.freq) {
+    case 'daily': {
+      const days = Math.round((date.getTime() - dayToDate(startDate).getTime()) / (24 * 3600 * 1000));
+      return days % interval === 0;
+    }
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [dayToDate(startDate).getDay()];
+      if (!weekdays.includes(date.getDay())) return false;
+      // Weeks run Monday to Sunday, as in RRULE's default WKST.
+      const weeks = Math.round(
+        (dayToDate(startOfWeek(day, 1)).getTime() - dayToDate(startOfWeek(startDate, 1)).getTime()) /
+          (7 * 24 * 3600 * 1000),
+      );
+      return weeks % interval === 0;
+    }
+    case 'monthly': {
+      if ((monthIndex(day) - monthIndex(startDate)) % interval !== 0) return false;
+      const wanted = rule.monthDay ?? dayToDate(startDate).getDate();
+      const last = lastDayOfMonth(day);
+      return date.getDate() === (wanted === -1 || wanted > last ? last : wanted);
+    }
+  }
+}
+
+/** Scheduled days from `from` to `to` inclusive, skipped ones included. */
+export function occurrencesBetween(
+  template: Pick<RecurringTemplate, 'rule' | 'startDate' | 'endDate'>,
+  from: string,
+  to: string,
+): string[] {
+  const days: string[] = [];
+  for (let day = from < template.startDate ? template.startDate : from; day <= to; day = addDays(day, 1)) {
+    if (template.endDate && day > template.endDate) break;
+    if (occursOn(template, day)) days.push(day);
+  }
+  return days;
+}
+
+/** The next `count` scheduled days on or after `from`, looking at most a year ahead. */
+export function upcomingOccurrences(template: RecurringTemplate, from: string, count = 5): string[] {
+  return occurrencesBetween(template, from, addDays(from, 366)).slice(0, count);
+}
+
+/**
+ * Occurrences due by `today` that still need a task: after
+ * `generatedThrough`, not skipped and not already in `existing`
+ * (occurrence days that have a task). Paused templates have none.
+ */
+export function dueOccurrences(template: RecurringTemplate, today: string, existing: ReadonlySet<string> = new Set()): string[] {
+  if (template.paused) return [];
+  const from = template.generatedThrough ? addDays(template.generatedThrough, 1) : template.startDate;
+  // A long absence only brings back the most recent occurrences.
+  const floor = addDays(today, -366);
+  return occurrencesBetween(template, from < floor ? floor : from, today)
+    .filter(day => !template.skipped?.includes(day) && !existing.has(day))
+    .slice(-MAX_CATCH_UP);
+}
+
+/* ================= INSTANCES ================= */
+
+/** Titles must be unique, so each instance carries its occurrence day. */
+export const instanceTitle = (title: string, day: string) => `${title} (${day})`;
+
+/** The task an occurrence turns into, due on its day and in the workflow's first open stage. */
+export function instanceInput(template: RecurringTemplate, day: string, workflow: Workflow = DEFAULT_WORKFLOW): TaskInput {
+  const first = workflow.stages.find(s => !s.outcome) ?? workflow.stages[0];
+  return {
+    title: instanceTitle(template.title, day),
+    revenue: template.revenue,
+    timeTaken: template.timeTaken,
+    priority: template.priority,
+    status: first.name,
+    notes: template.notes,
+    assigneeId: template.assigneeId,
+    dueDate: day,
+    templateId: template.id,
+    occurrence: day,
+  };
+}
+
+/** Changes that bring an existing instance in line with an edited template. */
+export function instancePatch(template: RecurringTemplate, task: Task): Partial<Task> {
+  const next: Partial<Task> = {
+    title: instanceTitle(template.title, task.occurrence ?? task.dueDate ?? ''),
+    revenue: template.revenue,
+    priority: template.priority,
+    notes: template.notes,
+    assigneeId: template.assigneeId,
+  };
+  // Logged time belongs to the instance.
+  if (!task.timeEntries?.length) next.timeTaken = template.timeTaken;
+  return Object.fromEntries(
+    Object.entries(next).filter(([k, v]) => v !== task[k as keyof Task]),
+  ) as Partial<Task>;
+}
+
+/* ================= RRULE ================= */
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+const rruleDay = (day: string) => day.replace(/-/g, '');
+
+/** e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231". */
+export function formatRRule(rule: RecurrenceRule, endDate?: string): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort().map(d => WEEKDAY_CODES[d]).join(',')}`);
+  }
+  if (rule.freq === 'monthly' && rule.monthDay !== undefined) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  if (endDate) parts.push(`UNTIL=${rruleDay(endDate)}`);
+  return parts.join(';');
+}
+
+/**
+ * Parses FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL, BYDAY (weekly, plain
+ * day codes), BYMONTHDAY (monthly, one day; -1 for the last) and UNTIL
+ * (date only). A leading "RRULE:" is ignored. Anything else throws.
+ */
+export function parseRRule(input: string): { rule: RecurrenceRule; endDate?: string } {
+  const text = input.trim().replace(/^RRULE:/i, '');
+  if (!text) throw new RecurrenceError('Rule is empty');
+  const fields = new Map<string, string>();
+  text.split(';').filter(Boolean).forEach(part => {
+    const [key, value, ...rest] = part.split('=');
+    if (!key || value === undefined || rest.length) throw new RecurrenceError(`Can't read "${part}"`);
+    const name = key.trim().toUpperCase();
+    if (fields.has(name)) throw new RecurrenceError(`${name} appears more than once`);
+    fields.set(name, value.trim().toUpperCase());
+  });
+
+  const freq = fields.get('FREQ');
+  if (!freq) throw new RecurrenceError('FREQ is required');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new RecurrenceError(`FREQ=${freq} isn't supported; use DAILY, WEEKLY or MONTHLY`);
+  }
+  const rule: RecurrenceRule = { freq: freq.toLowerCase() as Frequency, interval: 1 };
+  let endDate: string | undefined;
+
+  fields.forEach((value, name) => {
+    switch (name) {
+      case 'FREQ':
+        return;
+      case 'INTERVAL': {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) throw new RecurrenceError('INTERVAL must be a whole number of at least 1');
+        rule.interval = n;
+        return;
+      }
+      case 'BYDAY': {
+        if (rule.freq !== 'weekly') throw new RecurrenceError('BYDAY is only supported with FREQ=WEEKLY');
+        rule.weekdays = value.split(',').map(code => {
+          const index = WEEKDAY_CODES.indexOf(code.trim());
+          if (index < 0) throw new RecurrenceError(`Unknown day "${code}"; use MO, TU, WE, TH, FR, SA or SU`);
+          return index;
+        });
+        return;
+      }
+      case 'BYMONTHDAY': {
+        if (rule.freq !== 'monthly') throw new RecurrenceError('BYMONTHDAY is only supported with FREQ=MONTHLY');
+        const n = Number(value);
+        if (!Number.isInteger(n) || !(n === -1 || (n >= 1 && n <= 31))) {
+          throw new RecurrenceError('BYMONTHDAY must be 1–31 or -1');
+        }
+        rule.monthDay = n;
+        return;
+      }
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+        const day = match && `${match[1]}-${match[2]}-${match[3]}`;
+        if (!day || !isDayString(day)) throw new RecurrenceError('UNTIL must be a date like 20261231');
+        endDate = day;
+        return;
+      }
+      default:
+        throw new RecurrenceError(`${name} isn't supported`);
+    }
+  });
+
+  return { rule, endDate };
+}
+
+export type ParsedRRule =
+  | { rule: RecurrenceRule; endDate?: string; error: null }
+  | { rule: null; endDate?: undefined; error: RecurrenceError };
+
+/** Non-throwing variant for UI code. */
+export function tryParseRRule(input: string): ParsedRRule {
+  try {
+    return { ...parseRRule(input), error: null };
+  } catch (e) {
+    if (e instanceof RecurrenceError) return { rule: null, error: e };
+    throw e;
+  }
+}
+
+/** "Every 2 weeks on Mon, Thu", for lists. */
+export function describeRule(rule: RecurrenceRule): string {
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+  switch (rule.freq) {
+    case 'daily':
+      return every('day');
+    case 'weekly': {
+      const days = [...(rule.weekdays ?? [])]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(d => new Date(2026, 0, 4 + d).toLocaleDateString(undefined, { weekday: 'short' }));
+      return days.length ? `${every('week')} on ${days.join(', ')}` : every('week');
+    }
+    case 'monthly':
+      return rule.monthDay === undefined
+        ? every('month')
+        : `${every('month')} on the ${rule.monthDay === -1 ? 'last day' : `${rule.monthDay}${ordinal(rule.monthDay)}`}`;
+  }
+}
+
+function ordinal(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+}
+
+/* ================= VALIDATION ================= */
+
+/** Problems that make a template unusable; empty when it's valid. */
+export function validateTemplate(template: RecurringTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.title.trim()) errors.push('Title is required');
+  if (!Number.isFinite(template.revenue) || template.revenue < 0) errors.push('Revenue must be 0 or more');
+  if (!Number.isFinite(template.timeTaken) || template.timeTaken <= 0) errors.push('Time taken must be greater than 0');
+  if (!isDayString(template.startDate)) errors.push('Start date is not a valid date');
+  if (template.endDate !== undefined && (!isDayString(template.endDate) || template.endDate < template.startDate)) {
+    errors.push('End date must be on or after the start date');
+  }
+  const { rule } = template;
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) errors.push('Interval must be a whole number of at least 1');
+  if (rule.weekdays?.some(d => !Number.isInteger(d) || d < 0 || d > 6)) errors.push('Weekdays must be 0–6');
+  if (rule.monthDay !== undefined && !(rule.monthDay === -1 || (rule.monthDay >= 1 && rule.monthDay <= 31))) {
+    errors.push('Day of month must be 1–31 or last');
+  }
+  return errors;
+}
+
+export function isTemplate(v: unknown): v is RecurringTemplate {
+  if (!v || typeof v !== 'object') return false;
+  const t = v as Record<string, unknown>;
+  if (!t.rule || typeof t.rule !== 'object') return false;
+  const rule = t.rule as Record<string, unknown>;
+  return (
+    typeof t.id === 'string' &&
+    typeof t.title === 'string' &&
+    typeof t.revenue === 'number' &&
+    typeof t.timeTaken === 'number' &&
+    PRIORITIES.includes(t.priority as Priority) &&
+    ['daily', 'weekly', 'monthly'].includes(rule.freq as string) &&
+    typeof rule.interval === 'number' &&
+    (rule.weekdays === undefined || Array.isArray(rule.weekdays)) &&
+    (t.skipped === undefined || (Array.isArray(t.skipped) && t.skipped.every(isDayString))) &&
+    (t.generatedThrough === undefined || isDayString(t.generatedThrough)) &&
+    !validateTemplate(v as RecurringTemplate).length
+  );
+}
@@ -1,4 +1,6 @@
 import { Task } from '@/types';
+import { dayKey } from '@/utils/dates';
+import { DEFAULT_ROSTER } from '@/context/UserContext';
 
 const priorities: Task['priority'][] = ['High', 'Medium', 'Low'];
 const statuses: Task['status'][] = ['Todo', 'In Progress', 'Done'];
@@ -70,7 +72,11 @@ export function generateSalesTasks(count: number): Task[] {
     const revenue = Math.round((revenueBase + (i % 5) * 40) * multiplier);
     const createdAt = new Date(now - (i * 36 + (i % 7) * 12) * 60 * 60 * 1000).toISOString();
     const completedAt = status === 'Done' ? new Date(new Date(createdAt).getTime() + ((i % 10) + 1) * 24 * 3600 * 1000).toISOString() : undefined;
-    tasks.push({ id, title: `${title} #${i + 1}`, revenue, timeTaken, priority, status, createdAt, completedAt });
+    // Every fourth task is unscheduled; the rest are due 2–15 days after creation.
+    const dueDate = i % 4 === 3 ? undefined : dayKey(new Date(new Date(createdAt).getTime() + ((i % 14) + 2) * 24 * 3600 * 1000).toISOString());
+    // Spread across the roster with a few left unassigned.
+    const assigneeId = i % 9 === 8 ? undefined : DEFAULT_ROSTER[i % DEFAULT_ROSTER.length].id;
+    tasks.push({ id, title: `${title} #${i + 1}`, revenue, timeTaken, priority, status, createdAt, completedAt, dueDate, assigneeId });
   }
   return tasks;
 }
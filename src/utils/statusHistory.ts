@@ -0,0 +1,138 @@
+import { Status, StatusChange, Task } from '@/types';
+import { DEFAULT_WORKFLOW, Workflow, isClosed } from '@/utils/workflow';
+
+/* ================= RECORDING ================= */
+
+// Every status change is appended to the task's statusHistory, starting with
+// the status it was created in. Analytics read the history through
+// statusTimeline so tasks saved before it was kept still have one.
+
+export function isStatusChange(v: unknown): v is StatusChange {
+  if (!v || typeof v !== 'object') return false;
+  const c = v as Record<string, unknown>;
+  return (
+    (c.from === undefined || typeof c.from === 'string') &&
+    typeof c.to === 'string' &&
+    typeof c.at === 'string' &&
+    !Number.isNaN(new Date(c.at).getTime())
+  );
+}
+
+/** History with a move to `to` appended; unchanged when the status isn't changing. */
+export function recordStatusChange(task: Task, to: Status, at = new Date().toISOString()): StatusChange[] | undefined {
+  if (to === task.status) return task.statusHistory;
+  return [...(task.statusHistory ?? []), { from: task.status, to, at }];
+}
+
+/**
+ * Completion fields after moving to `to`: entering a closed stage stamps a
+ * new completedAt, and reopening archives the current one to
+ * pastCompletions. Moves between two open or two closed stages change
+ * neither.
+ */
+export function completionChange(
+  task: Task,
+  to: Status,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+  at = new Date().toISOString(),
+): Pick<Task, 'completedAt' | 'pastCompletions'> {
+  const wasClosed = isClosed(workflow, task.status);
+  const closing = isClosed(workflow, to);
+  if (!wasClosed && closing) return { completedAt: at };
+  if (wasClosed && !closing) {
+    return {
+      completedAt: undefined,
+      pastCompletions: task.completedAt ? [...(task.pastCompletions ?? []), task.completedAt] : task.pastCompletions,
+    };
+  }
+  return {};
+}
+
+/**
+ * An open task still carrying the completedAt of a closed stage it left,
+ * as saved before reopening archived it, with that moved to pastCompletions.
+ */
+export function archiveStaleCompletion(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): Task {
+  if (!task.completedAt || isClosed(workflow, task.status)) return task;
+  const { completedAt, ...rest } = task;
+  return { ...rest, pastCompletions: [...(task.pastCompletions ?? []), completedAt] };
+}
+
+/* ================= TIMELINE ================= */
+
+/**
+ * The task's status changes oldest first, beginning with the status it was
+ * created in. Without a recorded start, the task is assumed to have been
+ * created in the status its first recorded move left from; a closed task
+ * with no history at all is assumed to have gone from the first open stage
+ * straight to its status at completedAt.
+ */
+export function statusTimeline(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): StatusChange[] {
+  const history = task.statusHistory ?? [];
+  if (history.length && history[0].from === undefined) return history;
+  if (history.length) return [{ to: history[0].from!, at: task.createdAt }, ...history];
+  if (task.completedAt && isClosed(workflow, task.status)) {
+    const initial = workflow.stages.find(s => !s.outcome)?.name ?? task.status;
+    return [
+      { to: initial, at: task.createdAt },
+      { from: initial, to: task.status, at: task.completedAt },
+    ];
+  }
+  return [{ to: task.status, at: task.createdAt }];
+}
+
+export interface StageStint {
+  stage: Status;
+  start: string;
+  /** Unset while the task is still in the stage. */
+  end?: string;
+}
+
+/** Consecutive spans the task spent in each status, oldest first. */
+export function stageStints(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): StageStint[] {
+  const timeline = statusTimeline(task, workflow);
+  return timeline.map((c, i) => ({ stage: c.to, start: c.at, end: timeline[i + 1]?.at }));
+}
+
+/** Status the task was in at `iso`; undefined before it was created. */
+export function statusAt(task: Task, iso: string, workflow: Workflow = DEFAULT_WORKFLOW): Status | undefined {
+  const time = new Date(iso).getTime();
+  let status: Status | undefined;
+  for (const c of statusTimeline(task, workflow)) {
+    if (new Date(c.at).getTime() > time) break;
+    status = c.to;
+  }
+  return status;
+}
+
+/**
+ * When work started: the first time the history shows the task in a stage
+ * past the workflow's first (including being created there). Undefined when
+ * it doesn't, e.g. for tasks created before history was kept.
+ */
+export function startedAt(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): string | undefined {
+  return task.statusHistory?.find(c => workflow.stages.findIndex(s => s.name === c.to) > 0)?.at;
+}
+
+/** When the task last entered a closed stage; undefined while it's open. */
+export function closedAt(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): string | undefined {
+  if (!isClosed(workflow, task.status)) return undefined;
+  const timeline = statusTimeline(task, workflow);
+  return timeline[timeline.length - 1]?.at ?? task.completedAt;
+}
+
+/** True for tasks that are closed now or were closed before being reopened. */
+export function wasEverClosed(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): boolean {
+  return (
+    isClosed(workflow, task.status) ||
+    !!task.pastCompletions?.length ||
+    statusTimeline(task, workflow).some(c => isClosed(workflow, c.to))
+  );
+}
+
+/** Times the task moved from a closed stage back to an open one. */
+export function reopenCount(task: Task, workflow: Workflow = DEFAULT_WORKFLOW): number {
+  return statusTimeline(task, workflow).filter(
+    c => c.from !== undefined && isClosed(workflow, c.from) && !isClosed(workflow, c.to),
+  ).length;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { migrateState } from '@/utils/storage';
+import { SALES_WORKFLOW } from '@/utils/workflow';
+
+const task = (status: string, extra: Record<string, unknown> = {}) => ({
+  id: status,
+  title: status,
+  revenue: 1,
+  timeTaken: 1,
+  priority: 'Low',
+  status,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+describe('migrateState', () => {
+  it('leaves out malformed stored tasks and lists them', () => {
+    const { tasks, skipped } = migrateState(3, {
+      tasks: [task('Todo'), { ...task('Done'), revenue: 'lots' }, null],
+      activity: [],
+    });
+    expect(tasks.map(t => t.id)).toEqual(['Todo']);
+    expect(skipped).toEqual([
+      { record: 2, problems: ['Revenue must be a number'] },
+      { record: 3, problems: ['Not a task'] },
+    ]);
+  });
+});
+
+describe('migrateState v2 → v3', () => {
+  it('archives completedAt on tasks that were reopened', () => {
+    const { tasks } = migrateState(2, {
+      tasks: [
+        task('Todo', { completedAt: '2026-02-01T00:00:00.000Z' }),
+        task('In Progress', { completedAt: '2026-03-01T00:00:00.000Z', pastCompletions: ['2026-02-01T00:00:00.000Z'] }),
+        task('Done', { completedAt: '2026-04-01T00:00:00.000Z' }),
+      ],
+      activity: [],
+    });
+    expect(tasks[0].completedAt).toBeUndefined();
+    expect(tasks[0].pastCompletions).toEqual(['2026-02-01T00:00:00.000Z']);
+    expect(tasks[1].completedAt).toBeUndefined();
+    expect(tasks[1].pastCompletions).toEqual(['2026-02-01T00:00:00.000Z', '2026-03-01T00:00:00.000Z']);
+    expect(tasks[2].completedAt).toBe('2026-04-01T00:00:00.000Z');
+    expect(tasks[2].pastCompletions).toBeUndefined();
+  });
+
+  it('judges closed stages by the stored workflow', () => {
+    const { tasks } = migrateState(
+      2,
+      { tasks: [task('Lost', { completedAt: '2026-04-01T00:00:00.000Z' })], activity: [] },
+      { workflow: SALES_WORKFLOW },
+    );
+    expect(tasks[0].completedAt).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  it('runs after the earlier migrations', () => {
+    const { tasks, activity } = migrateState(0, [task('Todo', { completedAt: '2026-02-01T00:00:00.000Z' })]);
+    expect(tasks[0].completedAt).toBeUndefined();
+    expect(activity).toEqual([]);
+  });
+});
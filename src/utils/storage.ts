@@ -0,0 +1,231 @@
+import { ActivityEvent, Task } from '@/types';
+import { normalizeActivity } from '@/utils/activity';
+import { SkippedRecord, toTask, validateTaskRecord } from '@/utils/dataSource';
+import { archiveStaleCompletion } from '@/utils/statusHistory';
+import { DEFAULT_WORKFLOW, Workflow } from '@/utils/workflow';
+
+/* ================= SCHEMA ================= */
+
+export const STORAGE_SCHEMA_VERSION = 3;
+
+export interface PersistedState {
+  tasks: Task[];
+  activity: ActivityEvent[];
+}
+
+export interface LoadedState extends PersistedState {
+  /** Stored tasks that failed validation and were left out. */
+  skipped: SkippedRecord[];
+}
+
+interface Envelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+/** What a migration may need besides the stored data. */
+export interface MigrationContext {
+  /** Workflow the stored statuses belong to. */
+  workflow: Workflow;
+}
+
+const DEFAULT_CONTEXT: MigrationContext = { workflow: DEFAULT_WORKFLOW };
+
+type Migration = (data: unknown, ctx: MigrationContext) => unknown;
+
+// Stored data is untrusted; anything that isn't an object reads as empty.
+const fields = (data: unknown): Record<string, unknown> =>
+  data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+// Keyed by the version being migrated *from*. Add an entry (and bump
+// STORAGE_SCHEMA_VERSION) whenever the stored shape changes.
+const migrations: Record<number, Migration> = {
+  // v0: unversioned payload, a bare Task[] written by early builds.
+  0: data => ({ tasks: Array.isArray(data) ? data : [] }),
+  // v1 -> v2: activity log persisted next to tasks.
+  1: data => ({ ...fields(data), activity: [] }),
+  // v2 -> v3: reopening archives completedAt; tasks reopened before that
+  // still carry it and would keep counting as completed.
+  2: (data, { workflow }) => {
+    const { tasks, ...rest } = fields(data);
+    return {
+      ...rest,
+      tasks: Array.isArray(tasks)
+        ? tasks.map((t: unknown) => (t && typeof t === 'object' ? archiveStaleCompletion(t as Task, workflow) : t))
+        : [],
+    };
+  },
+};
+
+export function migrateState(version: number, data: unknown, ctx = DEFAULT_CONTEXT): LoadedState {
+  let current = data;
+  for (let v = version; v < STORAGE_SCHEMA_VERSION; v++) {
+    const step = migrations[v];
+    if (!step) throw new Error(`No storage migration from schema v${v}`);
+    current = step(current, ctx);
+  }
+  const { tasks, activity } = fields(current);
+  const now = new Date().toISOString();
+  const valid: Task[] = [];
+  const skipped: SkippedRecord[] = [];
+  // Stored data may be hand-edited or written by a buggy build; one bad
+  // record shouldn't take the rest of the board down with it.
+  (Array.isArray(tasks) ? tasks : []).forEach((raw: unknown, i) => {
+    const problems = validateTaskRecord(raw);
+    if (problems.length) skipped.push({ record: i + 1, problems });
+    else valid.push(toTask(raw, now));
+  });
+  return {
+    tasks: valid,
+    skipped,
+    activity: Array.isArray(activity)
+      ? activity.map(normalizeActivity).filter((a): a is ActivityEvent => a !== null)
+      : [],
+  };
+}
+
+function wrap(state: PersistedState): Envelope {
+  return {
+    version: STORAGE_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data: state,
+  };
+}
+
+function unwrap(raw: unknown, ctx = DEFAULT_CONTEXT): LoadedState | null {
+  if (raw == null) return null;
+  if (Array.isArray(raw)) return migrateState(0, raw, ctx);
+  const env = raw as Partial<Envelope>;
+  if (typeof env.version !== 'number') return null;
+  if (env.version > STORAGE_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data uses schema v${env.version}, newer than supported v${STORAGE_SCHEMA_VERSION}`,
+    );
+  }
+  return migrateState(env.version, env.data, ctx);
+}
+
+/* ================= ADAPTER INTERFACE ================= */
+
+export interface StorageAdapter {
+  /** Older stored data is migrated with `ctx`. */
+  load: (ctx?: MigrationContext) => Promise<LoadedState | null>;
+  save: (state: PersistedState) => Promise<void>;
+  /**
+   * Notifies about writes made by other tabs/windows, migrated like `load`
+   * with the context `getContext` returns at the time. Returns an unsubscribe fn.
+   */
+  subscribe: (listener: (state: LoadedState) => void, getContext?: () => MigrationContext) => () => void;
+}
+
+const DEFAULT_KEY = 'taskglitch:workspace';
+
+/* ================= LOCAL STORAGE ================= */
+
+export function createLocalStorageAdapter(key = DEFAULT_KEY): StorageAdapter {
+  return {
+    async load(ctx) {
+      const raw = window.localStorage.getItem(key);
+      return raw ? unwrap(JSON.parse(raw), ctx) : null;
+    },
+    async save(state) {
+      window.localStorage.setItem(key, JSON.stringify(wrap(state)));
+    },
+    subscribe(listener, getContext) {
+      const onStorage = (e: StorageEvent) => {
+        if (e.key !== key || !e.newValue) return;
+        try {
+          const state = unwrap(JSON.parse(e.newValue), getContext?.());
+          if (state) listener(state);
+        } catch {
+          // ignore malformed writes from other tabs
+        }
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+}
+
+/* ================= INDEXED DB ================= */
+
+const IDB_STORE = 'workspace';
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(name, 1);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(IDB_STORE)) {
+        req.result.createObjectStore(IDB_STORE);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('Failed to open IndexedDB'));
+  });
+}
+
+function runRequest<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(IDB_STORE, mode);
+    const req = fn(tx.objectStore(IDB_STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    // Quota errors abort the transaction without an error event on it.
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export function createIndexedDBAdapter(
+  dbName = 'taskglitch',
+  key = DEFAULT_KEY,
+): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDatabase(dbName));
+  // A channel never receives its own messages, so one instance serves both
+  // publishing and subscribing without echoing this tab's writes back.
+  const channel =
+    typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(`${dbName}:${key}`)
+      : null;
+
+  return {
+    async load(ctx) {
+      const db = await getDb();
+      const raw = await runRequest(db, 'readonly', s => s.get(key));
+      return unwrap(raw, ctx);
+    },
+    async save(state) {
+      const db = await getDb();
+      const env = wrap(state);
+      await runRequest(db, 'readwrite', s => s.put(env, key));
+      channel?.postMessage(env);
+    },
+    subscribe(listener, getContext) {
+      if (!channel) return () => {};
+      const onMessage = (e: MessageEvent) => {
+        try {
+          const state = unwrap(e.data, getContext?.());
+          if (state) listener(state);
+        } catch {
+          // ignore malformed messages
+        }
+      };
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+  };
+}
+
+/* ================= FACTORY ================= */
+
+// IndexedDB has no practical size cap, so it is preferred for large boards;
+// localStorage (~5MB) remains the fallback where IndexedDB is unavailable.
+export function createDefaultStorage(): StorageAdapter {
+  if (typeof indexedDB !== 'undefined') return createIndexedDBAdapter();
+  return createLocalStorageAdapter();
+}
@@ -0,0 +1,105 @@
+import { Status, Subtask, Task } from '@/types';
+import { DEFAULT_WORKFLOW, Workflow, canTransition, isClosed } from '@/utils/workflow';
+import { newId } from '@/utils/ids';
+
+/* ================= CHECKLIST ================= */
+
+export function newSubtask(title: string, estimate?: number): Subtask {
+  return { id: newId(), title: title.trim(), done: false, ...(estimate === undefined ? {} : { estimate }) };
+}
+
+export function isSubtask(v: unknown): v is Subtask {
+  if (!v || typeof v !== 'object') return false;
+  const s = v as Record<string, unknown>;
+  return (
+    typeof s.id === 'string' &&
+    typeof s.title === 'string' &&
+    !!s.title.trim() &&
+    typeof s.done === 'boolean' &&
+    (s.estimate === undefined || (typeof s.estimate === 'number' && Number.isFinite(s.estimate) && s.estimate > 0))
+  );
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+  /** 0–100; 0 for an empty checklist. */
+  pct: number;
+}
+
+export function checklistProgress(subtasks: ReadonlyArray<Subtask> = []): ChecklistProgress {
+  const done = subtasks.filter(s => s.done).length;
+  const total = subtasks.length;
+  return { done, total, pct: total ? Math.round((done / total) * 100) : 0 };
+}
+
+/** True for a non-empty checklist with every item ticked. */
+export const isChecklistDone = (subtasks?: ReadonlyArray<Subtask>) => !!subtasks?.length && subtasks.every(s => s.done);
+
+/** Sum of the items' estimates in hours; undefined when none has one. */
+export function estimateHours(subtasks: ReadonlyArray<Subtask> = []): number | undefined {
+  const estimated = subtasks.filter(s => s.estimate !== undefined);
+  if (!estimated.length) return undefined;
+  return Number(estimated.reduce((sum, s) => sum + s.estimate!, 0).toFixed(2));
+}
+
+/**
+ * Stage a task moves to when `patch` ticks off the last open item of its
+ * checklist and the workflow has completeOnChecklist set: the first won
+ * stage, if the task may move there. Undefined when it stays put.
+ */
+export function checklistCompletionStatus(
+  task: Task,
+  patch: Partial<Task>,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+): Status | undefined {
+  if (!workflow.completeOnChecklist || patch.status !== undefined || !patch.subtasks) return undefined;
+  if (!isChecklistDone(patch.subtasks) || isChecklistDone(task.subtasks) || isClosed(workflow, task.status)) {
+    return undefined;
+  }
+  const won = workflow.stages.find(s => s.outcome === 'won')?.name;
+  return won && canTransition(workflow, task.status, won) ? won : undefined;
+}
+
+/* ================= TEXT FORMAT ================= */
+
+// Checklists travel through CSV as one cell with one item per line:
+//
+//   [x] Redlines (2h)
+//   [ ] Legal review (1.5h)
+//   [ ] Signature
+//
+// The estimate suffix is optional. Lines without a checkbox are read as
+// open items so a hand-written list imports too.
+
+export class ChecklistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChecklistError';
+  }
+}
+
+export function formatChecklist(subtasks: ReadonlyArray<Subtask> = []): string {
+  return subtasks
+    .map(s => `[${s.done ? 'x' : ' '}] ${s.title}${s.estimate === undefined ? '' : ` (${s.estimate}h)`}`)
+    .join('\n');
+}
+
+const ITEM = /^(?:\[([ xX]?)\]\s*)?(.*?)(?:\s*\((\d+(?:\.\d+)?)\s*h\))?$/;
+
+/** Parses the format above; throws ChecklistError naming the first bad line. */
+export function parseChecklist(text: string): Subtask[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, i) => {
+      const [, box, title, estimate] = ITEM.exec(line)!;
+      if (!title) throw new ChecklistError(`Checklist item ${i + 1} has no title`);
+      const hours = estimate === undefined ? undefined : Number(estimate);
+      if (hours !== undefined && hours <= 0) {
+        throw new ChecklistError(`Estimate for "${title}" must be greater than 0`);
+      }
+      return { ...newSubtask(title, hours), done: box === 'x' || box === 'X' };
+    });
+}
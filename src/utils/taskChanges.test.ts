@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '@/types';
+import { createTask, patchTask } from '@/utils/taskChanges';
+import { computeCompletionCounts, computeReopenRate, computeThroughputByWeek } from '@/utils/logic';
+import { SALES_WORKFLOW } from '@/utils/workflow';
+
+const settings = { timeZone: 'UTC', weekStart: 1 } as const;
+const T0 = '2026-10-05T09:00:00.000Z';
+const T1 = '2026-10-06T09:00:00.000Z';
+const T2 = '2026-10-08T09:00:00.000Z';
+const T3 = '2026-10-14T09:00:00.000Z';
+
+const base = () =>
+  createTask({ id: 'a', title: 'Contract negotiation', revenue: 500, timeTaken: 2, priority: 'High', status: 'Todo' }, undefined, T0);
+
+describe('Done → Todo → Done', () => {
+  const done = patchTask(base(), { status: 'Done' }, undefined, T1);
+  const reopened = patchTask(done, { status: 'Todo' }, undefined, T2);
+  const redone = patchTask(reopened, { status: 'Done' }, undefined, T3);
+
+  it('stamps completedAt when the task closes', () => {
+    expect(done.completedAt).toBe(T1);
+    expect(done.pastCompletions).toBeUndefined();
+  });
+
+  it('archives completedAt when the task is reopened', () => {
+    expect(reopened.completedAt).toBeUndefined();
+    expect(reopened.pastCompletions).toEqual([T1]);
+    expect(computeCompletionCounts([reopened])).toEqual({ current: 0, everCompleted: 1 });
+    expect(computeThroughputByWeek([reopened], settings)).toEqual([]);
+  });
+
+  it('stamps a new completedAt on closing again and keeps the archive', () => {
+    expect(redone.completedAt).toBe(T3);
+    expect(redone.pastCompletions).toEqual([T1]);
+    expect(computeCompletionCounts([redone])).toEqual({ current: 1, everCompleted: 1 });
+    // Counted once, in the week it closed the second time.
+    expect(computeThroughputByWeek([redone], settings)).toEqual([{ week: '2026-10-12', count: 1, revenue: 500 }]);
+  });
+
+  it('records every move in the status history', () => {
+    expect(redone.statusHistory).toEqual([
+      { to: 'Todo', at: T0 },
+      { from: 'Todo', to: 'Done', at: T1 },
+      { from: 'Done', to: 'Todo', at: T2 },
+      { from: 'Todo', to: 'Done', at: T3 },
+    ]);
+    expect(computeReopenRate([redone])).toEqual({ closed: 1, reopened: 1, ratePct: 100 });
+  });
+});
+
+describe('patchTask completion bookkeeping', () => {
+  it('leaves completedAt alone for moves between open stages', () => {
+    const moved = patchTask(base(), { status: 'In Progress' }, undefined, T1);
+    expect(moved.completedAt).toBeUndefined();
+    expect(moved.pastCompletions).toBeUndefined();
+  });
+
+  it('keeps completedAt for moves between closed stages', () => {
+    const won: Task = { ...base(), status: 'Won', completedAt: T1 };
+    const lost = patchTask(won, { status: 'Lost' }, SALES_WORKFLOW, T2);
+    expect(lost.completedAt).toBe(T1);
+    expect(lost.pastCompletions).toBeUndefined();
+  });
+
+  it('drops the completedAt of an open task on create', () => {
+    const input = { title: 'Imported', revenue: 10, timeTaken: 1, priority: 'Low', status: 'Todo', completedAt: T0 } as const;
+    expect(createTask(input, undefined, T1).completedAt).toBeUndefined();
+    expect(createTask({ ...input, status: 'Done' }, undefined, T1).completedAt).toBe(T0);
+  });
+
+  it('lets an explicit completedAt in the patch win', () => {
+    const done = patchTask(base(), { status: 'Done', completedAt: T0 }, undefined, T1);
+    expect(done.completedAt).toBe(T0);
+  });
+});
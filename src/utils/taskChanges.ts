@@ -0,0 +1,53 @@
+import { Task, TaskInput } from '@/types';
+import { DEFAULT_WORKFLOW, Workflow, isClosed } from '@/utils/workflow';
+import { completionChange, recordStatusChange } from '@/utils/statusHistory';
+import { checklistCompletionStatus } from '@/utils/subtasks';
+import { syncTimeTaken, timeSource } from '@/utils/timeTracking';
+import { newId } from '@/utils/ids';
+
+/* ================= CREATE / PATCH ================= */
+
+// The bookkeeping every add and edit goes through, whichever view made it.
+
+export function createTask(input: TaskInput, workflow: Workflow = DEFAULT_WORKFLOW, now = new Date().toISOString()): Task {
+  return syncTimeTaken({
+    ...input,
+    id: input.id ?? newId(),
+    createdAt: input.createdAt ?? now,
+    // Only closed tasks carry a completion, whatever an import row says.
+    completedAt: isClosed(workflow, input.status) ? input.completedAt ?? now : undefined,
+    // Backdated imports don't know their past moves; see statusTimeline.
+    statusHistory: input.statusHistory ?? (input.createdAt ? undefined : [{ to: input.status, at: now }]),
+  });
+}
+
+// Status changes stamp or archive completedAt (see completionChange) and are
+// appended to statusHistory. Ticking off the last checklist item can move
+// the task too (see checklistCompletionStatus). Fields set explicitly in the
+// patch win.
+export function patchTask(
+  t: Task,
+  patch: Partial<Task>,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+  now = new Date().toISOString(),
+): Task {
+  // Typing a time on a derived task (e.g. an inline edit) overrides the log or estimates.
+  const override =
+    patch.timeTaken !== undefined &&
+    patch.timeTaken !== t.timeTaken &&
+    !('timeTakenManual' in patch) &&
+    timeSource(t) !== 'typed'
+      ? { timeTakenManual: true }
+      : {};
+  const status = patch.status ?? checklistCompletionStatus(t, patch, workflow);
+  const moved =
+    status === undefined
+      ? {}
+      : { status, ...completionChange(t, status, workflow, now), statusHistory: recordStatusChange(t, status, now) };
+  return syncTimeTaken({
+    ...t,
+    ...moved,
+    ...patch,
+    ...override,
+  });
+}
@@ -0,0 +1,109 @@
+import { Task, TimeEntry } from '@/types';
+import { estimateHours } from '@/utils/subtasks';
+import { newId } from '@/utils/ids';
+
+/* ================= DERIVED TIME ================= */
+
+/** Logged time in hours, rounded to 0.01h and never 0 so it stays a valid timeTaken. */
+export function entriesHours(entries: ReadonlyArray<TimeEntry>): number {
+  const seconds = entries.reduce((s, e) => s + e.seconds, 0);
+  return Math.max(0.01, Number((seconds / 3600).toFixed(2)));
+}
+
+/** Where timeTaken comes from: the time log, the subtask estimates, or what was typed. */
+export type TimeSource = 'log' | 'estimates' | 'typed';
+
+export function timeSource(task: Pick<Task, 'timeEntries' | 'timeTakenManual' | 'subtasks'>): TimeSource {
+  if (task.timeTakenManual) return 'typed';
+  if (task.timeEntries?.length) return 'log';
+  return estimateHours(task.subtasks) === undefined ? 'typed' : 'estimates';
+}
+
+/** True when timeTaken comes from the time log rather than being typed. */
+export function isTracked(task: Pick<Task, 'timeEntries' | 'timeTakenManual'>): boolean {
+  return !!task.timeEntries?.length && !task.timeTakenManual;
+}
+
+/** Recomputes timeTaken from the log or estimates; typed times are returned as-is. */
+export function syncTimeTaken(task: Task): Task {
+  const source = timeSource(task);
+  if (source === 'typed') return task;
+  const hours = source === 'log' ? entriesHours(task.timeEntries!) : estimateHours(task.subtasks)!;
+  return hours === task.timeTaken ? task : { ...task, timeTaken: hours };
+}
+
+export function isTimeEntry(v: unknown): v is TimeEntry {
+  if (!v || typeof v !== 'object') return false;
+  const e = v as Record<string, unknown>;
+  return (
+    typeof e.id === 'string' &&
+    typeof e.start === 'string' &&
+    typeof e.end === 'string' &&
+    !Number.isNaN(new Date(e.start).getTime()) &&
+    !Number.isNaN(new Date(e.end).getTime()) &&
+    typeof e.seconds === 'number' &&
+    Number.isFinite(e.seconds) &&
+    e.seconds >= 0 &&
+    (e.note === undefined || typeof e.note === 'string') &&
+    (e.userId === undefined || typeof e.userId === 'string')
+  );
+}
+
+/* ================= TIMER ================= */
+
+// A timer is one work session on a task. Pausing banks the elapsed time;
+// stopping turns the whole session into a single time entry.
+
+export interface RunningTimer {
+  taskId: string;
+  /** ISO time the session started; becomes the entry's start. */
+  startedAt: string;
+  /** ISO time the current run began; unset while paused. */
+  runningSince?: string;
+  /** Time banked by earlier runs in this session. */
+  elapsedMs: number;
+}
+
+export function startTimer(taskId: string, now = new Date()): RunningTimer {
+  const iso = now.toISOString();
+  return { taskId, startedAt: iso, runningSince: iso, elapsedMs: 0 };
+}
+
+export function timerElapsedMs(timer: RunningTimer, now = new Date()): number {
+  const running = timer.runningSince ? Math.max(0, now.getTime() - new Date(timer.runningSince).getTime()) : 0;
+  return timer.elapsedMs + running;
+}
+
+export function pauseTimer(timer: RunningTimer, now = new Date()): RunningTimer {
+  if (!timer.runningSince) return timer;
+  return { ...timer, runningSince: undefined, elapsedMs: timerElapsedMs(timer, now) };
+}
+
+export function resumeTimer(timer: RunningTimer, now = new Date()): RunningTimer {
+  return timer.runningSince ? timer : { ...timer, runningSince: now.toISOString() };
+}
+
+/** The entry a stopped timer logs; null for sessions under a second. */
+export function entryFromTimer(timer: RunningTimer, userId: string, now = new Date()): TimeEntry | null {
+  const seconds = Math.round(timerElapsedMs(timer, now) / 1000);
+  if (seconds < 1) return null;
+  return { id: newId(), start: timer.startedAt, end: now.toISOString(), seconds, userId };
+}
+
+/* ================= DISPLAY ================= */
+
+/** "1:05:09" for running clocks. */
+export function formatClock(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(total / 3600)}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+/** "2h 05m" / "12m" / "40s" for logged durations. */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m`;
+}
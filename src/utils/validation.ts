@@ -0,0 +1,229 @@
+import { Priority, Status, Task, TaskInput } from '@/types';
+import { isDayString } from '@/utils/dueDates';
+import { isStatusChange } from '@/utils/statusHistory';
+import { isSubtask } from '@/utils/subtasks';
+import { isTimeEntry } from '@/utils/timeTracking';
+import { Workflow, canTransition, findStage, stageNames } from '@/utils/workflow';
+
+/* ================= SCHEMA ================= */
+
+export const PRIORITIES: Priority[] = ['High', 'Medium', 'Low'];
+
+/** Field-level messages; a task is valid when this is empty. */
+export type TaskErrors = Partial<Record<keyof Task, string>>;
+
+export interface ValidationContext {
+  /** Titles already in use; titles are unique case-insensitively. */
+  existingTitles?: ReadonlyArray<string>;
+  /** Title of the task being edited, which doesn't clash with itself. */
+  currentTitle?: string;
+  /** When given, status must be one of its stages. */
+  workflow?: Workflow;
+  /** Status of the task being edited; a patch may only move it along an allowed transition. */
+  currentStatus?: Status;
+}
+
+interface FieldSpec {
+  label: string;
+  /** Must be present on a stored Task (and can't be cleared by a patch). */
+  required: boolean;
+  /** Must be present on a TaskInput; id and createdAt are filled in on add. */
+  requiredOnInput: boolean;
+  check: (value: unknown) => string | null;
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isDateString = (v: unknown) => typeof v === 'string' && !Number.isNaN(new Date(v).getTime());
+
+const TASK_SCHEMA: Record<keyof Task, FieldSpec> = {
+  id: {
+    label: 'Id',
+    required: true,
+    requiredOnInput: false,
+    check: v => (typeof v === 'string' ? null : 'Id must be text'),
+  },
+  title: {
+    label: 'Title',
+    required: true,
+    requiredOnInput: true,
+    check: v => (typeof v !== 'string' ? 'Title must be text' : v.trim() ? null : 'Title is required'),
+  },
+  revenue: {
+    label: 'Revenue',
+    required: true,
+    requiredOnInput: true,
+    check: v => (!isFiniteNumber(v) ? 'Revenue must be a number' : v < 0 ? 'Revenue cannot be negative' : null),
+  },
+  timeTaken: {
+    label: 'Time taken',
+    required: true,
+    requiredOnInput: true,
+    check: v =>
+      !isFiniteNumber(v) ? 'Time taken must be a number' : v <= 0 ? 'Time taken must be greater than 0' : null,
+  },
+  priority: {
+    label: 'Priority',
+    required: true,
+    requiredOnInput: true,
+    check: v => (PRIORITIES.includes(v as Priority) ? null : `Priority must be one of ${PRIORITIES.join(', ')}`),
+  },
+  status: {
+    label: 'Status',
+    required: true,
+    requiredOnInput: true,
+    // Membership in the workflow is checked in run(), which has the context.
+    check: v => (typeof v !== 'string' ? 'Status must be text' : v.trim() ? null : 'Status is required'),
+  },
+  notes: {
+    label: 'Notes',
+    required: false,
+    requiredOnInput: false,
+    check: v => (typeof v === 'string' ? null : 'Notes must be text'),
+  },
+  createdAt: {
+    label: 'Creation date',
+    required: true,
+    requiredOnInput: false,
+    check: v => (isDateString(v) ? null : 'Creation date is not a valid date'),
+  },
+  completedAt: {
+    label: 'Completion date',
+    required: false,
+    requiredOnInput: false,
+    check: v => (isDateString(v) ? null : 'Completion date is not a valid date'),
+  },
+  pastCompletions: {
+    label: 'Past completions',
+    required: false,
+    requiredOnInput: false,
+    check: v => (Array.isArray(v) && v.every(isDateString) ? null : 'Past completions must be valid dates'),
+  },
+  dueDate: {
+    label: 'Due date',
+    required: false,
+    requiredOnInput: false,
+    check: v => (isDayString(v) ? null : 'Due date must be a valid date'),
+  },
+  assigneeId: {
+    label: 'Assignee',
+    required: false,
+    requiredOnInput: false,
+    check: v => (typeof v === 'string' && v ? null : 'Assignee must be a user id'),
+  },
+  boardOrder: {
+    label: 'Board position',
+    required: false,
+    requiredOnInput: false,
+    check: v => (isFiniteNumber(v) ? null : 'Board position must be a number'),
+  },
+  timeEntries: {
+    label: 'Time entries',
+    required: false,
+    requiredOnInput: false,
+    check: v => (Array.isArray(v) && v.every(isTimeEntry) ? null : 'Time entries are malformed'),
+  },
+  timeTakenManual: {
+    label: 'Manual time',
+    required: false,
+    requiredOnInput: false,
+    check: v => (typeof v === 'boolean' ? null : 'Manual time must be true or false'),
+  },
+  templateId: {
+    label: 'Template',
+    required: false,
+    requiredOnInput: false,
+    check: v => (typeof v === 'string' && v ? null : 'Template must be a template id'),
+  },
+  occurrence: {
+    label: 'Occurrence',
+    required: false,
+    requiredOnInput: false,
+    check: v => (isDayString(v) ? null : 'Occurrence must be a YYYY-MM-DD date'),
+  },
+  statusHistory: {
+    label: 'Status history',
+    required: false,
+    requiredOnInput: false,
+    check: v => (Array.isArray(v) && v.every(isStatusChange) ? null : 'Status history is malformed'),
+  },
+  subtasks: {
+    label: 'Checklist',
+    required: false,
+    requiredOnInput: false,
+    check: v =>
+      Array.isArray(v) && v.every(isSubtask) ? null : 'Checklist items need a title and a positive estimate, if any',
+  },
+};
+
+/* ================= VALIDATORS ================= */
+
+/** Checks one value against its field rule; null/undefined count as missing. */
+export function validateField(field: keyof Task, value: unknown): string | null {
+  const spec = TASK_SCHEMA[field];
+  if (value == null) return spec.required ? `${spec.label} is required` : null;
+  return spec.check(value);
+}
+
+export function isTitleTaken(title: string, ctx: ValidationContext): boolean {
+  const key = title.trim().toLowerCase();
+  const own = ctx.currentTitle?.toLowerCase();
+  return !!ctx.existingTitles?.some(t => {
+    const other = t.toLowerCase();
+    return other === key && other !== own;
+  });
+}
+
+type Mode = 'task' | 'input' | 'patch';
+
+function run(value: unknown, mode: Mode, ctx: ValidationContext): TaskErrors {
+  if (!value || typeof value !== 'object') return { id: 'Not a task' };
+  const record = value as Record<string, unknown>;
+  const errors: TaskErrors = {};
+
+  (Object.keys(TASK_SCHEMA) as Array<keyof Task>).forEach(field => {
+    const spec = TASK_SCHEMA[field];
+    const v = record[field];
+    if (mode === 'patch' && !(field in record)) return;
+    if (v == null) {
+      const required = mode === 'input' ? spec.requiredOnInput : spec.required;
+      if (required) errors[field] = `${spec.label} is required`;
+      return;
+    }
+    const message = spec.check(v);
+    if (message) errors[field] = message;
+  });
+
+  if (!errors.title && typeof record.title === 'string' && isTitleTaken(record.title, ctx)) {
+    errors.title = 'Duplicate title not allowed';
+  }
+  if (!errors.status && typeof record.status === 'string' && ctx.workflow) {
+    const status = record.status;
+    if (!findStage(ctx.workflow, status)) {
+      errors.status = `Status must be one of ${stageNames(ctx.workflow).join(', ')}`;
+    } else if (mode === 'patch' && ctx.currentStatus && !canTransition(ctx.workflow, ctx.currentStatus, status)) {
+      errors.status = `Can't move from ${ctx.currentStatus} to ${status}`;
+    }
+  }
+  return errors;
+}
+
+/** Validates a complete, stored task. */
+export function validateTask(task: unknown, ctx: ValidationContext = {}): TaskErrors {
+  return run(task, 'task', ctx);
+}
+
+/** Validates a new task before it is added. */
+export function validateTaskInput(input: Partial<TaskInput>, ctx: ValidationContext = {}): TaskErrors {
+  return run(input, 'input', ctx);
+}
+
+/** Validates only the fields present in a patch; required fields can't be cleared. */
+export function validatePatch(patch: Partial<Task>, ctx: ValidationContext = {}): TaskErrors {
+  return run(patch, 'patch', ctx);
+}
+
+export const hasErrors = (errors: TaskErrors) => Object.keys(errors).length > 0;
+
+export function formatErrors(errors: TaskErrors): string {
+  return Object.values(errors).join('; ');
+}
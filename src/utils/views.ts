@@ -0,0 +1,123 @@
+import { newId } from '@/utils/ids';
+import { SortKey, SortRule } from '@/utils/logic';
+
+/* ================= VIEW STATE ================= */
+
+export type ViewMode = 'table' | 'board' | 'calendar';
+
+const VIEW_MODES: ViewMode[] = ['table', 'board', 'calendar'];
+
+/** Everything that shapes what the task list shows. */
+export interface ViewState {
+  /** Filter query text (see utils/query). */
+  query: string;
+  /** Empty means the Recommended order. */
+  sort: SortRule[];
+  /** Visible table columns, in display order. */
+  columns: SortKey[];
+  mode: ViewMode;
+}
+
+export interface SavedView extends ViewState {
+  id: string;
+  name: string;
+}
+
+export const TABLE_COLUMN_KEYS: SortKey[] = [
+  'title',
+  'revenue',
+  'timeTaken',
+  'roi',
+  'priority',
+  'status',
+  'subtasks',
+  'dueDate',
+  'assigneeId',
+  'createdAt',
+  'completedAt',
+];
+
+export const DEFAULT_VIEW: ViewState = {
+  query: '',
+  sort: [],
+  columns: TABLE_COLUMN_KEYS,
+  mode: 'table',
+};
+
+const sameList = <T>(a: T[], b: T[], eq: (x: T, y: T) => boolean) =>
+  a.length === b.length && a.every((x, i) => eq(x, b[i]));
+
+export function sameView(a: ViewState, b: ViewState): boolean {
+  return (
+    a.query === b.query &&
+    a.mode === b.mode &&
+    sameList(a.sort, b.sort, (x, y) => x.key === y.key && x.dir === y.dir) &&
+    sameList(a.columns, b.columns, (x, y) => x === y)
+  );
+}
+
+/** Keeps known columns in canonical order; the title column is always shown. */
+export function normalizeColumns(columns: ReadonlyArray<string>): SortKey[] {
+  return TABLE_COLUMN_KEYS.filter(k => k === 'title' || columns.includes(k));
+}
+
+/* ================= URL ================= */
+
+// ?q=status:Todo&sort=-roi,title&cols=title,revenue,roi&view=board
+// Parameters equal to the default are omitted so plain links stay plain.
+
+export function viewToSearch(view: ViewState): string {
+  const params = new URLSearchParams();
+  if (view.query) params.set('q', view.query);
+  if (view.sort.length) {
+    params.set('sort', view.sort.map(r => (r.dir === 'desc' ? `-${r.key}` : r.key)).join(','));
+  }
+  if (!sameList(view.columns, DEFAULT_VIEW.columns, (x, y) => x === y)) {
+    params.set('cols', view.columns.join(','));
+  }
+  if (view.mode !== DEFAULT_VIEW.mode) params.set('view', view.mode);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Reads a view from a query string. Returns null when the URL carries no
+ * view parameters; unknown sort keys and columns are dropped.
+ */
+export function viewFromSearch(search: string): ViewState | null {
+  const params = new URLSearchParams(search);
+  if (!['q', 'sort', 'cols', 'view'].some(k => params.has(k))) return null;
+
+  const sort: SortRule[] = [];
+  (params.get('sort') ?? '').split(',').forEach(part => {
+    const key = part.replace(/^-/, '') as SortKey;
+    if (TABLE_COLUMN_KEYS.includes(key) && !sort.some(r => r.key === key)) {
+      sort.push({ key, dir: part.startsWith('-') ? 'desc' : 'asc' });
+    }
+  });
+
+  const cols = params.get('cols');
+  return {
+    query: params.get('q') ?? '',
+    sort,
+    columns: cols ? normalizeColumns(cols.split(',')) : DEFAULT_VIEW.columns,
+    mode: VIEW_MODES.find(m => m === params.get('view')) ?? 'table',
+  };
+}
+
+/* ================= SAVED VIEWS ================= */
+
+/** Adds a view, replacing any existing view with the same name (case-insensitive). */
+export function upsertView(views: SavedView[], name: string, state: ViewState): SavedView[] {
+  const trimmed = name.trim();
+  const existing = views.find(v => v.name.toLowerCase() === trimmed.toLowerCase());
+  const view: SavedView = {
+    id: existing?.id ?? newId(),
+    name: trimmed,
+    query: state.query,
+    sort: state.sort,
+    columns: state.columns,
+    mode: state.mode,
+  };
+  return existing ? views.map(v => (v.id === existing.id ? view : v)) : [...views, view];
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '@/types';
+import { DEFAULT_WORKFLOW, SALES_WORKFLOW, mapStatus, migrateTask } from '@/utils/workflow';
+
+describe('mapStatus', () => {
+  it('maps Sales stages onto the default workflow without turning Lost into a win', () => {
+    const mapped = SALES_WORKFLOW.stages.map(s => mapStatus(s.name, SALES_WORKFLOW, DEFAULT_WORKFLOW));
+    expect(mapped).toEqual(['Todo', 'In Progress', 'In Progress', 'Done', 'Todo']);
+  });
+
+  it('keeps outcomes when the target has a matching stage', () => {
+    expect(mapStatus('Done', DEFAULT_WORKFLOW, SALES_WORKFLOW)).toBe('Won');
+    expect(mapStatus('Lost', SALES_WORKFLOW, SALES_WORKFLOW)).toBe('Lost');
+  });
+
+  it('follows renames', () => {
+    expect(mapStatus('Todo', DEFAULT_WORKFLOW, SALES_WORKFLOW, { Todo: 'Proposal' })).toBe('Proposal');
+  });
+});
+
+describe('migrateTask', () => {
+  const lost: Task = {
+    id: 't-1',
+    title: 'Renewal',
+    revenue: 500,
+    timeTaken: 1,
+    priority: 'High',
+    status: 'Lost',
+    createdAt: '2026-09-01T10:00:00.000Z',
+    completedAt: '2026-09-10T10:00:00.000Z',
+  };
+
+  it('archives the completion of a closed task that reopens', () => {
+    const task = migrateTask(lost, SALES_WORKFLOW, DEFAULT_WORKFLOW);
+    expect(task.status).toBe('Todo');
+    expect(task.completedAt).toBeUndefined();
+    expect(task.pastCompletions).toEqual(['2026-09-10T10:00:00.000Z']);
+  });
+
+  it('keeps the completion of a task that stays closed', () => {
+    const task = migrateTask({ ...lost, status: 'Won' }, SALES_WORKFLOW, DEFAULT_WORKFLOW);
+    expect(task.status).toBe('Done');
+    expect(task.completedAt).toBe(lost.completedAt);
+  });
+});
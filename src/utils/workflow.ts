@@ -0,0 +1,196 @@
+import { Status, Task } from '@/types';
+
+/* ================= DEFINITIONS ================= */
+
+// A workflow is the ordered list of stages a task moves through. Every
+// place that used to hard-code Todo / In Progress / Done (forms, filters,
+// the board, funnel, pipeline weighting, completedAt stamping) reads the
+// active workflow instead.
+
+/** Closed stages end the task; won stages count toward revenue. */
+export type StageOutcome = 'won' | 'lost';
+
+export interface WorkflowStage {
+  /** Stored as the task's status. */
+  name: Status;
+  /** Chance (0–1) a task in this stage closes won; weights the pipeline. */
+  probability: number;
+  /** Set on terminal stages. Entering one stamps completedAt. */
+  outcome?: StageOutcome;
+}
+
+export interface Workflow {
+  name: string;
+  /** In pipeline order. */
+  stages: WorkflowStage[];
+  /**
+   * Stages each stage may move to. A stage without an entry can move to any
+   * other; omit the map entirely for a free-form workflow.
+   */
+  transitions?: Record<Status, Status[]>;
+  /** Moves a task to the first won stage once every item on its checklist is ticked. */
+  completeOnChecklist?: boolean;
+}
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  name: 'Tasks',
+  stages: [
+    { name: 'Todo', probability: 0.1 },
+    { name: 'In Progress', probability: 0.5 },
+    { name: 'Done', probability: 1, outcome: 'won' },
+  ],
+};
+
+export const SALES_WORKFLOW: Workflow = {
+  name: 'Sales pipeline',
+  stages: [
+    { name: 'Qualified', probability: 0.2 },
+    { name: 'Proposal', probability: 0.4 },
+    { name: 'Negotiation', probability: 0.7 },
+    { name: 'Won', probability: 1, outcome: 'won' },
+    { name: 'Lost', probability: 0, outcome: 'lost' },
+  ],
+  transitions: {
+    Qualified: ['Proposal', 'Lost'],
+    Proposal: ['Qualified', 'Negotiation', 'Lost'],
+    Negotiation: ['Proposal', 'Won', 'Lost'],
+    Won: ['Negotiation'],
+    Lost: ['Qualified'],
+  },
+};
+
+export const WORKFLOW_PRESETS: Workflow[] = [DEFAULT_WORKFLOW, SALES_WORKFLOW];
+
+/* ================= QUERIES ================= */
+
+export const stageNames = (workflow: Workflow): Status[] => workflow.stages.map(s => s.name);
+
+export function findStage(workflow: Workflow, status: Status): WorkflowStage | undefined {
+  return workflow.stages.find(s => s.name === status);
+}
+
+/** Position in the pipeline; unknown statuses sort after every stage. */
+export function stageIndex(workflow: Workflow, status: Status): number {
+  const index = workflow.stages.findIndex(s => s.name === status);
+  return index < 0 ? workflow.stages.length : index;
+}
+
+export const isClosed = (workflow: Workflow, status: Status) => !!findStage(workflow, status)?.outcome;
+
+export const isWon = (workflow: Workflow, status: Status) => findStage(workflow, status)?.outcome === 'won';
+
+export const stageProbability = (workflow: Workflow, status: Status) => findStage(workflow, status)?.probability ?? 0;
+
+export function canTransition(workflow: Workflow, from: Status, to: Status): boolean {
+  if (from === to) return true;
+  if (!findStage(workflow, to)) return false;
+  const allowed = workflow.transitions?.[from];
+  return !allowed || allowed.includes(to);
+}
+
+/** Stages a task in `from` may move to, in pipeline order, including `from` itself. */
+export function allowedStages(workflow: Workflow, from: Status | undefined): Status[] {
+  return stageNames(workflow).filter(s => from === undefined || canTransition(workflow, from, s));
+}
+
+/* ================= VALIDATION ================= */
+
+/** Problems that make a workflow unusable; empty when it's valid. */
+export function validateWorkflow(workflow: Workflow): string[] {
+  const errors: string[] = [];
+  const names = workflow.stages.map(s => s.name.trim());
+  if (!workflow.name.trim()) errors.push('Workflow needs a name');
+  if (!names.length) errors.push('Workflow needs at least one stage');
+  if (names.some(n => !n)) errors.push('Every stage needs a name');
+  const seen = new Set<string>();
+  names.forEach(n => {
+    const key = n.toLowerCase();
+    if (n && seen.has(key)) errors.push(`Stage "${n}" appears more than once`);
+    seen.add(key);
+  });
+  workflow.stages.forEach(s => {
+    if (!Number.isFinite(s.probability) || s.probability < 0 || s.probability > 1) {
+      errors.push(`Probability for "${s.name}" must be between 0 and 100%`);
+    }
+  });
+  if (!workflow.stages.some(s => s.outcome === 'won')) errors.push('At least one stage must count as won');
+  if (!workflow.stages.some(s => !s.outcome)) errors.push('At least one stage must be open');
+  Object.entries(workflow.transitions ?? {}).forEach(([from, targets]) => {
+    if (!names.includes(from)) errors.push(`Transitions refer to unknown stage "${from}"`);
+    targets.filter(t => !names.includes(t)).forEach(t => errors.push(`Transitions refer to unknown stage "${t}"`));
+  });
+  return errors;
+}
+
+function isStage(v: unknown): v is WorkflowStage {
+  if (!v || typeof v !== 'object') return false;
+  const s = v as Record<string, unknown>;
+  return (
+    typeof s.name === 'string' &&
+    typeof s.probability === 'number' &&
+    (s.outcome === undefined || s.outcome === 'won' || s.outcome === 'lost')
+  );
+}
+
+export function isWorkflow(v: unknown): v is Workflow {
+  if (!v || typeof v !== 'object') return false;
+  const w = v as Record<string, unknown>;
+  return (
+    typeof w.name === 'string' &&
+    Array.isArray(w.stages) &&
+    w.stages.every(isStage) &&
+    (w.transitions === undefined ||
+      (!!w.transitions &&
+        typeof w.transitions === 'object' &&
+        Object.values(w.transitions).every(t => Array.isArray(t) && t.every(x => typeof x === 'string')))) &&
+    (w.completeOnChecklist === undefined || typeof w.completeOnChecklist === 'boolean') &&
+    !validateWorkflow(v as Workflow).length
+  );
+}
+
+/* ================= MIGRATION ================= */
+
+/**
+ * Where a task in `status` under `from` lands under `to`: the stage it was
+ * renamed to, the stage with the same name if there is one, otherwise the first stage with the same outcome,
+ * and for open stages the one at the same relative position in the pipeline.
+ * A closed stage with no counterpart reopens in the first open stage: a lost
+ * deal must never count as won.
+ */
+export function mapStatus(
+  status: Status,
+  from: Workflow,
+  to: Workflow,
+  renames: Record<Status, Status> = {},
+): Status {
+  const renamed = renames[status];
+  if (renamed !== undefined && findStage(to, renamed)) return renamed;
+  if (findStage(to, status)) return status;
+  const stage = findStage(from, status);
+  const open = to.stages.filter(s => !s.outcome);
+  if (!stage) return (open[0] ?? to.stages[0]).name;
+  if (stage.outcome) {
+    const match = to.stages.find(s => s.outcome === stage.outcome) ?? open[0];
+    return match.name;
+  }
+  const fromOpen = from.stages.filter(s => !s.outcome);
+  const position = fromOpen.length > 1 ? fromOpen.indexOf(stage) / (fromOpen.length - 1) : 0;
+  return open[Math.round(position * (open.length - 1))].name;
+}
+
+/**
+ * The task moved to its stage under `to`, with its status history relabelled
+ * to match. A task that lands in an open stage has its completedAt archived
+ * to pastCompletions, as reopening it would.
+ */
+export function migrateTask(task: Task, from: Workflow, to: Workflow, renames: Record<Status, Status> = {}): Task {
+  const map = (status: Status) => mapStatus(status, from, to, renames);
+  const statusHistory = task.statusHistory
+    ?.map(c => ({ ...c, ...(c.from === undefined ? {} : { from: map(c.from) }), to: map(c.to) }))
+    // Stages merged by the mapping leave moves that went nowhere.
+    .filter(c => c.from !== c.to);
+  const status = map(task.status);
+  if (!task.completedAt || isClosed(to, status)) return { ...task, status, statusHistory };
+  const { completedAt, ...rest } = task;
+  return { ...rest, status, statusHistory, pastCompletions: [...(task.pastCompletions ?? []), completedAt] };
+}
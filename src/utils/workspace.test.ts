@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '@/types';
+import { DEFAULT_ROSTER } from '@/context/UserContext';
+import { WORKSPACE_FORMAT, WORKSPACE_VERSION, createBackup, parseBackup, planRestore, planRoster } from '@/utils/workspace';
+
+const task = (id: string, title: string): Task => ({
+  id,
+  title,
+  revenue: 100,
+  timeTaken: 1,
+  priority: 'Medium',
+  status: 'Todo',
+  createdAt: '2026-09-01T10:00:00.000Z',
+});
+
+describe('parseBackup', () => {
+  it('drops tasks repeating a title within the backup', () => {
+    const text = JSON.stringify({
+      format: WORKSPACE_FORMAT,
+      version: WORKSPACE_VERSION,
+      tasks: [task('a', 'Renewal'), task('b', 'renewal')],
+      activity: [],
+      user: DEFAULT_ROSTER[0],
+    });
+    const { backup, warnings } = parseBackup(text);
+    expect(backup.tasks.map(t => t.id)).toEqual(['a']);
+    expect(warnings).toEqual(['Task #2: duplicate title "renewal"']);
+  });
+
+  it('round-trips the roster and drops invalid or repeated users', () => {
+    const backup = createBackup([], [], DEFAULT_ROSTER[1], undefined, [], DEFAULT_ROSTER);
+    expect(parseBackup(JSON.stringify(backup)).backup.users).toEqual(DEFAULT_ROSTER);
+
+    const text = JSON.stringify({ ...backup, users: [DEFAULT_ROSTER[0], { id: 'u-9' }, DEFAULT_ROSTER[0]] });
+    const { backup: parsed, warnings } = parseBackup(text);
+    // The active user is kept even though the roster left it out.
+    expect(parsed.users).toEqual([DEFAULT_ROSTER[0], DEFAULT_ROSTER[1]]);
+    expect(warnings).toEqual(['User #2: invalid settings', 'User #3: duplicate id u-001']);
+  });
+});
+
+describe('planRoster', () => {
+  const renamed = { ...DEFAULT_ROSTER[1], name: 'Jordan Lee-Park' };
+  const newcomer = { ...DEFAULT_ROSTER[3], id: 'u-005', name: 'Kim Cho' };
+
+  it('updates and adds users on merge', () => {
+    const roster = planRoster(DEFAULT_ROSTER, { user: renamed, users: [renamed, newcomer] }, 'merge');
+    expect(roster.map(u => u.name)).toEqual(['Avery (Sales Manager)', 'Jordan Lee-Park', 'Priya Nair', 'Sam Ortiz', 'Kim Cho']);
+  });
+
+  it('takes the backup roster on replace', () => {
+    expect(planRoster(DEFAULT_ROSTER, { user: renamed, users: [renamed, newcomer] }, 'replace')).toEqual([renamed, newcomer]);
+  });
+
+  it('merges just the active user from backups without a roster', () => {
+    expect(planRoster(DEFAULT_ROSTER, { user: renamed }, 'replace')).toHaveLength(DEFAULT_ROSTER.length);
+  });
+});
+
+describe('planRestore', () => {
+  const current = [task('a', 'Renewal'), task('b', 'Kickoff')];
+
+  it('leaves out merged tasks whose title another task keeps', () => {
+    const { tasks, conflicts } = planRestore([task('c', 'kickoff'), task('d', 'Upsell')], current, 'merge');
+    expect(tasks.map(t => t.id)).toEqual(['d']);
+    expect(conflicts).toEqual(['"kickoff" (c): Duplicate title not allowed']);
+  });
+
+  it('allows titles freed by tasks the backup overwrites', () => {
+    const { tasks, conflicts } = planRestore([task('a', 'Kickoff'), task('b', 'Renewal')], current, 'merge');
+    expect(tasks).toHaveLength(2);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('rechecks after a conflict keeps the workspace task', () => {
+    // Leaving out "a" keeps the workspace's "Renewal", which "c" then clashes with.
+    const { tasks, conflicts } = planRestore([task('a', 'Kickoff'), task('c', 'Renewal')], current, 'merge');
+    expect(tasks).toEqual([]);
+    expect(conflicts).toHaveLength(2);
+  });
+
+  it('keeps everything on replace', () => {
+    expect(planRestore([task('c', 'Kickoff')], current, 'replace').tasks).toHaveLength(1);
+  });
+});
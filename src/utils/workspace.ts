@@ -0,0 +1,261 @@
+import { ActivityEvent, Task } from '@/types';
+import { User, isUser } from '@/context/UserContext';
+import { normalizeActivity } from '@/utils/activity';
+import { toTask, validateTaskRecord } from '@/utils/dataSource';
+import { computeMetrics, withDerived } from '@/utils/logic';
+import { DEFAULT_WORKFLOW, Workflow, isWorkflow } from '@/utils/workflow';
+import { RecurringTemplate, isTemplate } from '@/utils/recurrence';
+import { formatErrors, hasErrors, validateTask } from '@/utils/validation';
+import { createXlsx, XlsxSheet } from '@/utils/xlsx';
+
+export const WORKSPACE_FORMAT = 'taskglitch-workspace';
+export const WORKSPACE_VERSION = 1;
+
+export interface WorkspaceBackup {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: string;
+  tasks: Task[];
+  activity: ActivityEvent[];
+  /** The user who made the backup. */
+  user: User;
+  /** Everyone tasks can be assigned to; absent in backups made before it was included. */
+  users?: User[];
+  /** Absent in backups made before workflows were configurable; those use the default. */
+  workflow?: Workflow;
+  /** Recurring templates; absent in backups made before they existed. */
+  templates?: RecurringTemplate[];
+}
+
+export interface ParsedBackup {
+  backup: WorkspaceBackup;
+  /** Human-readable problems for records that were dropped. */
+  warnings: string[];
+}
+
+export interface RestorePlan {
+  /** Backup tasks that can be restored as they are. */
+  tasks: Task[];
+  /** Backup tasks left out because they clash with the workspace, with the reason. */
+  conflicts: string[];
+}
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+export function createBackup(
+  tasks: ReadonlyArray<Task>,
+  activity: ReadonlyArray<ActivityEvent>,
+  user: User,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+  templates: ReadonlyArray<RecurringTemplate> = [],
+  users: ReadonlyArray<User> = [user],
+): WorkspaceBackup {
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    tasks: [...tasks],
+    activity: [...activity],
+    user,
+    users: [...users],
+    workflow,
+    templates: [...templates],
+  };
+}
+
+/* ================= RESTORE ================= */
+
+/**
+ * Validates a backup file. Structural problems throw; individual bad task or
+ * activity records are dropped and reported as warnings.
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new WorkspaceError('The file is not valid JSON');
+  }
+  const raw = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+  if (raw.format !== WORKSPACE_FORMAT) {
+    throw new WorkspaceError('Not a TaskGlitch workspace backup');
+  }
+  if (typeof raw.version !== 'number' || raw.version > WORKSPACE_VERSION) {
+    throw new WorkspaceError(`Unsupported backup version ${raw.version}`);
+  }
+  if (!Array.isArray(raw.tasks)) throw new WorkspaceError('Backup has no task list');
+  if (!isUser(raw.user)) throw new WorkspaceError('Backup has invalid user settings');
+  const user = raw.user;
+
+  const warnings: string[] = [];
+  const now = new Date().toISOString();
+  const seen = new Set<string>();
+  const seenTitles = new Set<string>();
+  const tasks: Task[] = [];
+  raw.tasks.forEach((t: unknown, i: number) => {
+    const problems = validateTaskRecord(t);
+    if (problems.length) {
+      warnings.push(`Task #${i + 1}: ${problems.join(', ')}`);
+      return;
+    }
+    const task = toTask(t, now);
+    if (seen.has(task.id)) {
+      warnings.push(`Task #${i + 1}: duplicate id ${task.id}`);
+      return;
+    }
+    const key = task.title.toLowerCase();
+    if (seenTitles.has(key)) {
+      warnings.push(`Task #${i + 1}: duplicate title "${task.title}"`);
+      return;
+    }
+    seen.add(task.id);
+    seenTitles.add(key);
+    tasks.push(task);
+  });
+
+  const activityRaw: unknown[] = Array.isArray(raw.activity) ? raw.activity : [];
+  const activity = activityRaw
+    .map(normalizeActivity)
+    .filter((a): a is ActivityEvent => a !== null);
+  if (activity.length < activityRaw.length) {
+    warnings.push(`${activityRaw.length - activity.length} activity entries were invalid`);
+  }
+
+  let workflow: Workflow | undefined;
+  if (isWorkflow(raw.workflow)) workflow = raw.workflow;
+  else if (raw.workflow !== undefined) warnings.push('Workflow was invalid; statuses will be mapped to the default workflow');
+
+  let templates: RecurringTemplate[] | undefined;
+  if (Array.isArray(raw.templates)) {
+    templates = raw.templates.filter(isTemplate);
+    if (templates!.length < raw.templates.length) {
+      warnings.push(`${raw.templates.length - templates!.length} recurring templates were invalid`);
+    }
+  }
+
+  // The active user's own entry wins, and is added if the roster lacks it.
+  let users: User[] | undefined;
+  if (Array.isArray(raw.users)) {
+    const roster: User[] = [];
+    raw.users.forEach((u: unknown, i: number) => {
+      if (!isUser(u)) warnings.push(`User #${i + 1}: invalid settings`);
+      else if (roster.some(o => o.id === u.id)) warnings.push(`User #${i + 1}: duplicate id ${u.id}`);
+      else roster.push(u.id === user.id ? user : u);
+    });
+    users = roster.some(u => u.id === user.id) ? roster : [...roster, user];
+  }
+
+  return {
+    backup: {
+      format: WORKSPACE_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : now,
+      tasks,
+      activity,
+      user,
+      users,
+      workflow,
+      templates,
+    },
+    warnings,
+  };
+}
+
+/**
+ * Checks backup tasks against the workspace they are restored into. A
+ * replace keeps every task, since parseBackup already made titles unique
+ * within the backup. A merge keeps the workspace tasks the backup doesn't
+ * overwrite, so each incoming task must pass validateTask against their
+ * titles; those that don't are left out and reported. Leaving one out keeps
+ * the workspace task with its id, which can clash in turn, so this repeats
+ * until nothing changes.
+ */
+export function planRestore(
+  incoming: ReadonlyArray<Task>,
+  current: ReadonlyArray<Task>,
+  mode: 'replace' | 'merge',
+): RestorePlan {
+  if (mode === 'replace') return { tasks: [...incoming], conflicts: [] };
+  let tasks = [...incoming];
+  const conflicts: string[] = [];
+  for (;;) {
+    const replaced = new Set(tasks.map(t => t.id));
+    const existingTitles = current.filter(t => !replaced.has(t.id)).map(t => t.title);
+    const kept = tasks.filter(t => {
+      const errors = validateTask(t, { existingTitles });
+      if (!hasErrors(errors)) return true;
+      conflicts.push(`"${t.title}" (${t.id}): ${formatErrors(errors)}`);
+      return false;
+    });
+    if (kept.length === tasks.length) return { tasks, conflicts };
+    tasks = kept;
+  }
+}
+
+/**
+ * The roster after restoring a backup's users. A replace takes the backup's
+ * roster; a merge updates users with the same id and adds the others. Backups
+ * without a roster only hold the active user, so they always merge.
+ */
+export function planRoster(
+  current: ReadonlyArray<User>,
+  backup: Pick<WorkspaceBackup, 'user' | 'users'>,
+  mode: 'replace' | 'merge',
+): User[] {
+  const incoming = backup.users ?? [backup.user];
+  if (mode === 'replace' && backup.users) return [...incoming];
+  const byId = new Map(incoming.map(u => [u.id, u]));
+  const known = new Set(current.map(u => u.id));
+  return [...current.map(u => byId.get(u.id) ?? u), ...incoming.filter(u => !known.has(u.id))];
+}
+
+/* ================= SPREADSHEET REPORT ================= */
+
+export function createXlsxReport(
+  tasks: ReadonlyArray<Task>,
+  timeZone?: string,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+): Uint8Array {
+  const m = computeMetrics(tasks, timeZone, workflow);
+  const taskSheet: XlsxSheet = {
+    name: 'Tasks',
+    widths: [12, 36, 12, 12, 10, 12, 10, 24, 24, 12, 40],
+    rows: [
+      ['ID', 'Title', 'Revenue', 'Time Taken (h)', 'Priority', 'Status', 'ROI', 'Created At', 'Completed At', 'Due Date', 'Notes'],
+      ...tasks.map(withDerived).map(t => [
+        t.id,
+        t.title,
+        t.revenue,
+        t.timeTaken,
+        t.priority,
+        t.status,
+        t.roi,
+        t.createdAt,
+        t.completedAt,
+        t.dueDate,
+        t.notes,
+      ]),
+    ],
+  };
+  const metricsSheet: XlsxSheet = {
+    name: 'Metrics',
+    widths: [24, 18],
+    rows: [
+      ['Metric', 'Value'],
+      ['Total Revenue', m.totalRevenue],
+      ['Total Time Taken (h)', m.totalTimeTaken],
+      ['Time Efficiency (%)', Number(m.timeEfficiencyPct.toFixed(2))],
+      ['Revenue / Hour', m.revenuePerHour],
+      ['Average ROI', m.averageROI],
+      ['Performance Grade', m.performanceGrade],
+      ['On-time Completion (%)', m.onTimeCompletionPct == null ? null : Number(m.onTimeCompletionPct.toFixed(2))],
+      ['Task Count', tasks.length],
+    ],
+  };
+  return createXlsx([taskSheet, metricsSheet]);
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Endpoint returning a JSON array of tasks. Defaults to /tasks.json. */
+  readonly VITE_TASKS_URL?: string;
+  /** When "true", start from generated seed data instead of fetching. */
+  readonly VITE_DEMO_MODE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}